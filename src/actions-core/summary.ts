@@ -0,0 +1,219 @@
+/**
+ * GitHub related functions. See comment in `core.ts`.
+ *
+ * This follows the API of the `summary` from `@actions/core`, but builds Markdown rather than HTML.
+ * See: https://docs.github.com/en/actions/using-workflows/workflow-commands-for-github-actions#adding-a-job-summary
+ */
+
+import { constants, promises } from "node:fs"
+import * as os from "node:os"
+
+const { access, appendFile, writeFile } = promises
+
+export const SUMMARY_ENV_VAR = "GITHUB_STEP_SUMMARY"
+
+export type SummaryTableCell = string | number
+
+export type SummaryTableRow = SummaryTableCell[]
+
+export interface SummaryWriteOptions {
+  /** Replace all existing content in the summary file with the buffer contents. Defaults to false. */
+  overwrite?: boolean
+}
+
+export class Summary {
+  private buffer: string
+  private filePath?: string
+
+  constructor() {
+    this.buffer = ""
+  }
+
+  /**
+   * Finds the summary file path from the environment, rejects if the env var is not found or the file
+   * does not exist. Also checks r/w permissions.
+   */
+  private async summaryFilePath(): Promise<string> {
+    if (this.filePath) {
+      return this.filePath
+    }
+
+    const pathFromEnv = process.env[SUMMARY_ENV_VAR]
+    if (!pathFromEnv) {
+      throw new Error(
+        `Unable to find environment variable for $${SUMMARY_ENV_VAR}. Check if your runtime environment supports job summaries.`
+      )
+    }
+
+    try {
+      await access(pathFromEnv, constants.R_OK | constants.W_OK)
+    } catch {
+      throw new Error(
+        `Unable to access summary file: '${pathFromEnv}'. Check if the file has correct read/write permissions.`
+      )
+    }
+
+    this.filePath = pathFromEnv
+    return this.filePath
+  }
+
+  /**
+   * Writes text in the buffer to the summary buffer file and empties the buffer.
+   * Will append by default.
+   */
+  async write(options?: SummaryWriteOptions): Promise<Summary> {
+    const overwrite = !!options?.overwrite
+    const filePath = await this.summaryFilePath()
+    const writeFunc = overwrite ? writeFile : appendFile
+    await writeFunc(filePath, this.buffer, { encoding: "utf8" })
+    return this.emptyBuffer()
+  }
+
+  /**
+   * Clears the summary buffer and wipes the summary file.
+   */
+  async clear(): Promise<Summary> {
+    return this.emptyBuffer().write({ overwrite: true })
+  }
+
+  /**
+   * Returns the current summary buffer as a string.
+   */
+  stringify(): string {
+    return this.buffer
+  }
+
+  /**
+   * Whether the summary buffer is empty.
+   */
+  isEmptyBuffer(): boolean {
+    return this.buffer.length === 0
+  }
+
+  /**
+   * Resets the summary buffer without writing to the summary file.
+   */
+  emptyBuffer(): Summary {
+    this.buffer = ""
+    return this
+  }
+
+  /**
+   * Adds raw text to the summary buffer.
+   *
+   * @param text content to add
+   * @param addEOL (optional) append an EOL to the raw text (default: false)
+   */
+  addRaw(text: string, addEOL = false): Summary {
+    this.buffer += text
+    return addEOL ? this.addEOL() : this
+  }
+
+  /**
+   * Adds the operating system-specific end-of-line marker to the buffer.
+   */
+  addEOL(): Summary {
+    return this.addRaw(os.EOL)
+  }
+
+  /**
+   * Adds a Markdown heading, as a separate block, to the summary buffer.
+   *
+   * @param text heading text
+   * @param level (optional) the heading level, from 1 to 6 (default: 1)
+   */
+  addHeading(text: string, level: number = 1): Summary {
+    const hashes = "#".repeat(Math.min(Math.max(Math.trunc(level), 1), 6))
+    return this.addBlock(`${hashes} ${text}`)
+  }
+
+  /**
+   * Adds a Markdown table, as a separate block, to the summary buffer.
+   * Table cells are escaped so that they cannot break the table structure.
+   *
+   * @param headers the header row
+   * @param rows the table rows, each with the same number of cells as the header row
+   */
+  addTable(headers: SummaryTableRow, rows: SummaryTableRow[]): Summary {
+    const lines = [tableRow(headers), tableRow(headers.map(() => "---")), ...rows.map((row) => tableRow(row))]
+    return this.addBlock(lines.join(os.EOL))
+  }
+
+  /**
+   * Adds a Markdown list, as a separate block, to the summary buffer.
+   *
+   * @param items list items
+   * @param ordered (optional) whether the list should be ordered (default: false)
+   */
+  addList(items: string[], ordered = false): Summary {
+    const lines = items.map((item, index) => `${ordered ? `${index + 1}.` : "-"} ${item}`)
+    return this.addBlock(lines.join(os.EOL))
+  }
+
+  /**
+   * Adds a fenced code block, as a separate block, to the summary buffer.
+   *
+   * @param code content to render within the fenced code block
+   * @param lang (optional) language to syntax highlight code
+   */
+  addCodeBlock(code: string, lang?: string): Summary {
+    return this.addBlock(`\`\`\`${lang ?? ""}${os.EOL}${code}${os.EOL}\`\`\``)
+  }
+
+  /**
+   * Adds a collapsible details element, as a separate block, to the summary buffer.
+   *
+   * @param label text for the closed state
+   * @param content Markdown content for the open state
+   */
+  addDetails(label: string, content: string): Summary {
+    return this.addBlock(
+      `<details><summary>${label}</summary>${os.EOL}${os.EOL}${content}${os.EOL}${os.EOL}</details>`
+    )
+  }
+
+  /**
+   * Adds a Markdown link inline to the summary buffer.
+   *
+   * @param text link text/content
+   * @param href hyperlink
+   */
+  addLink(text: string, href: string): Summary {
+    return this.addRaw(link(text, href))
+  }
+
+  /**
+   * Adds a Markdown thematic break, as a separate block, to the summary buffer.
+   */
+  addSeparator(): Summary {
+    return this.addBlock("---")
+  }
+
+  /**
+   * Adds a paragraph, as a separate block, to the summary buffer.
+   */
+  addParagraph(text: string): Summary {
+    return this.addBlock(text)
+  }
+
+  private addBlock(block: string): Summary {
+    return this.addRaw(block).addEOL().addEOL()
+  }
+}
+
+/**
+ * Renders a Markdown link, which may be used within other summary content such as table cells.
+ */
+export function link(text: string, href: string): string {
+  return `[${text.replace(/([[\]])/g, "\\$1")}](${href.replace(/([()])/g, "\\$1")})`
+}
+
+function tableRow(cells: SummaryTableRow): string {
+  return `| ${cells.map(escapeTableCell).join(" | ")} |`
+}
+
+function escapeTableCell(cell: SummaryTableCell): string {
+  return cell.toString().replace(/\|/g, "\\|").replace(/\r?\n/g, " ")
+}
+
+export const summary = new Summary()
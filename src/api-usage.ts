@@ -0,0 +1,120 @@
+import type { EndpointOptions, OctokitResponse, RequestInterface } from "@octokit/types"
+import type { Octokit } from "octokit"
+
+/**
+ * The calls made to an endpoint, such as `GET /repos/{owner}/{repo}/releases` or `GraphQL PullRequests`.
+ */
+export interface EndpointUsage {
+  endpoint: string
+  calls: number
+  /** The total time of the calls in milliseconds. */
+  duration: number
+  /** The total GraphQL rate limit points of the calls, or null for REST endpoints. */
+  cost: number | null
+}
+
+/**
+ * The GitHub API calls made, by endpoint in the order first called, to show how many calls a run takes.
+ */
+export class ApiUsage {
+  private readonly usage = new Map<string, EndpointUsage>()
+
+  record(endpoint: string, duration: number, cost: number | null) {
+    const usage = this.usage.get(endpoint) ?? { endpoint: endpoint, calls: 0, duration: 0, cost: null }
+    usage.calls++
+    usage.duration += duration
+    if (cost !== null) {
+      usage.cost = (usage.cost ?? 0) + cost
+    }
+    this.usage.set(endpoint, usage)
+  }
+
+  endpoints(): EndpointUsage[] {
+    return [...this.usage.values()].map((usage) => ({ ...usage }))
+  }
+
+  total(): EndpointUsage {
+    return this.endpoints().reduce(
+      (total, usage) => ({
+        endpoint: "Total",
+        calls: total.calls + usage.calls,
+        duration: total.duration + usage.duration,
+        cost: usage.cost === null ? total.cost : (total.cost ?? 0) + usage.cost
+      }),
+      { endpoint: "Total", calls: 0, duration: 0, cost: null }
+    )
+  }
+}
+
+const apiUsages = new WeakMap<object, ApiUsage>()
+
+/**
+ * Records each call made through the Octokit instance in the API usage, including each retry, see
+ * `findApiUsage`.
+ */
+export function trackApiUsage(octokit: Octokit, usage: ApiUsage = new ApiUsage()) {
+  apiUsages.set(octokit, usage)
+
+  octokit.hook.wrap("request", async (request: RequestInterface, options: EndpointOptions) => {
+    const endpoint = endpointOf(options)
+    const start = performance.now()
+    try {
+      const response: OctokitResponse<{ data?: { rateLimit?: { cost?: number } | null } }> =
+        await request(options)
+      usage.record(endpoint, performance.now() - start, response.data?.data?.rateLimit?.cost ?? null)
+      return response
+    } catch (error: unknown) {
+      usage.record(endpoint, performance.now() - start, null)
+      throw error
+    }
+  })
+}
+
+/**
+ * The GraphQL operation, such as `GraphQL PullRequests`, or otherwise the method and URL template of the
+ * REST endpoint.
+ */
+function endpointOf(options: EndpointOptions): string {
+  if (typeof options.query === "string") {
+    const operation = /^\s*(?:query|mutation)\s+(\w+)/.exec(options.query)?.[1]
+    return `GraphQL ${operation ?? "(anonymous)"}`
+  }
+  return `${options.method} ${options.url}`
+}
+
+/**
+ * The API usage of the Octokit instance, or null if not created with `trackApiUsage`.
+ */
+export function findApiUsage(octokit: object): ApiUsage | null {
+  return apiUsages.get(octokit) ?? null
+}
+
+/**
+ * Formats the API usage as a table with a row for each endpoint and the total, such as:
+ *
+ * ```
+ * Endpoint                            Calls  Duration  Cost
+ * GET /repos/{owner}/{repo}/releases      1     120ms     -
+ * GraphQL PullRequests                    2     450ms     2
+ * Total                                   3     570ms     2
+ * ```
+ */
+export function formatApiUsage(usage: ApiUsage): string {
+  const rows = [...usage.endpoints(), usage.total()].map((row) => [
+    row.endpoint,
+    String(row.calls),
+    `${Math.round(row.duration)}ms`,
+    row.cost === null ? "-" : String(row.cost)
+  ])
+  const header = ["Endpoint", "Calls", "Duration", "Cost"]
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  )
+  return [header, ...rows]
+    .map((row) =>
+      row
+        .map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])))
+        .join("  ")
+    )
+    .join("\n")
+}
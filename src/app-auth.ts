@@ -0,0 +1,78 @@
+import { createAppAuth } from "@octokit/auth-app"
+import type { EndpointOptions, RequestInterface, RequestParameters, Route } from "@octokit/types"
+
+/**
+ * The GitHub App to authenticate as, through its installation on the repository.
+ */
+export interface GitHubAppCredentials {
+  appId: string
+  /** The private key of the app in PEM format. */
+  privateKey: string
+  owner: string
+  repo: string
+}
+
+type AppAuth = ReturnType<typeof createAppAuth>
+
+const installationRoute = "GET /repos/{owner}/{repo}/installation"
+
+/**
+ * The Octokit auth strategy of a GitHub App installed on the repository, passed the credentials as `auth`.
+ *
+ * The installation is looked up on the first request using a JWT signed with the private key, then requests
+ * are authenticated with an installation access token. The token is cached until shortly before it expires,
+ * after which a new token is created, so runs longer than the hour a token lasts are not interrupted.
+ */
+export function createRepositoryInstallationAuth(
+  options: GitHubAppCredentials & { request: RequestInterface }
+) {
+  const appAuth = createAppAuth({
+    appId: options.appId,
+    privateKey: options.privateKey,
+    request: options.request
+  })
+  let installationAuth: Promise<AppAuth> | null = null
+  const findInstallationAuth = () => {
+    installationAuth ??= findInstallationId(options).then((installationId) =>
+      createAppAuth({
+        appId: options.appId,
+        privateKey: options.privateKey,
+        installationId: installationId,
+        request: options.request
+      })
+    )
+    return installationAuth
+  }
+
+  const auth = async () => (await findInstallationAuth())({ type: "installation" })
+  return Object.assign(auth, {
+    hook: async (
+      request: RequestInterface,
+      route: Route | EndpointOptions,
+      parameters?: RequestParameters
+    ) => {
+      const { method, url } =
+        typeof route === "string" ? request.endpoint.merge(route, parameters) : request.endpoint.merge(route)
+      if (`${method} ${url}` === installationRoute) {
+        // Authenticated as the app itself, with its JWT
+        return appAuth.hook(request, route, parameters)
+      }
+      return (await findInstallationAuth()).hook(request, route, parameters)
+    }
+  })
+}
+
+async function findInstallationId(
+  options: GitHubAppCredentials & { request: RequestInterface }
+): Promise<number> {
+  const { appId, owner, repo } = options
+  try {
+    const response = await options.request(installationRoute, { owner: owner, repo: repo })
+    return response.data.id
+  } catch (error: unknown) {
+    if ((error as { status?: number }).status === 404) {
+      throw new Error(`GitHub App ${appId} is not installed on ${owner}/${repo}`)
+    }
+    throw error
+  }
+}
@@ -0,0 +1,628 @@
+import type { Octokit } from "octokit"
+import { configurationError, usageError } from "@/cli/errors"
+import { formatExplanation } from "@/cli/explain"
+import { detectBranch, detectRepository } from "@/cli/git"
+import type { CommandLine, OptionSpecs } from "@/cli/options"
+import type { CliRuntime } from "@/cli/runtime"
+import type { Context } from "@/context"
+import {
+  type ActionOptions,
+  type ComponentResult,
+  type PromotedPrerelease,
+  type PromotedReleaseResult,
+  type PromotionDryRunResult,
+  performAction,
+  performComponentActions,
+  promotedPrereleases,
+  promoteRelease,
+  type ReleaseMode,
+  releaseModes,
+  type TraceEvent,
+  type UpsertResult
+} from "@/core"
+import type { FetchPullRequestsParams, PullRequest } from "@/data/pull-requests"
+import { createRecordingFetch } from "@/data/record-fetch"
+import type { Release } from "@/data/release"
+import { pullRequestSource, releaseRepository } from "@/data/repository"
+import { emptySnapshot, formatSnapshot, parseSnapshot, type Snapshot } from "@/data/snapshot"
+import { snapshotPullRequestSource, snapshotReleaseRepository } from "@/data/snapshot-repository"
+import { createOctokit } from "@/octokit-factory"
+import { formatPayloadDiff } from "@/util/payload-diff"
+import { type Component, parseComponents } from "@/versioning/component"
+import { defaultTypeImpacts } from "@/versioning/conventional-commits"
+import { parsePrereleaseChannels } from "@/versioning/prerelease-channel"
+import {
+  formatVersionIncrement,
+  parseImpactMapping,
+  validateNameTemplate,
+  validateTagTemplate
+} from "@/versioning/version"
+import { formatPullRequestImpact } from "@/versioning/version-bump-inference"
+import { parseVersionScheme } from "@/versioning/version-scheme"
+
+/**
+ * The output of a command in each of the supported formats.
+ */
+export interface CommandOutput {
+  /** Human-readable output, for `--format text`. */
+  text: string
+  /** Structured output, for `--format json`. */
+  json: unknown
+}
+
+export interface Command {
+  name: string
+  /** The positional arguments in the usage, such as `<version>`. */
+  arguments: string
+  /** The number of positional arguments, which are all required. */
+  positionals: number
+  /** A line summarising the command in the help of the program. */
+  summary: string
+  /** Describes the command in its help. */
+  description: string
+  options: OptionSpecs
+  run(commandLine: CommandLine, runtime: CliRuntime): Promise<CommandOutput>
+}
+
+const repositoryOptions: OptionSpecs = {
+  owner: {
+    type: "string",
+    value: "<owner>",
+    description: "The repository owner. Defaults to that of the git remote 'origin'."
+  },
+  repo: {
+    type: "string",
+    value: "<repo>",
+    description: "The repository name. Defaults to that of the git remote 'origin'."
+  }
+}
+
+const branchOption: OptionSpecs = {
+  branch: {
+    type: "string",
+    value: "<branch>",
+    description: "The branch, as `target-branch` of the action. Defaults to the current git branch."
+  }
+}
+
+/** Options for how releases are tagged and named, as for the action. */
+const templateOptions: OptionSpecs = {
+  "tag-template": {
+    type: "string",
+    value: "<template>",
+    description: "The template of release tags, such as release-{version}. Defaults to v{version}."
+  },
+  "name-template": {
+    type: "string",
+    value: "<template>",
+    description: "The template of release names, such as 'MyApp {version} ({date})'. Defaults to {tag}."
+  }
+}
+
+/** Options for deciding the next version, as for the action. */
+const versionOptions: OptionSpecs = {
+  "release-branches": {
+    type: "string",
+    value: "<branch>",
+    multiple: true,
+    description: "A release branch name or glob pattern. Defaults to the branch."
+  },
+  "default-tag": {
+    type: "string",
+    value: "<tag>",
+    description: "The tag to use if no prior release is found. Defaults to v0.0.0."
+  },
+  version: { type: "string", value: "<version>", description: "An explicit version to release." },
+  force: { type: "boolean", description: "Allow a --version not higher than the last release." },
+  sha: {
+    type: "string",
+    value: "<sha>",
+    description: "The commit being built, to use a version tag already on it. Not used by default."
+  },
+  ...templateOptions,
+  components: {
+    type: "string",
+    value: "<name>[: <path>, ...]",
+    multiple: true,
+    lines: true,
+    description: "A monorepo component to release separately, such as 'api: packages/api/**'."
+  },
+  "prerelease-branches": {
+    type: "string",
+    value: "<branch>: <identifier>",
+    multiple: true,
+    lines: true,
+    description: "A branch that is a prerelease channel, such as 'next: beta'."
+  },
+  "version-scheme": {
+    type: "string",
+    value: "<scheme>",
+    description: "Either semver or a calendar format, such as YYYY.MM.MICRO. Defaults to semver."
+  },
+  "type-impacts": {
+    type: "string",
+    value: "<type>: <increment>",
+    multiple: true,
+    lines: true,
+    description:
+      "The increment implied by a conventional commit type, such as 'perf: patch', over the defaults."
+  },
+  "label-impacts": {
+    type: "string",
+    value: "<label>: <increment>",
+    multiple: true,
+    lines: true,
+    description: "The increment implied by a PR label, such as 'breaking: major', replacing the defaults."
+  },
+  "initial-development": {
+    type: "boolean",
+    description: "Apply the SemVer initial development rules to 0.y.z versions."
+  },
+  strict: { type: "boolean", description: "Fail when a PR title is not a conventional commit." }
+}
+
+/** The options deciding the next version, which are recorded in snapshots to be replayed. */
+const recordedOptions = [...Object.keys(versionOptions), "mode"]
+
+/** Options for reproducing a run without network access. */
+const snapshotOptions: OptionSpecs = {
+  replay: {
+    type: "string",
+    value: "<file>",
+    description:
+      "Replay the releases and pull requests of a snapshot file instead of using the API, needing no " +
+      "network access or token. Implies --dry-run."
+  },
+  record: {
+    type: "string",
+    value: "<file>",
+    description: "Record the API responses used to a snapshot file, to --replay later."
+  }
+}
+
+const runCommand: Command = {
+  name: "run",
+  arguments: "",
+  positionals: 0,
+  summary: "Create or update the release of a branch, or infer the version of a feature branch",
+  description:
+    "Performs the action for a branch, creating or updating its release on a release branch, or inferring " +
+    "the version on a feature branch.",
+  options: {
+    ...repositoryOptions,
+    ...branchOption,
+    ...versionOptions,
+    ...snapshotOptions,
+    mode: {
+      type: "string",
+      value: "<continuous|managed>",
+      description: "How releases are maintained on release branches. Defaults to continuous."
+    },
+    "dry-run": { type: "boolean", description: "Report the release request instead of making it." }
+  },
+  run: async (commandLine, runtime) => {
+    const results = await performWithSnapshot(commandLine, runtime, (context, options, replaying) =>
+      performActions(context, defaultTag(options), parseComponentsOption(options), {
+        ...parseVersionOptions(options),
+        mode: options.choice<ReleaseMode>("mode", releaseModes, "continuous"),
+        dryRun: options.flag("dry-run") || replaying
+      })
+    )
+    return {
+      text: Array.isArray(results) ? formatComponentResults(results) : formatUpsertResult(results),
+      json: results
+    }
+  }
+}
+
+const explainCommand: Command = {
+  name: "explain",
+  arguments: "",
+  positionals: 0,
+  summary: "Explain how the next version of a branch is decided",
+  description:
+    "Explains the decisions leading to the next version of a branch: the last release and the releases " +
+    "skipped before it, the cutoff for merged pull requests, the impact of each pull request, and the " +
+    "resulting increment. Performed as a dry run, so no release is created or updated.",
+  options: { ...repositoryOptions, ...branchOption, ...versionOptions, ...snapshotOptions },
+  run: async (commandLine, runtime) => {
+    const events: TraceEvent[] = []
+    await performWithSnapshot(commandLine, runtime, (context, options) =>
+      performActions(context, defaultTag(options), parseComponentsOption(options), {
+        ...parseVersionOptions(options),
+        dryRun: true,
+        trace: (event) => events.push(event)
+      })
+    )
+    return { text: formatExplanation(events), json: events }
+  }
+}
+
+const promoteCommand: Command = {
+  name: "promote",
+  arguments: "<version>",
+  positionals: 1,
+  summary: "Promote a prerelease to the final release",
+  description:
+    "Promotes a published prerelease, such as 2.0.0-rc.3, to the final release at the same commit, " +
+    "with release notes regenerated since the last final release.",
+  options: {
+    ...repositoryOptions,
+    ...templateOptions,
+    component: {
+      type: "string",
+      value: "<name>",
+      description: "The monorepo component of the prerelease, whose tags are prefixed with its name."
+    },
+    "promoted-prerelease": {
+      type: "string",
+      value: "<keep|supersede|delete>",
+      description: "What becomes of the prerelease once promoted. Defaults to keep."
+    },
+    "dry-run": { type: "boolean", description: "Report the release request instead of making it." }
+  },
+  run: async (commandLine, runtime) => {
+    // The branch is that of the prerelease, so is not needed
+    const context = createContext(commandLine, runtime, "")
+    const result = await promoteRelease(context, commandLine.positionals[0], {
+      tagTemplate: parseOption(commandLine, "tag-template", validateTagTemplate),
+      nameTemplate: parseOption(commandLine, "name-template", validateNameTemplate),
+      component: parseOption(commandLine, "component", (name) => parseComponents([name])[0]),
+      promotedPrerelease: commandLine.choice<PromotedPrerelease>(
+        "promoted-prerelease",
+        promotedPrereleases,
+        "keep"
+      ),
+      dryRun: commandLine.flag("dry-run")
+    })
+    return { text: formatPromotedReleaseResult(result), json: result }
+  }
+}
+
+const releasesCommand: Command = {
+  name: "releases",
+  arguments: "",
+  positionals: 0,
+  summary: "Show the last draft and published release of a branch",
+  description: "Shows the last draft and last published release of a branch, as found by the action.",
+  options: { ...repositoryOptions, ...branchOption },
+  run: async (commandLine, runtime) => {
+    const branch = commandLine.string("branch") ?? detectBranch(runtime.git)
+    const releases = releaseRepository(createContext(commandLine, runtime, branch)).fetchReleases()
+    // Finding releases needs to run sequentially to avoid racing on the cached data
+    const lastDraft = await releases.findLastDraft(branch)
+    const lastRelease = await releases.findLast(branch)
+    return {
+      text: [`Last Draft: ${formatRelease(lastDraft)}`, `Last Release: ${formatRelease(lastRelease)}`].join(
+        "\n"
+      ),
+      json: { lastDraft: lastDraft, lastRelease: lastRelease }
+    }
+  }
+}
+
+const pullsCommand: Command = {
+  name: "pulls",
+  arguments: "<incoming|outgoing>",
+  positionals: 1,
+  summary: "List the incoming or outgoing pull requests of a branch",
+  description:
+    "Lists the pull requests merged into a branch (incoming), or open from a branch (outgoing), as found by " +
+    "the action.",
+  options: {
+    ...repositoryOptions,
+    ...branchOption,
+    "merged-since": {
+      type: "string",
+      value: "<date>",
+      description: "Only list incoming pull requests merged since this date, such as 2026-01-31."
+    }
+  },
+  run: async (commandLine, runtime) => {
+    const branch = commandLine.string("branch") ?? detectBranch(runtime.git)
+    const context = createContext(commandLine, runtime, branch)
+    const params: FetchPullRequestsParams =
+      parseDirection(commandLine.positionals[0]) === "incoming"
+        ? {
+            type: "incoming",
+            baseRefName: branch,
+            mergedSince: parseDate(commandLine.string("merged-since"))
+          }
+        : { type: "outgoing", headRefName: branch }
+    const pullRequests = await pullRequestSource(context).fetchPullRequests(params).collect()
+    return { text: pullRequests.map(formatPullRequest).join("\n"), json: pullRequests }
+  }
+}
+
+export const commands: readonly Command[] = [
+  runCommand,
+  explainCommand,
+  promoteCommand,
+  releasesCommand,
+  pullsCommand
+]
+
+/**
+ * The context for the repository of the options or git remote, where there is no workflow run, unless the
+ * CLI is run within a workflow.
+ *
+ * @param replayed The snapshot being replayed, whose repository is used unless specified
+ */
+function createContext(
+  commandLine: CommandLine,
+  runtime: CliRuntime,
+  branch: string,
+  octokit: Octokit | null = null,
+  replayed: Snapshot | null = null
+): Context {
+  const { owner, repo } = resolveRepository(commandLine, runtime, replayed)
+  return {
+    octokit: octokit ?? runtime.createOctokit(runtime.fetch),
+    owner: owner,
+    repo: repo,
+    branch: branch,
+    releaseBranches: [],
+    runNumber: runtime.env.GITHUB_RUN_NUMBER ?? null,
+    runAttempt: runtime.env.GITHUB_RUN_ATTEMPT ?? null,
+    sha: null,
+    warn: (message) => runtime.stderr(`Warning: ${message}`)
+  }
+}
+
+/**
+ * The context for performing the action, with the branch as the only release branch unless specified.
+ */
+function createActionContext(
+  commandLine: CommandLine,
+  runtime: CliRuntime,
+  octokit: Octokit | null,
+  replayed: Snapshot | null
+): Context {
+  const branch = commandLine.string("branch") ?? (replayed?.branch || detectBranch(runtime.git))
+  const releaseBranches = commandLine.list("release-branches")
+  return {
+    ...createContext(commandLine, runtime, branch, octokit, replayed),
+    releaseBranches: releaseBranches.length > 0 ? releaseBranches : [branch],
+    sha: commandLine.string("sha") ?? null
+  }
+}
+
+/**
+ * Performs the action with the context of the command line, replaying the releases, pull requests and tags
+ * of a snapshot with `--replay`, or recording the API responses with `--record`, which is written even if the
+ * action fails. The options of the action are recorded along with the responses, and replayed unless
+ * specified again.
+ */
+async function performWithSnapshot<T>(
+  commandLine: CommandLine,
+  runtime: CliRuntime,
+  perform: (context: Context, commandLine: CommandLine, replaying: boolean) => Promise<T>
+): Promise<T> {
+  const replay = commandLine.string("replay")
+  const record = commandLine.string("record")
+  if (replay !== undefined && record !== undefined) {
+    throw usageError("Only one of --replay and --record can be specified")
+  }
+
+  if (replay !== undefined) {
+    const snapshot = readSnapshot(runtime, replay)
+    const octokit = createOctokit({ fetch: replayFetch, throttle: false, usage: runtime.apiUsage })
+    const replayed = commandLine.withDefaults(snapshot.options)
+    const context: Context = {
+      ...createActionContext(replayed, runtime, octokit, snapshot),
+      releaseRepository: snapshotReleaseRepository(snapshot),
+      pullRequestSource: snapshotPullRequestSource(snapshot)
+    }
+    return perform(context, replayed, true)
+  } else if (record === undefined) {
+    return perform(createActionContext(commandLine, runtime, null, null), commandLine, false)
+  }
+
+  const snapshot = emptySnapshot("", "", "")
+  const octokit = runtime.createOctokit(createRecordingFetch(snapshot, runtime.fetch))
+  const context = createActionContext(commandLine, runtime, octokit, null)
+  try {
+    return await perform(context, commandLine, false)
+  } finally {
+    runtime.writeFile(
+      record,
+      formatSnapshot({
+        ...snapshot,
+        owner: context.owner,
+        repo: context.repo,
+        branch: context.branch,
+        options: commandLine.pick(recordedOptions)
+      })
+    )
+  }
+}
+
+/**
+ * The data of a replayed run comes from the snapshot, so the GitHub API is never requested.
+ */
+async function replayFetch(input: string | URL | Request): Promise<Response> {
+  const url = input instanceof Request ? input.url : `${input}`
+  throw new Error(`Unable to request ${url} when replaying a snapshot`)
+}
+
+function readSnapshot(runtime: CliRuntime, path: string): Snapshot {
+  let json: string
+  try {
+    json = runtime.readFile(path)
+  } catch (error: unknown) {
+    throw configurationError(`Unable to read --replay ${path}: ${describeError(error)}`)
+  }
+  try {
+    return parseSnapshot(json)
+  } catch (error: unknown) {
+    throw configurationError(`${describeError(error)}, in --replay ${path}`)
+  }
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function defaultTag(commandLine: CommandLine): string {
+  return commandLine.string("default-tag") ?? "v0.0.0"
+}
+
+function resolveRepository(
+  commandLine: CommandLine,
+  runtime: CliRuntime,
+  replayed: Snapshot | null
+): { owner: string; repo: string } {
+  const owner = commandLine.string("owner")
+  const repo = commandLine.string("repo")
+  if (owner && repo) {
+    return { owner: owner, repo: repo }
+  }
+  const detected = replayed?.owner && replayed.repo ? replayed : detectRepository(runtime.git)
+  return { owner: owner ?? detected.owner, repo: repo ?? detected.repo }
+}
+
+/**
+ * Performs the action, or with components, performs it for each component in turn, as the action does.
+ */
+function performActions(
+  context: Context,
+  defaultTag: string,
+  components: Component[],
+  options: ActionOptions
+): Promise<UpsertResult | ComponentResult[]> {
+  return components.length === 0
+    ? performAction(context, defaultTag, options)
+    : performComponentActions(context, defaultTag, components, options)
+}
+
+/**
+ * The options deciding the next version, parsed and validated as the inputs of the action are.
+ */
+function parseVersionOptions(commandLine: CommandLine): ActionOptions {
+  const typeImpacts = parseLinesOption(commandLine, "type-impacts", parseImpactMapping)
+  return {
+    initialDevelopment: commandLine.flag("initial-development"),
+    strict: commandLine.flag("strict"),
+    version: commandLine.string("version"),
+    force: commandLine.flag("force"),
+    tagTemplate: parseOption(commandLine, "tag-template", validateTagTemplate),
+    nameTemplate: parseOption(commandLine, "name-template", validateNameTemplate),
+    versionScheme: parseOption(commandLine, "version-scheme", parseVersionScheme),
+    prereleaseChannels: parseLinesOption(commandLine, "prerelease-branches", parsePrereleaseChannels),
+    // As for the action, type impacts are added to the defaults while label impacts replace them
+    typeImpacts: typeImpacts && { ...defaultTypeImpacts, ...typeImpacts },
+    labelImpacts: parseLinesOption(commandLine, "label-impacts", parseImpactMapping)
+  }
+}
+
+function parseComponentsOption(commandLine: CommandLine): Component[] {
+  return parseLinesOption(commandLine, "components", parseComponents) ?? []
+}
+
+/**
+ * Parses an option with the parser of the action input, reporting an invalid value as a usage error.
+ */
+function parseOption<T>(commandLine: CommandLine, name: string, parse: (value: string) => T): T | undefined {
+  const value = commandLine.string(name)
+  return value === undefined ? undefined : parseValid(() => parse(value))
+}
+
+/**
+ * Parses the lines of a repeatable option with the parser of the multiline action input, or undefined when
+ * not specified so that the default applies.
+ */
+function parseLinesOption<T>(
+  commandLine: CommandLine,
+  name: string,
+  parse: (lines: string[]) => T
+): T | undefined {
+  const lines = commandLine.lines(name)
+  return lines.length === 0 ? undefined : parseValid(() => parse(lines))
+}
+
+function parseValid<T>(parse: () => T): T {
+  try {
+    return parse()
+  } catch (error: unknown) {
+    throw usageError(describeError(error))
+  }
+}
+
+function parseDirection(direction: string): "incoming" | "outgoing" {
+  if (direction !== "incoming" && direction !== "outgoing") {
+    throw usageError(`Invalid direction: ${direction}. Expected one of: incoming, outgoing`)
+  }
+  return direction
+}
+
+function parseDate(date: string | undefined): Date | null {
+  if (date === undefined) {
+    return null
+  }
+  const parsed = new Date(date)
+  if (Number.isNaN(parsed.getTime())) {
+    throw usageError(`Invalid --merged-since: ${date}. Expected a date, such as 2026-01-31`)
+  }
+  return parsed
+}
+
+function formatUpsertResult(result: UpsertResult): string {
+  const lines = [
+    `Action: ${result.action}`,
+    `Last Release: ${formatRelease(result.lastRelease)}`,
+    `Last Version: ${result.lastVersion ?? "(none)"}`
+  ]
+  if (result.action === "none") {
+    lines.push("No outstanding pull requests found, so no release was created or updated")
+    return lines.join("\n")
+  }
+  lines.push(
+    "Pull Requests:",
+    ...result.pullRequestImpacts.map((pr) => `  ${formatPullRequestImpact(pr)}`),
+    `Version Increment: ${formatVersionIncrement(result.versionIncrement, result.inferredIncrement)}`,
+    `Version Source: ${result.versionSource}`,
+    `Next Version: ${result.version.core} (${result.version})`
+  )
+  if ("release" in result) {
+    lines.push(`Release: ${formatRelease(result.release)}`)
+  }
+  if ("request" in result) {
+    lines.push("Release Request:", formatPayloadDiff(result.currentRequest, result.request))
+  }
+  return lines.join("\n")
+}
+
+function formatComponentResults(results: ComponentResult[]): string {
+  return results
+    .map(({ component, result }) => `Component: ${component.name}\n${formatUpsertResult(result)}`)
+    .join("\n\n")
+}
+
+function formatPromotedReleaseResult(result: PromotedReleaseResult | PromotionDryRunResult): string {
+  const lines = [
+    `Action: ${result.action}`,
+    `Prerelease: ${formatRelease(result.prerelease)} (${result.promotedPrerelease})`,
+    `Last Release: ${formatRelease(result.lastRelease)}`,
+    `Next Version: ${result.version.core} (${result.version})`
+  ]
+  if ("release" in result) {
+    lines.push(`Release: ${formatRelease(result.release)}`)
+  } else {
+    lines.push(`Tag Commit: ${result.sha}`, "Release Request:", formatPayloadDiff(null, result.request))
+  }
+  return lines.join("\n")
+}
+
+function formatRelease(release: Release | null): string {
+  if (!release) {
+    return "(none)"
+  }
+  const name = release.name || release.tagName || `${release.id}`
+  return `${release.draft ? `${name} (draft)` : name} ${release.htmlUrl}`
+}
+
+function formatPullRequest(pr: PullRequest): string {
+  const merged = pr.mergedAt ? ` merged ${pr.mergedAt.toISOString()}` : ""
+  const labels = pr.labels.length > 0 ? ` [${pr.labels.join(", ")}]` : ""
+  return `#${pr.number} ${pr.title}${labels}${merged}`
+}
@@ -0,0 +1,53 @@
+import { RequestError } from "octokit"
+
+/**
+ * Exit codes of the CLI, distinguishing the kinds of failure for scripts calling it.
+ */
+export const ExitCode = {
+  Success: 0,
+  /** The command failed, such as when a release to promote is not found. */
+  Failure: 1,
+  /** The command line is invalid, such as an unknown option or a missing argument. */
+  Usage: 2,
+  /** The environment is not set up, such as no `GITHUB_TOKEN` or no git remote to detect the repository from. */
+  Configuration: 3,
+  /** A GitHub API request failed, such as for bad credentials or rate limiting. */
+  GitHubApi: 4
+} as const
+
+export type ExitCode = (typeof ExitCode)[keyof typeof ExitCode]
+
+/**
+ * An error that is reported without a stack trace, exiting with the given code.
+ */
+export class CliError extends Error {
+  readonly exitCode: ExitCode
+
+  constructor(message: string, exitCode: ExitCode) {
+    super(message)
+    this.name = "CliError"
+    this.exitCode = exitCode
+  }
+}
+
+export function usageError(message: string): CliError {
+  return new CliError(message, ExitCode.Usage)
+}
+
+export function configurationError(message: string): CliError {
+  return new CliError(message, ExitCode.Configuration)
+}
+
+/**
+ * The exit code for an error thrown by a command.
+ */
+export function exitCodeOf(error: unknown): ExitCode {
+  if (error instanceof CliError) {
+    return error.exitCode
+  }
+  // GraphQL errors are not exported by octokit, so are identified by name
+  if (error instanceof RequestError || (error instanceof Error && error.name === "GraphqlResponseError")) {
+    return ExitCode.GitHubApi
+  }
+  return ExitCode.Failure
+}
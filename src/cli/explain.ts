@@ -0,0 +1,99 @@
+import type { TraceEvent } from "@/core"
+import type { Release } from "@/data/release"
+import type { ReleaseSkipReason } from "@/data/releases"
+import { formatVersionIncrement } from "@/versioning/version"
+import { formatPullRequestImpact } from "@/versioning/version-bump-inference"
+
+/**
+ * Formats the trace of `performAction` as the chain of decisions leading to the next version.
+ */
+export function formatExplanation(events: TraceEvent[]): string {
+  return events.flatMap(formatEvent).join("\n")
+}
+
+function formatEvent(event: TraceEvent): string[] {
+  switch (event.type) {
+    case "branch":
+      // Each component is explained in turn, starting from its branch
+      return [...(event.component ? [`Component: ${event.component}`] : []), `Branch: ${formatBranch(event)}`]
+    case "feature-pull-request":
+      return [
+        event.pullRequest
+          ? `Feature Pull Request: #${event.pullRequest.number} ${event.pullRequest.title}, into ${event.pullRequest.baseRefName}`
+          : "Feature Pull Request: (none), so the target branch and version are unknown"
+      ]
+    case "release-skipped":
+      return [
+        `Skipped Release: ${formatReleaseName(event.release)}, ${formatSkipReason(event.reason, event.release)}`
+      ]
+    case "last-release":
+      return [`Last Release: ${formatLastRelease(event)}`]
+    case "merged-since":
+      return [
+        event.mergedSince
+          ? `Merged Since: ${event.mergedSince.toISOString()}, when the last release was published`
+          : `Merged Since: (all time), as there is no last release of ${event.baseRefName}`
+      ]
+    case "pull-requests":
+      return [
+        `Pull Requests: ${event.impacts.length}`,
+        ...event.impacts.map((pr) => `  ${formatPullRequestImpact(pr)}`),
+        ...event.excluded.map((number) => `  Excluded #${number}, as not of the component`)
+      ]
+    case "version":
+      return [
+        `Version Increment: ${formatVersionIncrement(event.increment, event.inferredIncrement)}`,
+        `Next Version: ${event.version.core} (${event.version}), ${formatVersionSource(event)}`
+      ]
+  }
+}
+
+function formatBranch(event: Extract<TraceEvent, { type: "branch" }>): string {
+  if (event.channel) {
+    return `${event.branch} is the prerelease channel \`${event.channel.identifier}\` of \`${event.channel.branch}\``
+  } else if (event.releaseBranch) {
+    return `${event.branch} is a release branch, matching \`${event.pattern}\``
+  } else if (event.pattern) {
+    return `${event.branch} is a feature branch, excluded by \`${event.pattern}\``
+  }
+  return `${event.branch} is a feature branch, matching no release branch`
+}
+
+function formatLastRelease(event: Extract<TraceEvent, { type: "last-release" }>): string {
+  const tags = event.tagPrefix ? ` tagged \`${event.tagPrefix}*\`` : ""
+  if (!event.release) {
+    return `(none), no published release of ${event.targetCommitish}${tags} found, so the default tag is used`
+  }
+  const published = event.release.publishedAt ? `, published ${event.release.publishedAt.toISOString()}` : ""
+  return `${formatReleaseName(event.release)}${published}, the latest published release of ${event.targetCommitish}${tags}`
+}
+
+function formatSkipReason(reason: ReleaseSkipReason, release: Release): string {
+  switch (reason) {
+    case "draft":
+      return "a draft"
+    case "prerelease":
+      return "a prerelease"
+    case "target-commitish":
+      return `released from ${release.targetCommitish}`
+    case "tag-prefix":
+      return "tagged for another component or tag template"
+  }
+}
+
+function formatVersionSource(event: Extract<TraceEvent, { type: "version" }>): string {
+  const increment = event.lastVersion ? `a ${event.increment} increment from ${event.lastVersion.core}` : null
+  switch (event.source) {
+    case "inferred":
+      return increment ?? "the default tag, as there is no last release"
+    case "input":
+      return increment ? `specified by --version, ${increment}` : "specified by --version"
+    case "tag":
+      return increment ? `a version tag on the commit, ${increment}` : "a version tag on the commit"
+  }
+}
+
+function formatReleaseName(release: Release): string {
+  const name = release.tagName || release.name || `${release.id}`
+  return release.draft ? `${name} (draft)` : name
+}
@@ -0,0 +1,57 @@
+import { configurationError } from "@/cli/errors"
+
+/**
+ * Runs a git command in the current directory, returning its trimmed output.
+ */
+export type Git = (args: string[]) => string
+
+/**
+ * Parses the owner and repo from a GitHub remote URL, such as `git@github.com:owner/repo.git` or
+ * `https://github.com/owner/repo`.
+ *
+ * @returns The owner and repo, or null if the URL is not in a recognised format
+ */
+export function parseRemoteUrl(url: string): { owner: string; repo: string } | null {
+  const match =
+    /^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?[^:/]+(?::\d+)?[:/](?!\/)(?:.+\/)?([^/]+)\/([^/]+?)(?:\.git)?\/?$/.exec(
+      url.trim()
+    )
+  return match ? { owner: match[1], repo: match[2] } : null
+}
+
+/**
+ * Detects the owner and repo from the `origin` remote of the local git repository.
+ *
+ * @throws {CliError} If there is no such remote, or its URL is not recognised
+ */
+export function detectRepository(git: Git): { owner: string; repo: string } {
+  const url = readGit(git, ["remote", "get-url", "origin"])
+  const repository = url === null ? null : parseRemoteUrl(url)
+  if (repository === null) {
+    throw configurationError(
+      "Unable to detect the repository from the git remote 'origin'. Specify --owner and --repo"
+    )
+  }
+  return repository
+}
+
+/**
+ * Detects the current branch of the local git repository.
+ *
+ * @throws {CliError} If not on a branch, such as with a detached HEAD
+ */
+export function detectBranch(git: Git): string {
+  const branch = readGit(git, ["rev-parse", "--abbrev-ref", "HEAD"])
+  if (branch === null || branch === "HEAD") {
+    throw configurationError("Unable to detect the current git branch. Specify --branch")
+  }
+  return branch
+}
+
+function readGit(git: Git, args: string[]): string | null {
+  try {
+    return git(args)
+  } catch {
+    return null
+  }
+}
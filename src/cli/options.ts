@@ -0,0 +1,140 @@
+import { parseArgs } from "node:util"
+import { usageError } from "@/cli/errors"
+
+/**
+ * A command line option, specified by its long name, such as `--branch main`, or its single letter alias.
+ */
+export interface OptionSpec {
+  type: "string" | "boolean"
+  /** A single letter alias, such as `h` for `-h`. */
+  short?: string
+  /** The placeholder of the value in the help, such as `<branch>`, for string options. */
+  value?: string
+  /** Whether the option may be repeated, where comma-separated values are also accepted unless `lines`. */
+  multiple?: boolean
+  /** Whether each value of a repeated option is a line of a multiline action input, which may contain commas. */
+  lines?: boolean
+  description: string
+}
+
+export type OptionSpecs = Record<string, OptionSpec>
+
+export type OptionValues = Record<string, string | boolean | (string | boolean)[] | undefined>
+
+/**
+ * The options and positional arguments of a command line, with accessors that validate the values.
+ */
+export class CommandLine {
+  private readonly values: OptionValues
+  readonly positionals: string[]
+
+  constructor(values: OptionValues, positionals: string[]) {
+    this.values = values
+    this.positionals = positionals
+  }
+
+  /**
+   * The values of the named options that were specified, such as to record them.
+   */
+  pick(names: string[]): Record<string, string | boolean | (string | boolean)[]> {
+    return Object.fromEntries(
+      names.flatMap((name) => {
+        const value = this.values[name]
+        return value === undefined ? [] : [[name, value]]
+      })
+    )
+  }
+
+  /**
+   * A command line with the values of the options that were not specified taken from the defaults.
+   */
+  withDefaults(defaults: OptionValues): CommandLine {
+    const specified = Object.fromEntries(
+      Object.entries(this.values).filter(([, value]) => value !== undefined)
+    )
+    return new CommandLine({ ...defaults, ...specified }, this.positionals)
+  }
+
+  string(name: string): string | undefined {
+    const value = this.values[name]
+    return typeof value === "string" ? value : undefined
+  }
+
+  flag(name: string): boolean {
+    return this.values[name] === true
+  }
+
+  /**
+   * The values of a repeatable option, where each may also be a comma-separated list.
+   */
+  list(name: string): string[] {
+    const value = this.values[name]
+    const values = Array.isArray(value) ? value : value === undefined ? [] : [value]
+    return values
+      .flatMap((item) => `${item}`.split(","))
+      .map((item) => item.trim())
+      .filter((item) => item !== "")
+  }
+
+  /**
+   * The values of a repeatable option, each as given, such as lines of a multiline action input.
+   */
+  lines(name: string): string[] {
+    const value = this.values[name]
+    const values = Array.isArray(value) ? value : value === undefined ? [] : [value]
+    return values.map((item) => `${item}`)
+  }
+
+  /**
+   * The value of an option restricted to the allowed values, or the default when not specified.
+   *
+   * @throws {CliError} If the value is not allowed
+   */
+  choice<T extends string>(name: string, allowed: readonly T[], defaultValue: T): T {
+    const value = this.string(name) ?? defaultValue
+    if (!allowed.includes(value as T)) {
+      throw usageError(`Invalid --${name}: ${value}. Expected one of: ${allowed.join(", ")}`)
+    }
+    return value as T
+  }
+}
+
+/**
+ * Parses the arguments of a command, rejecting unknown options and options missing a value.
+ *
+ * @throws {CliError} If the arguments are not valid for the options
+ */
+export function parseCommandLine(args: string[], options: OptionSpecs): CommandLine {
+  try {
+    const { values, positionals } = parseArgs({
+      args: args,
+      options: Object.fromEntries(
+        Object.entries(options).map(([name, spec]) => [
+          name,
+          // Node rejects an undefined short alias rather than ignoring it
+          { type: spec.type, multiple: spec.multiple ?? false, ...(spec.short ? { short: spec.short } : {}) }
+        ])
+      ),
+      allowPositionals: true,
+      strict: true
+    })
+    return new CommandLine(values, positionals)
+  } catch (error: unknown) {
+    // Node reports parsing errors with codes such as ERR_PARSE_ARGS_UNKNOWN_OPTION
+    throw usageError(error instanceof Error ? error.message : `${error}`)
+  }
+}
+
+/**
+ * Formats the options for help, aligning their descriptions.
+ */
+export function formatOptions(options: OptionSpecs): string {
+  const entries = Object.entries(options).map(([name, spec]) => ({
+    flag: `${spec.short ? `-${spec.short}, ` : ""}--${name}${spec.value ? ` ${spec.value}` : ""}`,
+    description: spec.multiple
+      ? `${spec.description} May be repeated${spec.lines ? "" : " or comma-separated"}.`
+      : spec.description
+  }))
+  const width = Math.max(...entries.map((entry) => entry.flag.length))
+  return entries.map((entry) => `  ${entry.flag.padEnd(width)}  ${entry.description}`).join("\n")
+}
@@ -0,0 +1,126 @@
+import { formatApiUsage } from "@/api-usage"
+import { type Command, commands } from "@/cli/commands"
+import { ExitCode, exitCodeOf, usageError } from "@/cli/errors"
+import { formatOptions, type OptionSpecs, parseCommandLine } from "@/cli/options"
+import type { CliRuntime } from "@/cli/runtime"
+import { Version } from "@/versioning/version"
+
+const PROGRAM = "release-party"
+
+type Format = "json" | "text"
+
+const formats: readonly Format[] = ["json", "text"]
+
+/** Options of every command. */
+const commonOptions: OptionSpecs = {
+  format: { type: "string", value: "<json|text>", description: "The output format. Defaults to text." },
+  "api-usage": {
+    type: "boolean",
+    description: "Show the GitHub API calls made by endpoint on stderr, such as to check pagination."
+  },
+  help: { type: "boolean", short: "h", description: "Show the help for the command." }
+}
+
+/**
+ * Runs the CLI with the arguments following the program name, writing output and errors to the runtime.
+ *
+ * @returns The exit code, distinguishing usage, configuration and GitHub API errors, see `ExitCode`
+ */
+export async function runCli(args: string[], runtime: CliRuntime): Promise<ExitCode> {
+  try {
+    return await dispatch(args, runtime)
+  } catch (error: unknown) {
+    const exitCode = exitCodeOf(error)
+    runtime.stderr(`Error: ${error instanceof Error ? error.message : JSON.stringify(error)}`)
+    if (exitCode === ExitCode.Usage) {
+      runtime.stderr(`Run '${PROGRAM} --help' for usage.`)
+    }
+    return exitCode
+  }
+}
+
+async function dispatch(args: string[], runtime: CliRuntime): Promise<ExitCode> {
+  const [name, ...rest] = args
+  if (name === undefined) {
+    runtime.stderr(formatProgramHelp())
+    return ExitCode.Usage
+  }
+  if (name === "help" || name === "--help" || name === "-h") {
+    runtime.stdout(rest[0] ? formatCommandHelp(findCommand(rest[0])) : formatProgramHelp())
+    return ExitCode.Success
+  }
+
+  const command = findCommand(name)
+  const commandLine = parseCommandLine(rest, { ...command.options, ...commonOptions })
+  if (commandLine.flag("help")) {
+    runtime.stdout(formatCommandHelp(command))
+    return ExitCode.Success
+  }
+  const format = commandLine.choice("format", formats, "text")
+  if (commandLine.positionals.length !== command.positionals) {
+    throw usageError(
+      command.positionals === 0
+        ? `Unexpected argument: ${commandLine.positionals[0]}`
+        : `Expected arguments: ${command.arguments}`
+    )
+  }
+
+  try {
+    const output = await command.run(commandLine, runtime)
+    runtime.stdout(format === "json" ? formatJson(output.json) : output.text)
+    return ExitCode.Success
+  } finally {
+    if (commandLine.flag("api-usage")) {
+      runtime.stderr(`API Usage:\n${formatApiUsage(runtime.apiUsage)}`)
+    }
+  }
+}
+
+function findCommand(name: string): Command {
+  const command = commands.find((command) => command.name === name)
+  if (!command) {
+    throw usageError(`Unknown command: ${name}`)
+  }
+  return command
+}
+
+/**
+ * Formats the value as JSON, with versions as strings such as `1.2.3+42.1`.
+ */
+function formatJson(value: unknown): string {
+  return JSON.stringify(value, (_, item) => (item instanceof Version ? item.toString() : item), 2)
+}
+
+function formatProgramHelp(): string {
+  const width = Math.max(...commands.map((command) => command.name.length))
+  return [
+    `Usage: ${PROGRAM} <command> [options]`,
+    "",
+    "Commands:",
+    ...commands.map((command) => `  ${command.name.padEnd(width)}  ${command.summary}`),
+    "",
+    `Run '${PROGRAM} <command> --help' for the options of a command.`,
+    "Commands using the GitHub API require GITHUB_TOKEN to be set.",
+    "",
+    "Exit codes:",
+    `  ${ExitCode.Success}  Success`,
+    `  ${ExitCode.Failure}  The command failed`,
+    `  ${ExitCode.Usage}  Invalid command line`,
+    `  ${ExitCode.Configuration}  Missing configuration, such as GITHUB_TOKEN or the git remote`,
+    `  ${ExitCode.GitHubApi}  A GitHub API request failed`
+  ].join("\n")
+}
+
+function formatCommandHelp(command: Command): string {
+  const usage = [PROGRAM, command.name, "[options]", command.arguments]
+    .filter((part) => part !== "")
+    .join(" ")
+  return [
+    `Usage: ${usage}`,
+    "",
+    command.description,
+    "",
+    "Options:",
+    formatOptions({ ...command.options, ...commonOptions })
+  ].join("\n")
+}
@@ -0,0 +1,77 @@
+import { execFileSync } from "node:child_process"
+import { readFileSync, writeFileSync } from "node:fs"
+import type { Octokit } from "octokit"
+import { ApiUsage } from "@/api-usage"
+import { configurationError } from "@/cli/errors"
+import type { Git } from "@/cli/git"
+import { createOctokit } from "@/octokit-factory"
+import { createProxyFetch, findProxy } from "@/proxy-fetch"
+
+/**
+ * Everything the CLI needs from its environment, so that commands can be run in tests without a
+ * process, network or git repository.
+ */
+export interface CliRuntime {
+  /**
+   * Creates the octokit, only called by commands that use the API, so that help needs no token.
+   *
+   * @param fetch The fetch used for requests, such as `fetch` wrapped to record the responses
+   * @throws {CliError} If the token is not set
+   */
+  createOctokit(fetch: typeof globalThis.fetch): Octokit
+  /** The fetch for API requests. */
+  fetch: typeof globalThis.fetch
+  /** The GitHub API calls made by the octokits of the command, for `--api-usage`. */
+  apiUsage: ApiUsage
+  git: Git
+  env: Record<string, string | undefined>
+  /** Reads a text file, such as a snapshot to replay. */
+  readFile(path: string): string
+  writeFile(path: string, text: string): void
+  stdout(text: string): void
+  stderr(text: string): void
+}
+
+/**
+ * The runtime of the CLI process, with the token from `GITHUB_TOKEN` and the API URLs from `GITHUB_API_URL`
+ * and `GITHUB_GRAPHQL_URL`, such as for GitHub Enterprise Server, through any proxy of `HTTPS_PROXY`.
+ */
+export function processRuntime(): CliRuntime {
+  const apiUsage = new ApiUsage()
+  return {
+    createOctokit: (fetch) => {
+      const token = process.env.GITHUB_TOKEN
+      if (!token) {
+        throw configurationError("GITHUB_TOKEN is not set but required for GitHub API requests")
+      }
+      return createOctokit({
+        auth: token,
+        baseUrl: process.env.GITHUB_API_URL || undefined,
+        graphqlUrl: process.env.GITHUB_GRAPHQL_URL || undefined,
+        fetch: fetch,
+        usage: apiUsage
+      })
+    },
+    fetch: withProxy(globalThis.fetch),
+    apiUsage: apiUsage,
+    git: (args) =>
+      execFileSync("git", args, {
+        encoding: "utf8",
+        stdio: ["ignore", "pipe", "ignore"],
+        timeout: 10_000
+      }).trim(),
+    env: process.env,
+    readFile: (path) => readFileSync(path, "utf8"),
+    writeFile: (path, text) => writeFileSync(path, text),
+    stdout: (text) => console.log(text),
+    stderr: (text) => console.error(text)
+  }
+}
+
+/**
+ * The fetch through the proxy of `HTTPS_PROXY`, if any.
+ */
+function withProxy(fetch: typeof globalThis.fetch): typeof globalThis.fetch {
+  const proxy = findProxy(undefined)
+  return proxy ? createProxyFetch(proxy) : fetch
+}
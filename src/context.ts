@@ -1,5 +1,8 @@
 import type { Octokit } from "octokit"
-import { createOctokit } from "@/octokit-factory"
+import { warning } from "@/actions-core/core"
+import type { PullRequestSource, ReleaseRepository } from "@/data/repository"
+import { createOctokit, type OctokitConfig } from "@/octokit-factory"
+import { isNegated } from "@/util/branch-patterns"
 
 export interface Context {
   octokit: Octokit
@@ -7,33 +10,97 @@ export interface Context {
   repo: string
   branch: string
   releaseBranches: string[]
-  runNumber: string
-  runAttempt: string
+  /** The workflow run number, or null if not run by a workflow, where versions then have no build metadata. */
+  runNumber: string | null
+  /** The workflow run attempt, or null if not run by a workflow. */
+  runAttempt: string | null
+  /** The commit being built, or null if not known, such as when run locally. */
+  sha: string | null
+  /** The tag being built, such as `v1.2.3` for a tag push, where the branch is that of the release branch. */
+  tag?: string
+  /** The releases and tags, such as from another backend. Defaults to the GitHub API through `octokit`. */
+  releaseRepository?: ReleaseRepository
+  /** The pull requests, such as from another backend. Defaults to the GitHub API through `octokit`. */
+  pullRequestSource?: PullRequestSource
+  /**
+   * Reports a feature degraded as not supported by the server, such as by GitHub Enterprise Server.
+   * Defaults to a workflow warning annotation.
+   */
+  warn?: (message: string) => void
+}
+
+/**
+ * Reports a degraded feature through the context, see `Context.warn`.
+ */
+export function warn(context: Context, message: string) {
+  const report = context.warn ?? warning
+  report(message)
+}
+
+/**
+ * How to connect to the GitHub API, overriding the environment, where empty values are not specified.
+ */
+export interface ConnectionOptions {
+  /** The REST API URL, overriding GITHUB_API_URL. */
+  apiUrl?: string
+  /**
+   * The GraphQL API URL, overriding GITHUB_GRAPHQL_URL. Defaults to that of `apiUrl` when it is specified, or
+   * otherwise GITHUB_GRAPHQL_URL.
+   */
+  graphqlUrl?: string
+  /**
+   * The ID of a GitHub App to authenticate as, through its installation on the repository, instead of with
+   * GITHUB_TOKEN.
+   */
+  appId?: string
+  /** The private key of the GitHub App, required with `appId`. */
+  privateKey?: string
+  /** The URL of an HTTP proxy, overriding HTTPS_PROXY, with the hosts of NO_PROXY excluded. */
+  proxyUrl?: string
 }
 
 /**
  * Creates a Context object from environment variables.
  *
  * Extracts GitHub context from standard GitHub Actions environment variables:
- * - GITHUB_TOKEN: Authentication token
+ * - GITHUB_TOKEN: Authentication token, unless authenticating as a GitHub App
  * - GITHUB_REPOSITORY: Repository in "owner/repo" format
  * - GITHUB_REF: Git reference (e.g., "refs/heads/main")
- * - GITHUB_REF_NAME: Fallback for branch/tag name
+ * - GITHUB_REF_NAME: Fallback for branch name of other refs
+ * - GITHUB_SHA: The commit being built
  * - GITHUB_RUN_NUMBER: Unique number for each workflow run
  * - GITHUB_RUN_ATTEMPT: Unique number for each attempt of a workflow run
+ * - GITHUB_API_URL: The REST API URL, such as that of GitHub Enterprise Server
+ * - GITHUB_GRAPHQL_URL: The GraphQL API URL
+ * - HTTPS_PROXY, NO_PROXY: The proxy to make requests through, and the hosts excluded from it
  *
  * @param targetBranch - Optional target branch name to override GITHUB_REF / GITHUB_REF_NAME.
  * @param releaseBranches - Optional list of release branch names. If empty, the current branch is used.
+ * When building a tag, the first release branch that is not a pattern is used as the branch, unless
+ * `targetBranch` is specified.
+ * @param connection - Optional authentication, API URLs and proxy overriding those of the environment.
  * @throws {Error} If required environment variables are missing or invalid
  */
-export function createContext(targetBranch: string = "", releaseBranches: string[] = []): Context {
-  const token = getGitHubToken()
-  const octokit = createOctokit({ auth: token })
+export function createContext(
+  targetBranch: string = "",
+  releaseBranches: string[] = [],
+  connection: ConnectionOptions = {}
+): Context {
   const { owner, repo } = getRepositoryInfo()
-  const branch = getBranch(targetBranch)
+  const { apiUrl, graphqlUrl } = connection
+  const octokit = createOctokit({
+    ...getAuth(connection.appId, connection.privateKey, owner, repo),
+    baseUrl: apiUrl || process.env.GITHUB_API_URL || undefined,
+    // An explicit API URL takes precedence over the GraphQL URL of the environment, which may be of github.com
+    graphqlUrl: graphqlUrl || (apiUrl ? undefined : process.env.GITHUB_GRAPHQL_URL) || undefined,
+    proxyUrl: connection.proxyUrl || undefined
+  })
+  const branch = getBranch(targetBranch, releaseBranches)
   const effectiveReleaseBranches = releaseBranches.length > 0 ? releaseBranches : [branch]
   const runNumber = getRunNumber()
   const runAttempt = getRunAttempt()
+  const sha = getSha()
+  const tag = getTag()
 
   return {
     octokit: octokit,
@@ -42,10 +109,27 @@ export function createContext(targetBranch: string = "", releaseBranches: string
     branch: branch,
     releaseBranches: effectiveReleaseBranches,
     runNumber: runNumber,
-    runAttempt: runAttempt
+    runAttempt: runAttempt,
+    sha: sha,
+    tag: tag
   }
 }
 
+function getAuth(
+  appId: string | undefined,
+  privateKey: string | undefined,
+  owner: string,
+  repo: string
+): Pick<OctokitConfig, "auth" | "app"> {
+  if (!appId && !privateKey) {
+    return { auth: getGitHubToken() }
+  }
+  if (!appId || !privateKey) {
+    throw new Error("Both app-id and private-key are required to authenticate as a GitHub App")
+  }
+  return { app: { appId: appId, privateKey: privateKey, owner: owner, repo: repo } }
+}
+
 function getGitHubToken(): string {
   const token = process.env.GITHUB_TOKEN
   if (!token) {
@@ -66,7 +150,7 @@ function getRepositoryInfo(): { owner: string; repo: string } {
   return { owner: owner, repo: repo }
 }
 
-function getBranch(targetBranch: string): string {
+function getBranch(targetBranch: string, releaseBranches: string[]): string {
   // Use target branch if provided
   if (targetBranch) {
     return targetBranch
@@ -83,7 +167,18 @@ function getBranch(targetBranch: string): string {
     return ref.replace("refs/heads/", "")
   }
 
-  // For tags or other refs, fall back to GITHUB_REF_NAME if available
+  // Tags are not on a branch, so assume the tag is of a release branch
+  if (ref.startsWith("refs/tags/")) {
+    const releaseBranch = releaseBranches.find((branch) => !isPattern(branch))
+    if (releaseBranch) {
+      return releaseBranch
+    }
+    throw new Error(
+      `Unable to determine branch for tag GITHUB_REF: ${ref}. Specify target-branch or a release branch name`
+    )
+  }
+
+  // For other refs, fall back to GITHUB_REF_NAME if available
   const refName = process.env.GITHUB_REF_NAME
   if (refName) {
     return refName
@@ -92,6 +187,15 @@ function getBranch(targetBranch: string): string {
   throw new Error(`Unable to determine branch from GITHUB_REF: ${ref}`)
 }
 
+function getTag(): string | undefined {
+  const ref = process.env.GITHUB_REF
+  return ref?.startsWith("refs/tags/") ? ref.replace("refs/tags/", "") : undefined
+}
+
+function isPattern(branch: string): boolean {
+  return isNegated(branch) || /[*?]/.test(branch)
+}
+
 function getRunNumber(): string {
   const runNumber = process.env.GITHUB_RUN_NUMBER
   if (!runNumber) {
@@ -107,3 +211,11 @@ function getRunAttempt(): string {
   }
   return runAttempt
 }
+
+function getSha(): string {
+  const sha = process.env.GITHUB_SHA
+  if (!sha) {
+    throw new Error("GITHUB_SHA environment variable is not set")
+  }
+  return sha
+}
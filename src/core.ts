@@ -1,15 +1,156 @@
 import type { Context } from "@/context"
-import { fetchPullRequests } from "@/data/pull-requests"
-import { createDraftRelease, type Release, updateRelease } from "@/data/release"
-import { generateReleaseNotes } from "@/data/release_notes"
-import { fetchReleases } from "@/data/releases"
+import type { PullRequest } from "@/data/pull-requests"
 import {
+  type CreateReleaseRequest,
+  createReleaseRequest,
+  type Release,
+  type UpdateReleaseRequest,
+  updateReleaseRequest
+} from "@/data/release"
+import type { ReleaseSkipReason, Releases } from "@/data/releases"
+import {
+  pullRequestSource,
+  releaseRepository,
+  sharedPullRequestSource,
+  sharedReleaseRepository
+} from "@/data/repository"
+import { findMatchingPattern, matchesPatterns } from "@/util/branch-patterns"
+import { type Component, isComponentPullRequest } from "@/versioning/component"
+import { maxImpact } from "@/versioning/conventional-commits"
+import {
+  findPrereleaseChannel,
+  nextPrereleaseNumber,
+  type PrereleaseChannel
+} from "@/versioning/prerelease-channel"
+import {
+  DEFAULT_NAME_TEMPLATE,
+  DEFAULT_TAG_TEMPLATE,
+  formatReleaseName,
+  parseTagVersion,
   parseVersion,
+  releaseNamePrefix,
   sanitiseBranchPrerelease,
+  tagPrefix,
   type Version,
   type VersionIncrement
 } from "@/versioning/version"
-import { inferImpactFromPRs } from "@/versioning/version-bump-inference"
+import {
+  describeNonConventionalTitle,
+  findNonConventionalTitles,
+  type InferenceOptions,
+  inferPullRequestImpacts,
+  type PullRequestImpact
+} from "@/versioning/version-bump-inference"
+import { semverScheme, type VersionScheme } from "@/versioning/version-scheme"
+
+/**
+ * How releases are maintained on release branches:
+ * - `continuous`: Continuous Delivery, maintaining a draft release for humans to publish.
+ * - `managed`: Managed Release, publishing the release on each run, promoting any existing draft.
+ */
+export type ReleaseMode = "continuous" | "managed"
+
+export const releaseModes: readonly ReleaseMode[] = ["continuous", "managed"]
+
+/**
+ * Where the next version came from:
+ * - `inferred`: Inferred from the pull requests since the last release.
+ * - `input`: Specified explicitly by the `version` option.
+ * - `tag`: A version tag already on the commit being built.
+ */
+export type VersionSource = "inferred" | "input" | "tag"
+
+/**
+ * What becomes of the prerelease once promoted to a final release:
+ * - `keep`: Left unchanged.
+ * - `supersede`: Kept, with a note at the top of its release notes linking to the final release.
+ * - `delete`: Deleted, leaving its tag in place.
+ */
+export type PromotedPrerelease = "keep" | "supersede" | "delete"
+
+export const promotedPrereleases: readonly PromotedPrerelease[] = ["keep", "supersede", "delete"]
+
+/**
+ * Options controlling the behaviour of `performAction`, with defaults applied where not specified.
+ */
+export interface ActionOptions extends InferenceOptions {
+  /** Defaults to `continuous`. */
+  mode?: ReleaseMode
+  /** Whether to apply SemVer initial development rules to `0.y.z` versions. Defaults to false. */
+  initialDevelopment?: boolean
+  /** Whether to fail, before any release is changed, when PR titles are not conventional commits. */
+  strict?: boolean
+  /** An explicit version to use instead of inferring it from pull requests, such as `2.0.0`. */
+  version?: string
+  /** Whether to allow an explicit `version` that is not higher than the last release. Defaults to false. */
+  force?: boolean
+  /**
+   * The monorepo component to release, where releases are tagged with the component name as a prefix,
+   * such as `api-v1.2.3`, and only the PRs applying to the component are considered.
+   */
+  component?: Component
+  /**
+   * The template of release tags, where `{version}` is replaced by the version, such as `release-{version}`.
+   * Defaults to `v{version}`, and when specified, only releases with tags matching it are considered.
+   */
+  tagTemplate?: string
+  /**
+   * The template of release names, where `{version}`, `{date}` and `{tag}` are replaced, such as
+   * `MyApp {version} ({date})`. Defaults to `{tag}`, and when specified, only drafts matching it are considered.
+   */
+  nameTemplate?: string
+  /** How versions are parsed and the next version derived, such as calendar versioning. Defaults to SemVer. */
+  versionScheme?: VersionScheme
+  /**
+   * Branches whose releases are prereleases, such as `2.0.0-beta.1`, with a counter per channel derived from
+   * the existing prereleases. These branches are treated as release branches.
+   */
+  prereleaseChannels?: PrereleaseChannel[]
+  /** What becomes of the prerelease once promoted by `promoteRelease`. Defaults to `keep`. */
+  promotedPrerelease?: PromotedPrerelease
+  /**
+   * Whether to report the release request that would be made instead of creating or updating any release.
+   * Version inference and release notes generation are still performed.
+   */
+  dryRun?: boolean
+  /** Called with each step in deciding the next version, to explain the decision. */
+  trace?: (event: TraceEvent) => void
+}
+
+/**
+ * A step in deciding the next version, emitted in order by `performAction` to `ActionOptions.trace`:
+ * - `branch`: Whether the branch is a release branch, and the pattern or prerelease channel deciding it, with
+ *   the monorepo component being released, if any.
+ * - `feature-pull-request`: On a feature branch, the outgoing PR whose base branch is used, if any.
+ * - `release-skipped`: A release checked before the last release was found, with why it was skipped.
+ * - `last-release`: The last release of the target commitish with the tag prefix, if found.
+ * - `merged-since`: The cutoff for the PRs merged into the base branch, from the last release.
+ * - `pull-requests`: The impact of each PR considered, and the PRs excluded as not of the component.
+ * - `version`: The increment applied to the last version, as inferred unless in initial development, and the
+ *   resulting next version.
+ */
+export type TraceEvent =
+  | {
+      type: "branch"
+      branch: string
+      releaseBranch: boolean
+      pattern: string | null
+      channel: PrereleaseChannel | null
+      component: string | null
+    }
+  | { type: "feature-pull-request"; pullRequest: PullRequest | null }
+  | { type: "release-skipped"; release: Release; reason: ReleaseSkipReason }
+  | { type: "last-release"; targetCommitish: string; tagPrefix: string | null; release: Release | null }
+  | { type: "merged-since"; baseRefName: string; mergedSince: Date | null }
+  | { type: "pull-requests"; impacts: PullRequestImpact[]; excluded: number[] }
+  | {
+      type: "version"
+      lastVersion: Version | null
+      increment: VersionIncrement
+      inferredIncrement: VersionIncrement
+      source: VersionSource
+      version: Version
+    }
 
 export type NoUpdateResult = {
   action: "none"
@@ -22,23 +163,88 @@ export type VersionInferenceResult = {
   lastRelease: Release | null
   lastVersion: Version | null
   pullRequestTitles: string[]
+  pullRequestImpacts: PullRequestImpact[]
+  /** The increment applied to the last version, which may be lower than inferred in initial development. */
   versionIncrement: VersionIncrement
+  /** The increment inferred from the pull requests, or of the specified version. */
+  inferredIncrement: VersionIncrement
   version: Version
+  versionSource: VersionSource
 }
 export type UpsertedReleaseResult = {
-  action: "created" | "updated"
+  action: "created" | "updated" | "published"
+  lastDraft: Release | null
+  lastRelease: Release | null
+  lastVersion: Version | null
+  pullRequestTitles: string[]
+  pullRequestImpacts: PullRequestImpact[]
+  /** The increment applied to the last version, which may be lower than inferred in initial development. */
+  versionIncrement: VersionIncrement
+  /** The increment inferred from the pull requests, or of the specified version. */
+  inferredIncrement: VersionIncrement
+  version: Version
+  versionSource: VersionSource
+  release: Release
+}
+export type DryRunResult = {
+  action: "would-create" | "would-update"
   lastDraft: Release | null
   lastRelease: Release | null
   lastVersion: Version | null
   pullRequestTitles: string[]
+  pullRequestImpacts: PullRequestImpact[]
+  /** The increment applied to the last version, which may be lower than inferred in initial development. */
   versionIncrement: VersionIncrement
+  /** The increment inferred from the pull requests, or of the specified version. */
+  inferredIncrement: VersionIncrement
+  version: Version
+  versionSource: VersionSource
+  /** The request that would have been made. */
+  request: CreateReleaseRequest | UpdateReleaseRequest
+  /** The request matching the current draft, to compare with when it would have been updated. */
+  currentRequest: UpdateReleaseRequest | null
+}
+export type UpsertResult = NoUpdateResult | VersionInferenceResult | UpsertedReleaseResult | DryRunResult
+export type ComponentResult = {
+  component: Component
+  result: UpsertResult
+}
+export type PromotedReleaseResult = {
+  action: "promoted"
+  prerelease: Release
+  promotedPrerelease: PromotedPrerelease
+  lastRelease: Release | null
+  lastVersion: Version | null
   version: Version
   release: Release
 }
-export type UpsertResult = NoUpdateResult | VersionInferenceResult | UpsertedReleaseResult
+export type PromotionDryRunResult = {
+  action: "would-promote"
+  prerelease: Release
+  promotedPrerelease: PromotedPrerelease
+  lastRelease: Release | null
+  lastVersion: Version | null
+  version: Version
+  /** The commit of the prerelease, which the tag of the release would have been created at. */
+  sha: string
+  /** The request that would have been made to publish the release. */
+  request: CreateReleaseRequest
+}
 
+/**
+ * Whether the current branch is a release branch, where `releaseBranches` may contain glob patterns.
+ * See `branch-patterns.ts` for the supported syntax.
+ */
 export function isReleaseBranch(context: Context): boolean {
-  return context.releaseBranches.includes(context.branch)
+  return matchesPatterns(context.branch, context.releaseBranches)
+}
+
+/**
+ * The release branch pattern that decided whether the current branch is a release branch, if any.
+ * This may be a negated pattern (prefixed with `!`) when the branch has been excluded.
+ */
+export function findReleaseBranchPattern(context: Context): string | null {
+  return findMatchingPattern(context.branch, context.releaseBranches)
 }
 
 /**
@@ -48,9 +254,20 @@ export function isReleaseBranch(context: Context): boolean {
  * release.
  * 1. Fetches the last draft release and last published release for the branch
  * 2. Collects all pull requests merged since the last published release
- * 3. Infers the version increment from conventional commit messages in PR titles
+ * 3. Infers the version increment from conventional commit messages in PR titles and from PR labels,
+ *    unless an explicit version is specified or the commit already has a version tag
  * 4. Updates existing draft release or creates a new one with the calculated version
- * 5. Does nothing if there are no new pull requests
+ * 5. Does nothing if there are no new pull requests, unless an explicit version is specified or the commit
+ *    has a version tag, and only infers the version for a version tag that is already released
+ *
+ * In `managed` mode, step 4 instead publishes the release, promoting any existing draft so that its body
+ * (including any human edits) is retained, or otherwise creating a published release.
+ *
+ * In a dry run, step 4 instead reports the request that would have been made, compared with the existing draft.
+ *
+ * On a prerelease channel branch, the same applies as for a release branch, except the release is a prerelease,
+ * such as `2.0.0-beta.3`, numbered after the existing prereleases of the channel with the same core version.
+ * It does nothing if no pull requests were merged since the last prerelease of the channel.
  *
  * On a feature branch, infers the next version based on outgoing pull requests without creating or updating
  * releases.
@@ -60,35 +277,232 @@ export function isReleaseBranch(context: Context): boolean {
  *
  * @param context - Context containing octokit, owner, repo, branch, and releaseBranches
  * @param defaultTag - Default tag to use when no prior release exists (e.g. "v0.1.0")
+ * @param options - Options controlling the behaviour, such as the release mode
  * @returns Result containing the release, action taken, and metadata
  */
-export async function performAction(context: Context, defaultTag: string): Promise<UpsertResult> {
-  if (isReleaseBranch(context)) {
-    return upsertDraftReleaseForReleaseBranch(context, defaultTag)
+export async function performAction(
+  context: Context,
+  defaultTag: string,
+  options: ActionOptions = {}
+): Promise<UpsertResult> {
+  const channel = findPrereleaseChannel(context.branch, options.prereleaseChannels ?? [])
+  const releaseBranch = channel !== null || isReleaseBranch(context)
+  trace(options, {
+    type: "branch",
+    branch: context.branch,
+    releaseBranch: releaseBranch,
+    pattern: findReleaseBranchPattern(context),
+    channel: channel,
+    component: options.component?.name ?? null
+  })
+  if (releaseBranch) {
+    return upsertReleaseForReleaseBranch(context, defaultTag, options, channel)
   } else {
-    return inferVersionForFeatureBranch(context, defaultTag)
+    return inferVersionForFeatureBranch(context, defaultTag, options)
   }
 }
 
-async function upsertDraftReleaseForReleaseBranch(
+/**
+ * Performs the action for each monorepo component in turn, as with `performAction`.
+ *
+ * @returns Result for each component, in the same order as the components
+ */
+export async function performComponentActions(
   context: Context,
-  defaultTag: string
+  defaultTag: string,
+  components: Component[],
+  options: ActionOptions = {}
+): Promise<ComponentResult[]> {
+  const results: ComponentResult[] = []
+  // The releases and PRs of the branch are the same for all components, so are only fetched once
+  const sharedContext: Context = {
+    ...context,
+    releaseRepository: sharedReleaseRepository(releaseRepository(context)),
+    pullRequestSource: sharedPullRequestSource(pullRequestSource(context))
+  }
+  // Components are processed sequentially to avoid concurrent updates to the same repository releases
+  for (const component of components) {
+    const result = await performAction(sharedContext, defaultTag, { ...options, component: component })
+    results.push({ component: component, result: result })
+  }
+  return results
+}
+
+/**
+ * Promotes a validated prerelease, such as `2.0.0-rc.3`, to the final release, such as `2.0.0`.
+ * 1. Finds the published prerelease of the version, and the last final release on the same branch
+ * 2. Tags the commit of the prerelease with the final version
+ * 3. Publishes the final release with release notes regenerated since the last final release, deleting the
+ *    tag again if that fails
+ * 4. Keeps, supersedes or deletes the prerelease, as per the `promotedPrerelease` option
+ *
+ * In a dry run, steps 2 to 4 are instead reported as the request that would have published the release.
+ *
+ * @param context - Context containing octokit, owner and repo
+ * @param prereleaseVersion - The version of the prerelease, such as `2.0.0-rc.3`, or its tag
+ * @param options - Options for how releases are tagged and named, and what becomes of the prerelease
+ * @returns Result containing the final release, or the request for a dry run, and the prerelease
+ * @throws {Error} If the prerelease is not found, or the final release already exists
+ */
+export async function promoteRelease(
+  context: Context,
+  prereleaseVersion: string,
+  options: ActionOptions = {}
+): Promise<PromotedReleaseResult | PromotionDryRunResult> {
+  const version = parsePromotedVersion(prereleaseVersion, options)
+  if (!isPrerelease(version)) {
+    throw new Error(`Version to promote is not a prerelease: ${prereleaseVersion}`)
+  }
+  const finalVersion = version.withPrerelease([]).withBuild([])
+  const repository = releaseRepository(context)
+  const releases = repository.fetchReleases()
+
+  // Finding releases needs to run sequentially to avoid racing on the cached data
+  const prerelease = await releases.find(
+    (release) => !release.draft && release.prerelease && isReleaseOf(release, version, options)
+  )
+  if (!prerelease?.tagName) {
+    throw new Error(`Prerelease not found: ${version.releaseTag}`)
+  }
+  const existing = await releases.find(
+    (release) => !release.draft && !release.prerelease && isReleaseOf(release, finalVersion, options)
+  )
+  if (existing) {
+    throw new Error(`Release already exists: ${existing.tagName}`)
+  }
+  const lastRelease = await releases.findLast(prerelease.targetCommitish, releaseTagPrefix(options))
+
+  const sha = await repository.fetchTagCommit(prerelease.tagName)
+  if (sha === null) {
+    throw new Error(`Tag not found: ${prerelease.tagName}`)
+  }
+  const body = await repository.generateReleaseNotes(
+    finalVersion.releaseTag,
+    sha,
+    lastRelease?.tagName ?? null
+  )
+  const name = releaseName(finalVersion, options)
+  // Without generated release notes, those of the prerelease are the closest
+  const releaseBody = body ?? prerelease.body ?? null
+  const promotedPrerelease = options.promotedPrerelease ?? "keep"
+  if (options.dryRun) {
+    return {
+      action: "would-promote",
+      prerelease: prerelease,
+      promotedPrerelease: promotedPrerelease,
+      lastRelease: lastRelease,
+      lastVersion: parseLastVersion(lastRelease, options),
+      version: finalVersion,
+      sha: sha,
+      request: createReleaseRequest(
+        context,
+        finalVersion.releaseTag,
+        prerelease.targetCommitish,
+        name,
+        false,
+        false,
+        releaseBody
+      )
+    }
+  }
+
+  // The tag is created first so the release is of the prerelease commit rather than the head of its branch,
+  // while targeting the branch so that the release is found as the last release of the branch
+  await repository.createTag(finalVersion.releaseTag, sha)
+  let release: Release
+  try {
+    release = await repository.createPublishedRelease(
+      finalVersion.releaseTag,
+      prerelease.targetCommitish,
+      name,
+      false,
+      releaseBody
+    )
+  } catch (error) {
+    // Without the release, the tag would be left behind and block promoting again
+    await repository.deleteTag(finalVersion.releaseTag)
+    throw error
+  }
+
+  if (promotedPrerelease === "supersede") {
+    await repository.updateRelease({
+      ...prerelease,
+      body: `Superseded by [${release.tagName}](${release.htmlUrl}).\n\n${prerelease.body ?? ""}`.trimEnd()
+    })
+  } else if (promotedPrerelease === "delete") {
+    await repository.deleteRelease(prerelease.id)
+  }
+
+  return {
+    action: "promoted",
+    prerelease: prerelease,
+    promotedPrerelease: promotedPrerelease,
+    lastRelease: lastRelease,
+    lastVersion: parseLastVersion(lastRelease, options),
+    version: finalVersion,
+    release: release
+  }
+}
+
+/**
+ * Parses the version to promote, which may be given as a tag, such as `api-v2.0.0-rc.3`, or a version.
+ */
+function parsePromotedVersion(versionOrTag: string, options: ActionOptions): Version {
+  return (
+    parseTagVersionOrNull(versionOrTag, options) ??
+    scheme(options)
+      .parse(versionOrTag)
+      .withComponent(options.component?.name ?? null)
+      .withTagTemplate(options.tagTemplate ?? DEFAULT_TAG_TEMPLATE)
+  )
+}
+
+/**
+ * Whether the release is tagged with the version, ignoring any build metadata.
+ */
+function isReleaseOf(release: Release, version: Version, options: ActionOptions): boolean {
+  const other = release.tagName ? parseTagVersionOrNull(release.tagName, options) : null
+  return (
+    other !== null &&
+    other.compareCore(version) === 0 &&
+    other.prerelease.join(".") === version.prerelease.join(".")
+  )
+}
+
+async function upsertReleaseForReleaseBranch(
+  context: Context,
+  defaultTag: string,
+  options: ActionOptions,
+  channel: PrereleaseChannel | null
 ): Promise<UpsertResult> {
-  const releases = fetchReleases(context)
+  const releases = releaseRepository(context).fetchReleases()
 
   // Finding releases needs to run sequentially to avoid racing on the cached data
-  const lastDraft = await releases.findLastDraft(context.branch)
-  const lastRelease = await releases.findLast(context.branch)
-  const lastVersion = lastRelease?.tagName ? parseVersion(lastRelease.tagName) : null
+  const lastDraft = await releases.findLastDraft(context.branch, draftNamePrefix(options), channel !== null)
+  const lastRelease = await findLastRelease(releases, context.branch, options)
+  const lastVersion = parseLastVersion(lastRelease, options)
 
   const mergedSince = lastRelease?.publishedAt ?? null
-  const pullRequests = await fetchPullRequests(context, {
-    type: "incoming",
-    baseRefName: context.branch,
-    mergedSince: mergedSince
-  }).collect()
+  trace(options, { type: "merged-since", baseRefName: context.branch, mergedSince: mergedSince })
+  const allPullRequests = await pullRequestSource(context)
+    .fetchPullRequests({
+      type: "incoming",
+      baseRefName: context.branch,
+      mergedSince: mergedSince,
+      withFiles: needsFiles(options)
+    })
+    .collect()
+  const pullRequests = filterComponentPullRequests(allPullRequests, options)
+  const pullRequestImpacts = inferPullRequestImpacts(pullRequests, options)
+  tracePullRequests(options, pullRequestImpacts, allPullRequests)
 
-  if (pullRequests.length === 0) {
+  // A specified version is released even without new PRs, such as for a tag push
+  const specifiedVersion = await findSpecifiedVersion(context, options, true)
+  if (
+    !specifiedVersion &&
+    (pullRequests.length === 0 ||
+      (await isChannelPrereleased(context, channel, releases, pullRequests, options)))
+  ) {
     return {
       action: "none",
       lastRelease: lastRelease,
@@ -97,29 +511,75 @@ async function upsertDraftReleaseForReleaseBranch(
     }
   }
 
-  const versionIncrement = inferImpactFromPRs(pullRequests)
-  const nextVersion = inferNextVersion(lastVersion, versionIncrement, context, defaultTag)
+  checkConventionalTitles(pullRequestImpacts, options)
+  if (
+    specifiedVersion?.source === "tag" &&
+    lastVersion &&
+    specifiedVersion.version.compareCore(lastVersion) <= 0
+  ) {
+    // The version tag is already released, such as when the push of the tag of a published release runs
+    const version = inferNextVersion(lastVersion, "none", specifiedVersion, context, defaultTag, options)
+    traceVersion(options, lastVersion, "none", "none", specifiedVersion, version)
+    return {
+      action: "version",
+      lastRelease: lastRelease,
+      lastVersion: lastVersion,
+      pullRequestTitles: pullRequests.map((pr) => pr.title),
+      pullRequestImpacts: pullRequestImpacts,
+      versionIncrement: "none",
+      inferredIncrement: "none",
+      version: version,
+      versionSource: "tag"
+    }
+  }
+  const inferredIncrement = determineVersionIncrement(
+    pullRequestImpacts,
+    lastVersion,
+    specifiedVersion,
+    options
+  )
+  const versionIncrement = appliedIncrement(inferredIncrement, lastVersion, specifiedVersion, options)
+  const nextVersion = await withPrereleaseChannel(
+    inferNextVersion(lastVersion, inferredIncrement, specifiedVersion, context, defaultTag, options),
+    channel,
+    releases,
+    options
+  )
+  traceVersion(options, lastVersion, versionIncrement, inferredIncrement, specifiedVersion, nextVersion)
 
-  const { release, action } = await performUpsert(context, nextVersion, lastDraft, lastRelease)
+  const change =
+    options.mode === "managed"
+      ? await performPublish(context, nextVersion, lastDraft, options)
+      : await performUpsert(context, nextVersion, lastDraft, lastRelease, options)
 
   return {
-    action: action,
+    ...change,
     lastDraft: lastDraft,
     lastRelease: lastRelease,
     lastVersion: lastVersion,
     pullRequestTitles: pullRequests.map((pr) => pr.title),
+    pullRequestImpacts: pullRequestImpacts,
     versionIncrement: versionIncrement,
+    inferredIncrement: inferredIncrement,
     version: nextVersion,
-    release: release
+    versionSource: specifiedVersion?.source ?? "inferred"
   }
 }
 
-async function inferVersionForFeatureBranch(context: Context, defaultTag: string): Promise<UpsertResult> {
+async function inferVersionForFeatureBranch(
+  context: Context,
+  defaultTag: string,
+  options: ActionOptions
+): Promise<UpsertResult> {
   // Find an outgoing PR from the feature branch so we can find the base branch (unlikely to be > 1)
-  const featurePR = await fetchPullRequests(context, {
-    type: "outgoing",
-    headRefName: context.branch
-  }).first()
+  const featurePR = await pullRequestSource(context)
+    .fetchPullRequests({
+      type: "outgoing",
+      headRefName: context.branch,
+      withFiles: needsFiles(options)
+    })
+    .first()
+  trace(options, { type: "feature-pull-request", pullRequest: featurePR })
 
   // No outgoing PRs means no version inference can be done as we don't know the target branch
   if (featurePR === null) {
@@ -133,66 +593,489 @@ async function inferVersionForFeatureBranch(context: Context, defaultTag: string
 
   // Use the base branch of the latest PR to find the last release and version
   const targetBranch = featurePR.baseRefName
-  const lastRelease = await fetchReleases(context).findLast(targetBranch)
-  const lastVersion = lastRelease?.tagName ? parseVersion(lastRelease.tagName) : null
+  const lastRelease = await findLastRelease(releaseRepository(context).fetchReleases(), targetBranch, options)
+  const lastVersion = parseLastVersion(lastRelease, options)
 
   // Find all the current pull requests merged into the target branch since the last release
-  const mergedPullRequests = await fetchPullRequests(context, {
-    type: "incoming",
-    baseRefName: targetBranch,
-    mergedSince: lastRelease?.publishedAt ?? null
-  }).collect()
+  const mergedSince = lastRelease?.publishedAt ?? null
+  trace(options, { type: "merged-since", baseRefName: targetBranch, mergedSince: mergedSince })
+  const mergedPullRequests = await pullRequestSource(context)
+    .fetchPullRequests({
+      type: "incoming",
+      baseRefName: targetBranch,
+      mergedSince: mergedSince,
+      withFiles: needsFiles(options)
+    })
+    .collect()
 
   // Find the impact since the last release, including the feature PR itself
-  const prs = [featurePR, ...mergedPullRequests]
+  const allPullRequests = [featurePR, ...mergedPullRequests]
+  const prs = filterComponentPullRequests(allPullRequests, options)
   const titles = prs.map((pr) => pr.title)
-  const versionIncrement = inferImpactFromPRs(prs)
-  const nextVersion = inferNextVersion(lastVersion, versionIncrement, context, defaultTag, context.branch)
+  const pullRequestImpacts = inferPullRequestImpacts(prs, options)
+  tracePullRequests(options, pullRequestImpacts, allPullRequests)
+  checkConventionalTitles(pullRequestImpacts, options)
+  const specifiedVersion = await findSpecifiedVersion(context, options, false)
+  const inferredIncrement = determineVersionIncrement(
+    pullRequestImpacts,
+    lastVersion,
+    specifiedVersion,
+    options
+  )
+  const versionIncrement = appliedIncrement(inferredIncrement, lastVersion, specifiedVersion, options)
+  const nextVersion = inferNextVersion(
+    lastVersion,
+    inferredIncrement,
+    specifiedVersion,
+    context,
+    defaultTag,
+    options,
+    context.branch
+  )
+  traceVersion(options, lastVersion, versionIncrement, inferredIncrement, specifiedVersion, nextVersion)
 
   return {
     action: "version",
     lastRelease: lastRelease,
     lastVersion: lastVersion,
     pullRequestTitles: titles,
+    pullRequestImpacts: pullRequestImpacts,
     versionIncrement: versionIncrement,
-    version: nextVersion
+    inferredIncrement: inferredIncrement,
+    version: nextVersion,
+    versionSource: specifiedVersion?.source ?? "inferred"
+  }
+}
+
+/**
+ * The prefix of the tags of the releases to consider, or null to consider all, as is the case without a
+ * component or tag template.
+ */
+function releaseTagPrefix(options: ActionOptions): string | null {
+  if (!options.component && !options.tagTemplate) {
+    return null
+  }
+  return tagPrefix(options.component?.name ?? null, options.tagTemplate)
+}
+
+/**
+ * The prefix of the names of the drafts to consider, or null to consider all, as is the case without a
+ * component or templates.
+ */
+function draftNamePrefix(options: ActionOptions): string | null {
+  if (!options.component && !options.tagTemplate && !options.nameTemplate) {
+    return null
+  }
+  return releaseNamePrefix(
+    options.nameTemplate ?? DEFAULT_NAME_TEMPLATE,
+    options.component?.name ?? null,
+    options.tagTemplate
+  )
+}
+
+/**
+ * Finds the last release of the target commitish, tracing the releases skipped before it.
+ */
+async function findLastRelease(
+  releases: Releases,
+  targetCommitish: string,
+  options: ActionOptions
+): Promise<Release | null> {
+  const prefix = releaseTagPrefix(options)
+  const lastRelease = await releases.findLast(targetCommitish, prefix, (release, reason) =>
+    trace(options, { type: "release-skipped", release: release, reason: reason })
+  )
+  trace(options, {
+    type: "last-release",
+    targetCommitish: targetCommitish,
+    tagPrefix: prefix,
+    release: lastRelease
+  })
+  return lastRelease
+}
+
+function parseLastVersion(lastRelease: Release | null, options: ActionOptions): Version | null {
+  return lastRelease?.tagName
+    ? parseTagVersion(
+        lastRelease.tagName,
+        options.component?.name ?? null,
+        options.tagTemplate,
+        scheme(options)
+      )
+    : null
+}
+
+/**
+ * Changed files are only needed to match PRs to a component by path.
+ */
+function needsFiles(options: ActionOptions): boolean {
+  return (options.component?.paths.length ?? 0) > 0
+}
+
+function filterComponentPullRequests(prs: PullRequest[], options: ActionOptions): PullRequest[] {
+  const component = options.component
+  return component ? prs.filter((pr) => isComponentPullRequest(pr, component)) : prs
+}
+
+/**
+ * In strict mode, fails when any PR title is not a conventional commit, as it may have been intended to
+ * imply a version increment.
+ */
+function checkConventionalTitles(impacts: PullRequestImpact[], options: ActionOptions) {
+  const nonConventional = findNonConventionalTitles(impacts)
+  if (options.strict && nonConventional.length > 0) {
+    const descriptions = nonConventional.map((pr) => describeNonConventionalTitle(pr, options))
+    throw new Error(`Strict mode requires conventional commit titles:\n${descriptions.join("\n")}`)
+  }
+}
+
+/**
+ * A version specified rather than inferred, with where it was specified.
+ */
+interface SpecifiedVersion {
+  version: Version
+  source: Exclude<VersionSource, "inferred">
+}
+
+/**
+ * The version specified by the `version` option, or otherwise the highest release version tag already on the
+ * commit being built, if any. Tags are only looked up on a release branch or for a tag push, as feature
+ * branch commits are rarely tagged.
+ *
+ * @throws {Error} If the `version` option is a prerelease version, as prereleases are of the branch
+ */
+async function findSpecifiedVersion(
+  context: Context,
+  options: ActionOptions,
+  releaseBranch: boolean
+): Promise<SpecifiedVersion | null> {
+  if (options.version) {
+    const version = scheme(options).parse(options.version)
+    if (version.prerelease.length > 0) {
+      throw new Error(
+        `Version ${options.version} is a prerelease version, publish prereleases from a prerelease branch instead`
+      )
+    }
+    return { version: version, source: "input" }
+  }
+  if (context.sha === null || !(releaseBranch || context.tag)) {
+    return null
+  }
+
+  const tagVersions = (await releaseRepository(context).fetchTagsForCommit(context.sha))
+    .map((tagName) => parseReleaseVersion(tagName, options))
+    .filter((version) => version !== null)
+  const [highest] = tagVersions.sort((a, b) => b.compareCore(a))
+  return highest ? { version: highest, source: "tag" } : null
+}
+
+/**
+ * Parses a tag as a release version such as `v1.2.3`, or null if not a version of the component or is a
+ * prerelease version.
+ */
+function parseReleaseVersion(tagName: string, options: ActionOptions): Version | null {
+  const version = parseTagVersionOrNull(tagName, options)
+  return version?.prerelease.length === 0 ? version : null
+}
+
+/**
+ * Parses a tag as a version, or null if not a version of the component, such as tags used for other purposes.
+ */
+function parseTagVersionOrNull(tagName: string, options: ActionOptions): Version | null {
+  try {
+    return parseTagVersion(tagName, options.component?.name ?? null, options.tagTemplate, scheme(options))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The maximum impact of the PRs, or with a specified version, the increment from the last version to it.
+ *
+ * @throws {Error} If the `version` option is not higher than the last version, unless forced
+ */
+function determineVersionIncrement(
+  impacts: PullRequestImpact[],
+  lastVersion: Version | null,
+  specifiedVersion: SpecifiedVersion | null,
+  options: ActionOptions
+): VersionIncrement {
+  if (!specifiedVersion) {
+    return maxImpact(impacts.map((pr) => pr.impact))
+  }
+  if (!lastVersion) {
+    return "none"
+  }
+
+  const { version, source } = specifiedVersion
+  if (source === "input" && version.compareCore(lastVersion) <= 0 && !options.force) {
+    throw new Error(
+      `Version ${version.core} is not higher than the last release version ${lastVersion.core}, use force to allow this`
+    )
+  }
+  return version.incrementFrom(lastVersion)
+}
+
+/**
+ * The increment applied to the last version by the version scheme, which for initial development is lower
+ * than inferred, such as a minor increment for a breaking change to `0.y.z`.
+ */
+function appliedIncrement(
+  increment: VersionIncrement,
+  lastVersion: Version | null,
+  specifiedVersion: SpecifiedVersion | null,
+  options: ActionOptions
+): VersionIncrement {
+  if (specifiedVersion || !lastVersion || scheme(options) !== semverScheme) {
+    return increment
   }
+  return lastVersion.appliedIncrement(increment, options.initialDevelopment ?? false)
+}
+
+/**
+ * Whether the PRs were all merged by the time the last prerelease of the channel was published, where the PRs
+ * since the last release would otherwise make a new prerelease after each one published.
+ */
+async function isChannelPrereleased(
+  context: Context,
+  channel: PrereleaseChannel | null,
+  releases: Releases,
+  pullRequests: PullRequest[],
+  options: ActionOptions
+): Promise<boolean> {
+  if (!channel) {
+    return false
+  }
+  const lastPrerelease = (await releases.findPrereleases()).find((release) => {
+    const version = release.tagName ? parseTagVersionOrNull(release.tagName, options) : null
+    return release.targetCommitish === context.branch && version?.prerelease[0] === channel.identifier
+  })
+  const publishedAt = lastPrerelease?.publishedAt
+  return !!publishedAt && pullRequests.every((pr) => pr.mergedAt !== null && pr.mergedAt <= publishedAt)
+}
+
+/**
+ * Adds the prerelease identifier and number of the channel to the version, such as `2.0.0-beta.3`, if any.
+ */
+async function withPrereleaseChannel(
+  version: Version,
+  channel: PrereleaseChannel | null,
+  releases: Releases,
+  options: ActionOptions
+): Promise<Version> {
+  if (!channel) {
+    return version
+  }
+  const existing = (await releases.findPrereleases())
+    .map((release) => (release.tagName ? parseTagVersionOrNull(release.tagName, options) : null))
+    .filter((other) => other !== null)
+  return version.withPrerelease([channel.identifier, `${nextPrereleaseNumber(version, channel, existing)}`])
 }
 
 function inferNextVersion(
   lastVersion: Version | null,
   increment: VersionIncrement,
+  specifiedVersion: SpecifiedVersion | null,
   context: Context,
   defaultTag: string,
+  options: ActionOptions,
   branchIfFeature: string | null = null
 ): Version {
-  return (lastVersion ? lastVersion.bump(increment) : parseVersion(defaultTag))
+  return nextCoreVersion(lastVersion, increment, specifiedVersion, defaultTag, options)
+    .withComponent(options.component?.name ?? null)
+    .withTagTemplate(options.tagTemplate ?? DEFAULT_TAG_TEMPLATE)
     .withPrerelease(branchIfFeature ? sanitiseBranchPrerelease(branchIfFeature) : [])
-    .withBuild([context.runNumber, context.runAttempt])
+    .withBuild([context.runNumber, context.runAttempt].filter((part) => part !== null))
+}
+
+function nextCoreVersion(
+  lastVersion: Version | null,
+  increment: VersionIncrement,
+  specifiedVersion: SpecifiedVersion | null,
+  defaultTag: string,
+  options: ActionOptions
+): Version {
+  if (specifiedVersion) {
+    return specifiedVersion.version
+  }
+  // Calendar versions are derived from the run date
+  const date = new Date()
+  return lastVersion
+    ? scheme(options).next(lastVersion, increment, date, options.initialDevelopment ?? false)
+    : scheme(options).initial(parseDefaultTag(defaultTag, options), date)
+}
+
+function scheme(options: ActionOptions): VersionScheme {
+  return options.versionScheme ?? semverScheme
+}
+
+/**
+ * Parses the default tag through the tag template and version scheme, or as a plain version, such as `v0.1.0`,
+ * when it does not match them.
+ */
+function parseDefaultTag(defaultTag: string, options: ActionOptions): Version {
+  try {
+    return parseTagVersion(defaultTag, null, options.tagTemplate, scheme(options))
+  } catch {
+    return parseVersion(defaultTag)
+  }
 }
 
 async function performUpsert(
   context: Context,
   nextVersion: Version,
   existingDraft: Release | null,
-  lastRelease: Release | null
-): Promise<{ release: Release; action: "created" | "updated" }> {
+  lastRelease: Release | null,
+  options: ActionOptions
+): Promise<{ release: Release; action: "created" | "updated" } | DryRunChange> {
+  const name = releaseName(nextVersion, options)
   if (existingDraft) {
-    const body = await generateReleaseNotes(
-      context,
-      nextVersion.tag,
+    const body = await releaseRepository(context).generateReleaseNotes(
+      nextVersion.releaseTag,
       context.branch,
       lastRelease?.tagName ?? null
     )
-    const release = await updateRelease(context, {
+    const updatedDraft: Release = {
       ...existingDraft,
-      name: nextVersion.tag,
-      tagName: nextVersion.tag,
-      body: body
-    })
+      name: name,
+      tagName: nextVersion.releaseTag,
+      // Without generated release notes, the draft keeps its existing release notes
+      body: body ?? existingDraft.body,
+      prerelease: isPrerelease(nextVersion)
+    }
+    if (options.dryRun) {
+      return dryRunUpdate(context, existingDraft, updatedDraft)
+    }
+    const release = await releaseRepository(context).updateRelease(updatedDraft)
     return { release: release, action: "updated" }
+  } else if (options.dryRun) {
+    return dryRunCreate(
+      createReleaseRequest(
+        context,
+        nextVersion.releaseTag,
+        context.branch,
+        name,
+        true,
+        isPrerelease(nextVersion),
+        null
+      )
+    )
   } else {
-    const release = await createDraftRelease(context, nextVersion.tag, context.branch, nextVersion.tag)
+    const release = await releaseRepository(context).createDraftRelease(
+      nextVersion.releaseTag,
+      context.branch,
+      name,
+      isPrerelease(nextVersion)
+    )
     return { release: release, action: "created" }
   }
 }
+
+/**
+ * Publishes the release, promoting an existing draft without regenerating release notes so that any
+ * human edits to its body are kept.
+ */
+async function performPublish(
+  context: Context,
+  nextVersion: Version,
+  existingDraft: Release | null,
+  options: ActionOptions
+): Promise<{ release: Release; action: "published" } | DryRunChange> {
+  const name = releaseName(nextVersion, options)
+  if (existingDraft) {
+    const publishedDraft: Release = {
+      ...existingDraft,
+      name: name,
+      tagName: nextVersion.releaseTag,
+      draft: false,
+      prerelease: isPrerelease(nextVersion)
+    }
+    if (options.dryRun) {
+      return dryRunUpdate(context, existingDraft, publishedDraft)
+    }
+    const release = await releaseRepository(context).updateRelease(publishedDraft)
+    return { release: release, action: "published" }
+  } else if (options.dryRun) {
+    return dryRunCreate(
+      createReleaseRequest(
+        context,
+        nextVersion.releaseTag,
+        context.branch,
+        name,
+        false,
+        isPrerelease(nextVersion),
+        null
+      )
+    )
+  } else {
+    const release = await releaseRepository(context).createPublishedRelease(
+      nextVersion.releaseTag,
+      context.branch,
+      name,
+      isPrerelease(nextVersion),
+      null
+    )
+    return { release: release, action: "published" }
+  }
+}
+
+type DryRunChange = Pick<DryRunResult, "action" | "request" | "currentRequest">
+
+function dryRunCreate(request: CreateReleaseRequest): DryRunChange {
+  return { action: "would-create", request: request, currentRequest: null }
+}
+
+function dryRunUpdate(context: Context, currentDraft: Release, updatedDraft: Release): DryRunChange {
+  return {
+    action: "would-update",
+    request: updateReleaseRequest(context, updatedDraft),
+    currentRequest: updateReleaseRequest(context, currentDraft)
+  }
+}
+
+function releaseName(version: Version, options: ActionOptions): string {
+  return formatReleaseName(options.nameTemplate ?? DEFAULT_NAME_TEMPLATE, version, new Date())
+}
+
+/**
+ * Whether the release of the version is a prerelease, as only the versions of prerelease channels have
+ * prerelease identifiers on a release branch.
+ */
+function isPrerelease(version: Version): boolean {
+  return version.prerelease.length > 0
+}
+
+function trace(options: ActionOptions, event: TraceEvent) {
+  options.trace?.(event)
+}
+
+function tracePullRequests(
+  options: ActionOptions,
+  impacts: PullRequestImpact[],
+  allPullRequests: PullRequest[]
+) {
+  const numbers = new Set(impacts.map((pr) => pr.number))
+  trace(options, {
+    type: "pull-requests",
+    impacts: impacts,
+    excluded: allPullRequests.map((pr) => pr.number).filter((number) => !numbers.has(number))
+  })
+}
+
+function traceVersion(
+  options: ActionOptions,
+  lastVersion: Version | null,
+  increment: VersionIncrement,
+  inferredIncrement: VersionIncrement,
+  specifiedVersion: SpecifiedVersion | null,
+  version: Version
+) {
+  trace(options, {
+    type: "version",
+    lastVersion: lastVersion,
+    increment: increment,
+    inferredIncrement: inferredIncrement,
+    source: specifiedVersion?.source ?? "inferred",
+    version: version
+  })
+}
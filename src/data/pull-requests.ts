@@ -1,6 +1,8 @@
 import type { Context } from "@/context"
 
 const DEFAULT_PER_PAGE = 30
+const MAX_LABELS = 20
+const MAX_FILES = 100
 
 /**
  * Represents a GitHub Pull Request with the fields needed for the action
@@ -11,6 +13,9 @@ export interface PullRequest {
   baseRefName: string
   state: string
   mergedAt: Date | null
+  labels: string[]
+  /** The paths of the files changed, only fetched when requested with `withFiles`, otherwise empty. */
+  files: string[]
 }
 
 /**
@@ -21,6 +26,8 @@ export interface IncomingPullRequestsParams {
   baseRefName: string
   mergedSince: Date | null
   perPage?: number
+  /** Whether to fetch the paths of the files changed by each PR. */
+  withFiles?: boolean
 }
 
 /**
@@ -30,6 +37,8 @@ export interface OutgoingPullRequestsParams {
   type: "outgoing"
   headRefName: string
   perPage?: number
+  /** Whether to fetch the paths of the files changed by each PR. */
+  withFiles?: boolean
 }
 
 export type FetchPullRequestsParams = IncomingPullRequestsParams | OutgoingPullRequestsParams
@@ -62,15 +71,21 @@ export class PullRequests implements AsyncIterable<PullRequest> {
 
 // See: https://docs.github.com/en/graphql/reference/objects#pullrequest
 const pullRequestQuery = `
-query(
+query PullRequests(
   $owner: String!
   $repo: String!
   $baseRefName: String
   $headRefName: String
   $state: PullRequestState!
   $perPage: Int!
+  $maxLabels: Int!
+  $withFiles: Boolean!
+  $maxFiles: Int!
   $cursor: String
 ) {
+  rateLimit {
+    cost
+  }
   repository(owner: $owner, name: $repo) {
     pullRequests(
       baseRefName: $baseRefName
@@ -90,6 +105,42 @@ query(
         baseRefName
         state
         mergedAt
+        labels(first: $maxLabels) {
+          nodes {
+            name
+          }
+        }
+        files(first: $maxFiles) @include(if: $withFiles) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            path
+          }
+        }
+      }
+    }
+  }
+}
+`
+
+// See: https://docs.github.com/en/graphql/reference/objects#pullrequest
+const pullRequestFilesQuery = `
+query PullRequestFiles($owner: String!, $repo: String!, $number: Int!, $maxFiles: Int!, $cursor: String) {
+  rateLimit {
+    cost
+  }
+  repository(owner: $owner, name: $repo) {
+    pullRequest(number: $number) {
+      files(first: $maxFiles, after: $cursor) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          path
+        }
       }
     }
   }
@@ -112,23 +163,70 @@ export function fetchPullRequests(context: Context, params: FetchPullRequestsPar
         null,
         "MERGED",
         params.mergedSince,
+        params.withFiles ?? false,
         params.perPage
       )
     )
   } else {
     // outgoing
     return new PullRequests(
-      createPullRequestsGenerator(context, null, params.headRefName, "OPEN", null, params.perPage)
+      createPullRequestsGenerator(
+        context,
+        null,
+        params.headRefName,
+        "OPEN",
+        null,
+        params.withFiles ?? false,
+        params.perPage
+      )
     )
   }
 }
 
+/**
+ * Lists the pull requests of GraphQL API responses already fetched, such as recorded in a snapshot, in the
+ * same way as `fetchPullRequests`, where outgoing PRs are those with the head branch.
+ */
+export function listPullRequests(
+  pullRequests: PullRequestData[],
+  params: FetchPullRequestsParams
+): PullRequests {
+  return new PullRequests(createListGenerator(pullRequests, params))
+}
+
+async function* createListGenerator(
+  pullRequests: PullRequestData[],
+  params: FetchPullRequestsParams
+): AsyncGenerator<PullRequest, void, undefined> {
+  for (const pr of pullRequests) {
+    const matching =
+      params.type === "incoming"
+        ? pr.state === "MERGED" && pr.baseRefName === params.baseRefName
+        : pr.state === "OPEN" && pr.headRefName === params.headRefName
+    if (!matching) {
+      continue
+    }
+    const pullRequest = mapPullRequest(params.withFiles ? pr : { ...pr, files: undefined })
+    if (
+      params.type === "incoming" &&
+      pullRequest.mergedAt != null &&
+      params.mergedSince &&
+      pullRequest.mergedAt < params.mergedSince
+    ) {
+      // Listed in the same order as fetched, so no later PR is merged since the date either
+      return
+    }
+    yield pullRequest
+  }
+}
+
 async function* createPullRequestsGenerator(
   context: Context,
   baseRefName: string | null,
   headRefName: string | null,
   state: string,
   mergedSince: Date | null,
+  withFiles: boolean,
   perPage?: number
 ): AsyncGenerator<PullRequest, void, undefined> {
   let cursor: string | null = null
@@ -144,6 +242,9 @@ async function* createPullRequestsGenerator(
         headRefName: headRefName,
         state: state,
         perPage: perPage ?? DEFAULT_PER_PAGE,
+        maxLabels: MAX_LABELS,
+        withFiles: withFiles,
+        maxFiles: MAX_FILES,
         cursor: cursor
       }
     )
@@ -160,6 +261,12 @@ async function* createPullRequestsGenerator(
         hasNextPage = false
         break
       }
+      if (pr.files?.pageInfo.hasNextPage) {
+        // Large PRs have more files than fit in the page, which are needed to match the PR to components
+        pullRequest.files.push(
+          ...(await fetchRemainingFiles(context, pr.number, pr.files.pageInfo.endCursor))
+        )
+      }
       yield pullRequest
     }
 
@@ -173,6 +280,33 @@ async function* createPullRequestsGenerator(
   }
 }
 
+/**
+ * Fetches the paths of the files changed by the PR after the cursor, for PRs with more than a page of files.
+ */
+async function fetchRemainingFiles(
+  context: Context,
+  number: number,
+  cursor: string | null
+): Promise<string[]> {
+  const paths: string[] = []
+  let hasNextPage = true
+  while (hasNextPage) {
+    const response: PullRequestFilesQueryResponse =
+      await context.octokit.graphql<PullRequestFilesQueryResponse>(pullRequestFilesQuery, {
+        owner: context.owner,
+        repo: context.repo,
+        number: number,
+        maxFiles: MAX_FILES,
+        cursor: cursor
+      })
+    const files = response.repository.pullRequest.files
+    paths.push(...files.nodes.map((file) => file.path))
+    hasNextPage = files.pageInfo.hasNextPage && files.nodes.length > 0
+    cursor = files.pageInfo.endCursor
+  }
+  return paths
+}
+
 interface PullRequestQueryResponse {
   repository: {
     pullRequests: {
@@ -191,18 +325,49 @@ interface PullRequestNode {
   baseRefName: string
   state: string
   mergedAt: string | null
+  labels: {
+    nodes: { name: string }[]
+  }
+  files?: PullRequestFiles
+}
+
+/**
+ * The fields of a GraphQL API pull request used by our PullRequest interface, with the head branch of outgoing
+ * pull requests and the files when listed rather than fetched.
+ */
+type PullRequestData = Omit<PullRequestNode, "files"> & {
+  headRefName?: string
+  files?: Pick<PullRequestFiles, "nodes">
+}
+
+interface PullRequestFilesQueryResponse {
+  repository: {
+    pullRequest: {
+      files: PullRequestFiles
+    }
+  }
+}
+
+interface PullRequestFiles {
+  pageInfo: {
+    hasNextPage: boolean
+    endCursor: string | null
+  }
+  nodes: { path: string }[]
 }
 
 /**
  * Maps a GitHub GraphQL API pull request response to our PullRequest interface
  */
-function mapPullRequest(apiPR: PullRequestNode): PullRequest {
+function mapPullRequest(apiPR: PullRequestData): PullRequest {
   return {
     title: apiPR.title,
     number: apiPR.number,
     baseRefName: apiPR.baseRefName,
     state: apiPR.state,
-    mergedAt: apiPR.state === "MERGED" && apiPR.mergedAt ? new Date(apiPR.mergedAt) : null
+    mergedAt: apiPR.state === "MERGED" && apiPR.mergedAt ? new Date(apiPR.mergedAt) : null,
+    labels: apiPR.labels.nodes.map((label) => label.name),
+    files: apiPR.files?.nodes.map((file) => file.path) ?? []
   }
 }
 
@@ -0,0 +1,103 @@
+import type { Snapshot, SnapshotPullRequest, SnapshotRelease, SnapshotTag } from "@/data/snapshot"
+
+/**
+ * Creates a fetch recording the responses of the API requests of the data layer into the snapshot, to replay
+ * them with `snapshotReleaseRepository` and `snapshotPullRequestSource`.
+ *
+ * Releases, pull requests and tags are recorded once each, in the order first listed, with outgoing pull
+ * requests recorded with the head branch they were queried by, as it is not in the response.
+ */
+export function createRecordingFetch(snapshot: Snapshot, fetch: typeof globalThis.fetch): typeof fetch {
+  return async (input, init) => {
+    const request = new Request(input, init)
+    const body = request.method === "POST" ? ((await request.clone().json()) as RequestBody) : null
+    const response = await fetch(request)
+    if (response.ok && response.headers.get("content-type")?.includes("json")) {
+      record(snapshot, request, body, await response.clone().json())
+    }
+    return response
+  }
+}
+
+function record(snapshot: Snapshot, request: Request, body: RequestBody | null, data: unknown) {
+  const path = new URL(request.url).pathname
+  if (request.method === "GET" && /\/repos\/[^/]+\/[^/]+\/releases$/.test(path)) {
+    for (const release of data as SnapshotRelease[]) {
+      recordRelease(snapshot, release)
+    }
+  } else if (request.method === "POST" && path.endsWith("/releases/generate-notes") && body?.tag_name) {
+    snapshot.releaseNotes[body.tag_name] = (data as { body: string }).body
+  } else if (request.method === "POST" && path.endsWith("/graphql")) {
+    const repository = (data as GraphQLResponse).data?.repository
+    for (const pr of repository?.pullRequests?.nodes ?? []) {
+      recordPullRequest(snapshot, pr, body?.variables?.headRefName ?? null)
+    }
+    if (repository?.pullRequest && body?.variables?.number !== undefined) {
+      recordPullRequestFiles(snapshot, body.variables.number, repository.pullRequest.files.nodes)
+    }
+    for (const tag of [...(repository?.refs?.nodes ?? []), ...(repository?.ref ? [repository.ref] : [])]) {
+      recordTag(snapshot, tag)
+    }
+  }
+}
+
+interface RequestBody {
+  tag_name?: string
+  variables?: { headRefName?: string | null; number?: number }
+}
+
+interface GraphQLResponse {
+  data?: {
+    repository?: {
+      pullRequests?: { nodes: SnapshotPullRequest[] }
+      pullRequest?: { files: { nodes: { path: string }[] } }
+      refs?: { nodes: SnapshotTag[] }
+      ref?: SnapshotTag | null
+    }
+  }
+}
+
+function recordRelease(snapshot: Snapshot, release: SnapshotRelease) {
+  if (!snapshot.releases.some((other) => other.id === release.id)) {
+    snapshot.releases.push({
+      id: release.id,
+      tag_name: release.tag_name,
+      target_commitish: release.target_commitish,
+      name: release.name,
+      body: release.body,
+      published_at: release.published_at,
+      draft: release.draft,
+      prerelease: release.prerelease,
+      html_url: release.html_url
+    })
+  }
+}
+
+function recordPullRequest(snapshot: Snapshot, pr: SnapshotPullRequest, headRefName: string | null) {
+  const existing = snapshot.pullRequests.find((other) => other.number === pr.number)
+  if (existing) {
+    // The same PR may be listed as both outgoing and incoming, such as on a feature branch
+    if (headRefName && !existing.headRefName) {
+      existing.headRefName = headRefName
+    }
+    existing.files ??= pr.files
+  } else {
+    snapshot.pullRequests.push(headRefName ? { ...pr, headRefName: headRefName } : pr)
+  }
+}
+
+/**
+ * Adds the files of a later page to those recorded with the PR, so that all its files are replayed.
+ */
+function recordPullRequestFiles(snapshot: Snapshot, number: number, files: { path: string }[]) {
+  const existing = snapshot.pullRequests.find((other) => other.number === number)
+  if (existing?.files) {
+    existing.files = { nodes: [...existing.files.nodes, ...files] }
+  }
+}
+
+function recordTag(snapshot: Snapshot, tag: SnapshotTag) {
+  if (!snapshot.tags.some((other) => other.name === tag.name)) {
+    snapshot.tags.push(tag)
+  }
+}
@@ -13,11 +13,13 @@ export interface Release {
   publishedAt: Date | null
   draft: boolean
   prerelease: boolean
+  htmlUrl: string
 }
 
+export type CreateReleaseRequest = RestEndpointMethodTypes["repos"]["createRelease"]["parameters"]
 type CreateReleaseResponse = RestEndpointMethodTypes["repos"]["createRelease"]["response"]
 type CreateReleaseData = CreateReleaseResponse["data"]
-type UpdateReleaseRequest = RestEndpointMethodTypes["repos"]["updateRelease"]["parameters"]
+export type UpdateReleaseRequest = RestEndpointMethodTypes["repos"]["updateRelease"]["parameters"]
 type UpdateReleaseResponse = RestEndpointMethodTypes["repos"]["updateRelease"]["response"]
 type UpdateReleaseData = UpdateReleaseResponse["data"]
 
@@ -28,26 +30,83 @@ export async function createDraftRelease(
   context: Context,
   tagName: string,
   targetCommitish: string,
-  name: string
+  name: string,
+  prerelease: boolean = false
 ): Promise<Release> {
-  const response = await context.octokit.rest.repos.createRelease({
+  return createRelease(context, tagName, targetCommitish, name, true, prerelease, null)
+}
+
+/**
+ * Creates and publishes a release with the specified parameters and generated release notes, unless a body
+ * is given. This creates the tag against the target commitish if it does not already exist.
+ */
+export async function createPublishedRelease(
+  context: Context,
+  tagName: string,
+  targetCommitish: string,
+  name: string,
+  prerelease: boolean = false,
+  body: string | null = null
+): Promise<Release> {
+  return createRelease(context, tagName, targetCommitish, name, false, prerelease, body)
+}
+
+async function createRelease(
+  context: Context,
+  tagName: string,
+  targetCommitish: string,
+  name: string,
+  draft: boolean,
+  prerelease: boolean,
+  body: string | null
+): Promise<Release> {
+  const response = await context.octokit.rest.repos.createRelease(
+    createReleaseRequest(context, tagName, targetCommitish, name, draft, prerelease, body)
+  )
+
+  return mapRelease(response.data)
+}
+
+/**
+ * The request made to create a release, with release notes generated by GitHub unless a body is given.
+ * Also used to report the request without making it, such as for a dry run.
+ */
+export function createReleaseRequest(
+  context: Context,
+  tagName: string,
+  targetCommitish: string,
+  name: string,
+  draft: boolean,
+  prerelease: boolean,
+  body: string | null
+): CreateReleaseRequest {
+  return {
     owner: context.owner,
     repo: context.repo,
     tag_name: tagName, // todo odd that this is required according to the docs, need to verify
     target_commitish: targetCommitish,
     name: name,
-    draft: true,
-    generate_release_notes: true
-  })
-
-  return mapRelease(response.data)
+    body: body ?? undefined,
+    draft: draft,
+    prerelease: prerelease,
+    generate_release_notes: body === null
+  }
 }
 
 /**
  * Updates an existing release with the values from the provided Release instance.
  */
 export async function updateRelease(context: Context, release: Release): Promise<Release> {
-  const params: UpdateReleaseRequest = {
+  const response = await context.octokit.rest.repos.updateRelease(updateReleaseRequest(context, release))
+  return mapRelease(response.data)
+}
+
+/**
+ * The request made to update a release to the values of the provided Release instance.
+ * Also used to report the request without making it, such as for a dry run.
+ */
+export function updateReleaseRequest(context: Context, release: Release): UpdateReleaseRequest {
+  return {
     owner: context.owner,
     repo: context.repo,
     release_id: release.id,
@@ -58,8 +117,17 @@ export async function updateRelease(context: Context, release: Release): Promise
     draft: release.draft,
     prerelease: release.prerelease
   }
-  const response = await context.octokit.rest.repos.updateRelease(params)
-  return mapRelease(response.data)
+}
+
+/**
+ * Deletes a release, leaving its tag in place.
+ */
+export async function deleteRelease(context: Context, releaseId: number): Promise<void> {
+  await context.octokit.rest.repos.deleteRelease({
+    owner: context.owner,
+    repo: context.repo,
+    release_id: releaseId
+  })
 }
 
 /**
@@ -74,6 +142,7 @@ function mapRelease(releaseData: CreateReleaseData | UpdateReleaseData): Release
     body: releaseData.body,
     publishedAt: releaseData.published_at ? new Date(releaseData.published_at) : null,
     draft: releaseData.draft,
-    prerelease: releaseData.prerelease
+    prerelease: releaseData.prerelease,
+    htmlUrl: releaseData.html_url
   }
 }
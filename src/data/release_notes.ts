@@ -1,5 +1,5 @@
 import type { RestEndpointMethodTypes } from "@octokit/plugin-rest-endpoint-methods"
-import type { Context } from "@/context"
+import { type Context, warn } from "@/context"
 
 type ReleaseNotesRequest = RestEndpointMethodTypes["repos"]["generateReleaseNotes"]["parameters"]
 
@@ -12,14 +12,15 @@ type ReleaseNotesRequest = RestEndpointMethodTypes["repos"]["generateReleaseNote
  * @param targetCommitish The commitish value that will be the target for the release's tag
  * @param previousTagName The name of the previous tag to use as the starting point for the release
  * notes. If no previous release (null), delegate implying last release to GitHub.
- * @returns The generated release notes body as a string.
+ * @returns The generated release notes body as a string, or null with a warning if generating release notes
+ * is not supported, such as by older GitHub Enterprise Server versions.
  */
 export async function generateReleaseNotes(
   context: Context,
   tagName: string,
   targetCommitish: string,
   previousTagName: string | null
-): Promise<string> {
+): Promise<string | null> {
   const params: ReleaseNotesRequest = {
     owner: context.owner,
     repo: context.repo,
@@ -31,7 +32,27 @@ export async function generateReleaseNotes(
     params.previous_tag_name = previousTagName
   }
 
-  const response = await context.octokit.rest.repos.generateReleaseNotes(params)
+  try {
+    const response = await context.octokit.rest.repos.generateReleaseNotes(params)
+    return response.data.body
+  } catch (error: unknown) {
+    const enterpriseVersion = findUnsupportedEnterpriseVersion(error)
+    if (enterpriseVersion !== null) {
+      warn(
+        context,
+        `Release notes could not be generated for ${tagName} as not supported by GitHub Enterprise Server ${enterpriseVersion}`
+      )
+      return null
+    }
+    throw error
+  }
+}
 
-  return response.data.body
+/**
+ * The version of GitHub Enterprise Server when the error is that the endpoint does not exist, as for older
+ * versions, or otherwise null, such as when the repository does not exist on github.com.
+ */
+function findUnsupportedEnterpriseVersion(error: unknown): string | null {
+  const { status, response } = error as { status?: number; response?: { headers?: Record<string, string> } }
+  return status === 404 ? (response?.headers?.["x-github-enterprise-version"] ?? null) : null
 }
@@ -5,6 +5,7 @@ import { CachingAsyncIterable } from "@/util/caching-async-iterable"
 
 const DEFAULT_PER_PAGE = 30
 const MAX_PAGES = 5
+const MAX_RELEASES = DEFAULT_PER_PAGE * MAX_PAGES
 
 /**
  * Represents a collection of GitHub Releases with methods to find specific releases.
@@ -27,10 +28,24 @@ export class Releases implements AsyncIterable<Release> {
   /**
    * Find the last draft release for the given target commitish.
    * Note that this doesn't bother checking against `maxReleases` as few draft releases are expected.
+   *
+   * @param tagPrefix Only consider drafts with a name starting with this prefix, such as `api-v` for a
+   * monorepo component, as drafts are named after their tag, which does not exist until published.
+   * @param prerelease Whether to find a prerelease draft, such as of a prerelease channel, instead of a
+   * regular draft.
    */
-  async findLastDraft(targetCommitish: string): Promise<Release | null> {
+  async findLastDraft(
+    targetCommitish: string,
+    tagPrefix: string | null = null,
+    prerelease: boolean = false
+  ): Promise<Release | null> {
     for await (const release of this.source) {
-      if (release.draft && !release.prerelease && release.targetCommitish === targetCommitish) {
+      if (
+        release.draft &&
+        release.prerelease === prerelease &&
+        release.targetCommitish === targetCommitish &&
+        hasPrefix(release.name, tagPrefix)
+      ) {
         return release
       } else if (!release.draft) {
         // Draft releases are expected first so we can stop searching
@@ -40,10 +55,44 @@ export class Releases implements AsyncIterable<Release> {
     return null
   }
 
-  async findLast(targetCommitish: string): Promise<Release | null> {
-    return this.find(
-      (release) => !release.draft && !release.prerelease && release.targetCommitish === targetCommitish
-    )
+  /**
+   * Find the last published release for the given target commitish.
+   *
+   * @param tagPrefix Only consider releases with a tag starting with this prefix, such as `api-v` for a
+   * monorepo component.
+   * @param onSkipped Called for each release checked before the last release, with why it was skipped.
+   */
+  async findLast(
+    targetCommitish: string,
+    tagPrefix: string | null = null,
+    onSkipped: (release: Release, reason: ReleaseSkipReason) => void = () => {}
+  ): Promise<Release | null> {
+    return this.find((release) => {
+      const reason = findSkipReason(release, targetCommitish, tagPrefix)
+      if (reason !== null) {
+        onSkipped(release, reason)
+      }
+      return reason === null
+    })
+  }
+
+  /**
+   * Find the published prereleases, on any target commitish, in the order listed.
+   * Like `find`, stops searching after `maxReleases` has been checked.
+   */
+  async findPrereleases(): Promise<Release[]> {
+    const prereleases: Release[] = []
+    let count = 0
+    for await (const release of this.source) {
+      if (!release.draft && release.prerelease) {
+        prereleases.push(release)
+      }
+      count++
+      if (count >= this.maxReleases) {
+        break
+      }
+    }
+    return prereleases
   }
 
   /**
@@ -67,11 +116,41 @@ export class Releases implements AsyncIterable<Release> {
   }
 }
 
+/**
+ * Why a release is not the last release of a target commitish:
+ * - `draft`: Not yet published.
+ * - `prerelease`: Published as a prerelease.
+ * - `target-commitish`: Released from another branch.
+ * - `tag-prefix`: Tagged for another component or tag template.
+ */
+export type ReleaseSkipReason = "draft" | "prerelease" | "target-commitish" | "tag-prefix"
+
+function findSkipReason(
+  release: Release,
+  targetCommitish: string,
+  tagPrefix: string | null
+): ReleaseSkipReason | null {
+  if (release.draft) {
+    return "draft"
+  } else if (release.prerelease) {
+    return "prerelease"
+  } else if (release.targetCommitish !== targetCommitish) {
+    return "target-commitish"
+  } else if (!hasPrefix(release.tagName, tagPrefix)) {
+    return "tag-prefix"
+  }
+  return null
+}
+
+function hasPrefix(value: string | null, prefix: string | null): boolean {
+  return prefix === null || (value?.startsWith(prefix) ?? false)
+}
+
 /**
  * Fetch GitHub releases lazily with pagination, only fetching more pages when needed.
  */
 export function fetchReleases(context: Context, perPage?: number): Releases {
-  const maxReleases = (perPage ?? DEFAULT_PER_PAGE) * MAX_PAGES
+  const maxReleases = perPage ? perPage * MAX_PAGES : MAX_RELEASES
 
   return new Releases(new CachingAsyncIterable(createReleasesGenerator(context, perPage)), maxReleases)
 }
@@ -90,8 +169,37 @@ async function* createReleasesGenerator(context: Context, perPage?: number): Asy
   }
 }
 
+/**
+ * Lists the releases of REST API responses already fetched, such as recorded in a snapshot, in the same way
+ * as `fetchReleases`.
+ */
+export function listReleases(releases: ReleaseData[]): Releases {
+  return new Releases(new CachingAsyncIterable(createListGenerator(releases)), MAX_RELEASES)
+}
+
+async function* createListGenerator(releases: ReleaseData[]): AsyncGenerator<Release> {
+  for (const release of releases) {
+    yield mapRelease(release)
+  }
+}
+
 type ReleasesResponse = RestEndpointMethodTypes["repos"]["listReleases"]["response"]
-type ReleaseData = ReleasesResponse["data"][number]
+
+/**
+ * The fields of a REST API release used by our Release interface.
+ */
+type ReleaseData = Pick<
+  ReleasesResponse["data"][number],
+  | "id"
+  | "tag_name"
+  | "target_commitish"
+  | "name"
+  | "body"
+  | "published_at"
+  | "draft"
+  | "prerelease"
+  | "html_url"
+>
 
 /**
  * Maps a GitHub API release response to our Release interface
@@ -105,6 +213,7 @@ function mapRelease(releaseData: ReleaseData): Release {
     body: releaseData.body,
     publishedAt: releaseData.published_at ? new Date(releaseData.published_at) : null,
     draft: releaseData.draft,
-    prerelease: releaseData.prerelease
+    prerelease: releaseData.prerelease,
+    htmlUrl: releaseData.html_url
   }
 }
@@ -0,0 +1,162 @@
+import type { Context } from "@/context"
+import {
+  type FetchPullRequestsParams,
+  fetchPullRequests,
+  type PullRequest,
+  PullRequests
+} from "@/data/pull-requests"
+import {
+  createDraftRelease,
+  createPublishedRelease,
+  deleteRelease,
+  type Release,
+  updateRelease
+} from "@/data/release"
+import { generateReleaseNotes } from "@/data/release_notes"
+import { fetchReleases, type Releases } from "@/data/releases"
+import { createTag, deleteTag, fetchTagCommit, fetchTagsForCommit } from "@/data/tags"
+import { CachingAsyncIterable } from "@/util/caching-async-iterable"
+
+/**
+ * The releases and tags of the repository, as used by `core.ts`, so that alternative backends can be used
+ * in place of the GitHub API.
+ */
+export interface ReleaseRepository {
+  /** The releases, drafts first then most recent first, fetched lazily as they are iterated. */
+  fetchReleases(): Releases
+  /** Creates a draft release with generated release notes. */
+  createDraftRelease(
+    tagName: string,
+    targetCommitish: string,
+    name: string,
+    prerelease: boolean
+  ): Promise<Release>
+  /** Creates a published release with generated release notes, unless a body is given, tagging the target. */
+  createPublishedRelease(
+    tagName: string,
+    targetCommitish: string,
+    name: string,
+    prerelease: boolean,
+    body: string | null
+  ): Promise<Release>
+  updateRelease(release: Release): Promise<Release>
+  deleteRelease(releaseId: number): Promise<void>
+  /**
+   * Generates the release notes of the changes since the previous tag, or since the last release if null.
+   * Resolves to null if not supported, where the release notes are left as they are.
+   */
+  generateReleaseNotes(
+    tagName: string,
+    targetCommitish: string,
+    previousTagName: string | null
+  ): Promise<string | null>
+  /** The names of the recent tags of the commit. */
+  fetchTagsForCommit(sha: string): Promise<string[]>
+  /** The commit of the tag, or null if the tag does not exist. */
+  fetchTagCommit(tagName: string): Promise<string | null>
+  createTag(tagName: string, sha: string): Promise<void>
+  deleteTag(tagName: string): Promise<void>
+}
+
+/**
+ * The pull requests of the repository, as used by `core.ts`.
+ */
+export interface PullRequestSource {
+  /** The incoming or outgoing pull requests of a branch, most recently updated first, fetched lazily. */
+  fetchPullRequests(params: FetchPullRequestsParams): PullRequests
+}
+
+/**
+ * The release repository of the context, defaulting to the GitHub API through `context.octokit`.
+ */
+export function releaseRepository(context: Context): ReleaseRepository {
+  return context.releaseRepository ?? octokitReleaseRepository(context)
+}
+
+/**
+ * The pull request source of the context, defaulting to the GitHub API through `context.octokit`.
+ */
+export function pullRequestSource(context: Context): PullRequestSource {
+  return context.pullRequestSource ?? octokitPullRequestSource(context)
+}
+
+/**
+ * Shares the releases fetched by the repository between callers, such as the components of a monorepo.
+ * The releases are not fetched again after changes, so this suits callers that only read the releases
+ * they change themselves, as each component does with the releases of its tag prefix.
+ */
+export function sharedReleaseRepository(repository: ReleaseRepository): ReleaseRepository {
+  let releases: Releases | null = null
+  return {
+    ...repository,
+    fetchReleases: () => {
+      releases ??= repository.fetchReleases()
+      return releases
+    }
+  }
+}
+
+/**
+ * Shares the pull requests fetched by the source between callers, such as the components of a monorepo.
+ * Incoming PRs are fetched once for all the merge dates, each caller stopping at its own `mergedSince`,
+ * and PRs fetched with their files are also shared with callers not needing the files.
+ */
+export function sharedPullRequestSource(source: PullRequestSource): PullRequestSource {
+  const fetched = new Map<string, { withFiles: boolean; pullRequests: CachingAsyncIterable<PullRequest> }>()
+  return {
+    fetchPullRequests: (params) => {
+      const shared = params.type === "incoming" ? { ...params, mergedSince: null } : params
+      const key = JSON.stringify({ ...shared, withFiles: undefined })
+      let entry = fetched.get(key)
+      if (!entry || (params.withFiles && !entry.withFiles)) {
+        const pullRequests = source.fetchPullRequests(shared)[Symbol.asyncIterator]()
+        entry = { withFiles: params.withFiles ?? false, pullRequests: new CachingAsyncIterable(pullRequests) }
+        fetched.set(key, entry)
+      }
+      return new PullRequests(
+        params.type === "incoming"
+          ? takeMergedSince(entry.pullRequests, params.mergedSince)
+          : entry.pullRequests
+      )
+    }
+  }
+}
+
+/**
+ * The PRs until the first one merged before the date, as PRs are ordered by most recently updated first.
+ */
+async function* takeMergedSince(
+  source: AsyncIterable<PullRequest>,
+  mergedSince: Date | null
+): AsyncGenerator<PullRequest, void, undefined> {
+  for await (const pr of source) {
+    if (pr.mergedAt != null && mergedSince && pr.mergedAt < mergedSince) {
+      return
+    }
+    yield pr
+  }
+}
+
+export function octokitReleaseRepository(context: Context): ReleaseRepository {
+  return {
+    fetchReleases: () => fetchReleases(context),
+    createDraftRelease: (tagName, targetCommitish, name, prerelease) =>
+      createDraftRelease(context, tagName, targetCommitish, name, prerelease),
+    createPublishedRelease: (tagName, targetCommitish, name, prerelease, body) =>
+      createPublishedRelease(context, tagName, targetCommitish, name, prerelease, body),
+    updateRelease: (release) => updateRelease(context, release),
+    deleteRelease: (releaseId) => deleteRelease(context, releaseId),
+    generateReleaseNotes: (tagName, targetCommitish, previousTagName) =>
+      generateReleaseNotes(context, tagName, targetCommitish, previousTagName),
+    fetchTagsForCommit: (sha) => fetchTagsForCommit(context, sha),
+    fetchTagCommit: (tagName) => fetchTagCommit(context, tagName),
+    createTag: (tagName, sha) => createTag(context, tagName, sha),
+    deleteTag: (tagName) => deleteTag(context, tagName)
+  }
+}
+
+export function octokitPullRequestSource(context: Context): PullRequestSource {
+  return {
+    fetchPullRequests: (params) => fetchPullRequests(context, params)
+  }
+}
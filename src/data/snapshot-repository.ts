@@ -0,0 +1,44 @@
+import { listPullRequests } from "@/data/pull-requests"
+import { listReleases } from "@/data/releases"
+import type { PullRequestSource, ReleaseRepository } from "@/data/repository"
+import type { Snapshot } from "@/data/snapshot"
+import { commitOf } from "@/data/tags"
+
+/**
+ * The releases and tags of a snapshot, to reproduce a run without network access.
+ *
+ * Release notes are served as recorded, or as a placeholder when not recorded. Changes fail, as nothing is
+ * changed when replaying.
+ */
+export function snapshotReleaseRepository(snapshot: Snapshot): ReleaseRepository {
+  return {
+    fetchReleases: () => listReleases(snapshot.releases),
+    createDraftRelease: (tagName) => notReplayable(`create the release ${tagName}`),
+    createPublishedRelease: (tagName) => notReplayable(`create the release ${tagName}`),
+    updateRelease: (release) => notReplayable(`update the release ${release.id}`),
+    deleteRelease: (releaseId) => notReplayable(`delete the release ${releaseId}`),
+    generateReleaseNotes: async (tagName) =>
+      snapshot.releaseNotes[tagName] ?? `Release notes for ${tagName} were not recorded.`,
+    fetchTagsForCommit: async (sha) =>
+      snapshot.tags.filter((tag) => commitOf(tag) === sha).map((tag) => tag.name),
+    fetchTagCommit: async (tagName) => {
+      const tag = snapshot.tags.find((tag) => tag.name === tagName)
+      return tag ? commitOf(tag) : null
+    },
+    createTag: (tagName) => notReplayable(`create the tag ${tagName}`),
+    deleteTag: (tagName) => notReplayable(`delete the tag ${tagName}`)
+  }
+}
+
+/**
+ * The pull requests of a snapshot, to reproduce a run without network access.
+ */
+export function snapshotPullRequestSource(snapshot: Snapshot): PullRequestSource {
+  return {
+    fetchPullRequests: (params) => listPullRequests(snapshot.pullRequests, params)
+  }
+}
+
+async function notReplayable(action: string): Promise<never> {
+  throw new Error(`Unable to ${action} when replaying a snapshot`)
+}
@@ -0,0 +1,110 @@
+/**
+ * A snapshot of the repository data used by a run, in the shape of the GitHub API responses, recorded by
+ * `createRecordingFetch` and replayed by `snapshotReleaseRepository` and `snapshotPullRequestSource` to
+ * reproduce the run without network access.
+ */
+export interface Snapshot {
+  /** The repository and branch of the recorded run, used by default when replaying. */
+  owner: string
+  repo: string
+  branch: string
+  /**
+   * The options of the recorded run, by command line option name such as `tag-template`, used by default when
+   * replaying so that the version is decided in the same way.
+   */
+  options: SnapshotOptions
+  /** The releases in the order listed by the REST API, most recent first. */
+  releases: SnapshotRelease[]
+  /** The pull requests in the order listed by the GraphQL API, most recently updated first. */
+  pullRequests: SnapshotPullRequest[]
+  /** The tags, most recent commit first. */
+  tags: SnapshotTag[]
+  /** The generated release notes body by tag name. */
+  releaseNotes: Record<string, string>
+}
+
+export type SnapshotOptions = Record<string, string | boolean | (string | boolean)[]>
+
+/**
+ * The fields of a REST API release used by `fetchReleases`.
+ */
+export interface SnapshotRelease {
+  id: number
+  tag_name: string
+  target_commitish: string
+  name: string | null
+  body: string | null
+  published_at: string | null
+  draft: boolean
+  prerelease: boolean
+  html_url: string
+}
+
+/**
+ * A GraphQL API pull request, with the head branch when recorded for outgoing pull requests.
+ */
+export interface SnapshotPullRequest {
+  title: string
+  number: number
+  baseRefName: string
+  headRefName?: string
+  state: string
+  mergedAt: string | null
+  labels: { nodes: { name: string }[] }
+  files?: { nodes: { path: string }[] }
+}
+
+/**
+ * A GraphQL API tag ref, where annotated tags target a tag object pointing at the commit.
+ */
+export interface SnapshotTag {
+  name: string
+  target: { oid: string; target?: { oid: string } }
+}
+
+export function emptySnapshot(owner: string, repo: string, branch: string): Snapshot {
+  return {
+    owner: owner,
+    repo: repo,
+    branch: branch,
+    options: {},
+    releases: [],
+    pullRequests: [],
+    tags: [],
+    releaseNotes: {}
+  }
+}
+
+/**
+ * Parses a snapshot from JSON, as written by `formatSnapshot`, where only the collections are required so
+ * that hand-written snapshots can be minimal.
+ *
+ * @throws {Error} If the JSON is invalid or not a snapshot
+ */
+export function parseSnapshot(json: string): Snapshot {
+  let value: Partial<Snapshot>
+  try {
+    value = JSON.parse(json)
+  } catch (error: unknown) {
+    throw new Error(`Invalid snapshot: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("Invalid snapshot: expected a JSON object")
+  }
+  for (const key of ["releases", "pullRequests", "tags"] as const) {
+    if (value[key] !== undefined && !Array.isArray(value[key])) {
+      throw new Error(`Invalid snapshot: expected ${key} to be an array`)
+    }
+  }
+  if (value.options !== undefined && (typeof value.options !== "object" || Array.isArray(value.options))) {
+    throw new Error("Invalid snapshot: expected options to be an object")
+  }
+  return {
+    ...emptySnapshot(value.owner ?? "", value.repo ?? "", value.branch ?? ""),
+    ...value
+  }
+}
+
+export function formatSnapshot(snapshot: Snapshot): string {
+  return `${JSON.stringify(snapshot, null, 2)}\n`
+}
@@ -0,0 +1,153 @@
+import type { Context } from "@/context"
+
+const MAX_TAGS = 100
+
+// See: https://docs.github.com/en/graphql/reference/objects#ref
+const tagsQuery = `
+query Tags($owner: String!, $repo: String!, $maxTags: Int!) {
+  rateLimit {
+    cost
+  }
+  repository(owner: $owner, name: $repo) {
+    refs(
+      refPrefix: "refs/tags/"
+      orderBy: { field: TAG_COMMIT_DATE, direction: DESC }
+      first: $maxTags
+    ) {
+      nodes {
+        name
+        target {
+          oid
+          ... on Tag {
+            target {
+              oid
+            }
+          }
+        }
+      }
+    }
+  }
+}
+`
+
+// See: https://docs.github.com/en/graphql/reference/objects#repository
+const tagQuery = `
+query Tag($owner: String!, $repo: String!, $qualifiedName: String!) {
+  rateLimit {
+    cost
+  }
+  repository(owner: $owner, name: $repo) {
+    ref(qualifiedName: $qualifiedName) {
+      name
+      target {
+        oid
+        ... on Tag {
+          target {
+            oid
+          }
+        }
+      }
+    }
+  }
+}
+`
+
+/**
+ * Fetches the names of the tags pointing at a commit, whether lightweight or annotated tags.
+ *
+ * To keep to a single API call, only the most recent tags by commit date are considered, which is
+ * expected to include any tags of the commit being built.
+ *
+ * @param context The GitHub context containing octokit, owner, and repo
+ * @param sha The full commit SHA
+ * @returns The tag names without the `refs/tags/` prefix, in most recent commit order
+ */
+export async function fetchTagsForCommit(context: Context, sha: string): Promise<string[]> {
+  const response: TagsQueryResponse = await context.octokit.graphql<TagsQueryResponse>(tagsQuery, {
+    owner: context.owner,
+    repo: context.repo,
+    maxTags: MAX_TAGS
+  })
+
+  return response.repository.refs.nodes.filter((tag) => commitOf(tag) === sha).map((tag) => tag.name)
+}
+
+/**
+ * Fetches the commit a tag points at, whether a lightweight or annotated tag.
+ *
+ * @param context The GitHub context containing octokit, owner, and repo
+ * @param tagName The tag name without the `refs/tags/` prefix
+ * @returns The full commit SHA, or null if the tag does not exist
+ */
+export async function fetchTagCommit(context: Context, tagName: string): Promise<string | null> {
+  const response: TagQueryResponse = await context.octokit.graphql<TagQueryResponse>(tagQuery, {
+    owner: context.owner,
+    repo: context.repo,
+    qualifiedName: `refs/tags/${tagName}`
+  })
+
+  const tag = response.repository.ref
+  return tag ? commitOf(tag) : null
+}
+
+/**
+ * Creates a lightweight tag pointing at a commit.
+ *
+ * @param context The GitHub context containing octokit, owner, and repo
+ * @param tagName The tag name without the `refs/tags/` prefix
+ * @param sha The full commit SHA
+ */
+export async function createTag(context: Context, tagName: string, sha: string): Promise<void> {
+  await context.octokit.rest.git.createRef({
+    owner: context.owner,
+    repo: context.repo,
+    ref: `refs/tags/${tagName}`,
+    sha: sha
+  })
+}
+
+/**
+ * Deletes a tag, such as one created for a release that failed to be created.
+ *
+ * @param context The GitHub context containing octokit, owner, and repo
+ * @param tagName The tag name without the `refs/tags/` prefix
+ */
+export async function deleteTag(context: Context, tagName: string): Promise<void> {
+  await context.octokit.rest.git.deleteRef({
+    owner: context.owner,
+    repo: context.repo,
+    ref: `tags/${tagName}`
+  })
+}
+
+interface TagQueryResponse {
+  repository: {
+    ref: TagNode | null
+  }
+}
+
+interface TagsQueryResponse {
+  repository: {
+    refs: {
+      nodes: TagNode[]
+    }
+  }
+}
+
+interface TagNode {
+  name: string
+  target: {
+    oid: string
+    /** Only present for annotated tags, where the target is a tag object pointing at the commit. */
+    target?: {
+      oid: string
+    }
+  }
+}
+
+/**
+ * The commit of a GraphQL API tag ref, such as recorded in a snapshot, whether a lightweight or annotated tag.
+ */
+export function commitOf(tag: TagNode): string {
+  return tag.target.target?.oid ?? tag.target.oid
+}
@@ -1,6 +1,57 @@
-import { getInput, getMultilineInput, info, setFailed, setOutput } from "@/actions-core/core"
-import { createContext } from "@/context"
-import { performAction, type UpsertedReleaseResult, type VersionInferenceResult } from "@/core"
+import {
+  endGroup,
+  getBooleanInput,
+  getInput,
+  getMultilineInput,
+  info,
+  setFailed,
+  setOutput,
+  startGroup,
+  warning
+} from "@/actions-core/core"
+import { link, SUMMARY_ENV_VAR, type SummaryTableRow, summary } from "@/actions-core/summary"
+import { findApiUsage, formatApiUsage } from "@/api-usage"
+import { type Context, createContext } from "@/context"
+import {
+  type ActionOptions,
+  type ComponentResult,
+  type DryRunResult,
+  findReleaseBranchPattern,
+  type PromotedPrerelease,
+  type PromotedReleaseResult,
+  type PromotionDryRunResult,
+  performAction,
+  performComponentActions,
+  promotedPrereleases,
+  promoteRelease,
+  type ReleaseMode,
+  releaseModes,
+  type UpsertedReleaseResult,
+  type UpsertResult,
+  type VersionInferenceResult
+} from "@/core"
+import type { Release } from "@/data/release"
+import { findRateLimits, formatRateLimit } from "@/rate-limit"
+import { formatPayloadDiff } from "@/util/payload-diff"
+import { type Component, parseComponents } from "@/versioning/component"
+import { defaultTypeImpacts } from "@/versioning/conventional-commits"
+import { findPrereleaseChannel, parsePrereleaseChannels } from "@/versioning/prerelease-channel"
+import {
+  formatImpactMapping,
+  formatVersionIncrement,
+  type ImpactMapping,
+  parseImpactMapping,
+  validateNameTemplate,
+  validateTagTemplate
+} from "@/versioning/version"
+import {
+  defaultLabelImpacts,
+  describeNonConventionalTitle,
+  findNonConventionalTitles,
+  formatPullRequestImpact,
+  type PullRequestImpact
+} from "@/versioning/version-bump-inference"
+import { parseVersionScheme } from "@/versioning/version-scheme"
 
 export async function main() {
   try {
@@ -18,43 +69,387 @@ async function run() {
   const defaultTag = getInput("default-tag")
   const targetBranch = getInput("target-branch")
   const releaseBranches = getMultilineInput("release-branches")
-  const context = createContext(targetBranch, releaseBranches)
-  const result = await performAction(context, defaultTag)
+  const prereleaseChannels = parsePrereleaseChannels(getMultilineInput("prerelease-branches"))
+  const mode = getMode()
+  const initialDevelopment = getOptionalBooleanInput("initial-development")
+  const strict = getOptionalBooleanInput("strict")
+  const version = getInput("version") || undefined
+  const force = getOptionalBooleanInput("force")
+  const dryRun = getOptionalBooleanInput("dry-run")
+  const tagTemplate = getTemplateInput("tag-template", validateTagTemplate)
+  const nameTemplate = getTemplateInput("name-template", validateNameTemplate)
+  const versionScheme = parseVersionScheme(getInput("version-scheme") || "semver")
+  const typeImpacts = { ...defaultTypeImpacts, ...getImpactMappingInput("type-impacts") }
+  const labelImpacts = getImpactMappingInput("label-impacts") ?? defaultLabelImpacts
+  const context = createContext(targetBranch, releaseBranches, {
+    apiUrl: getInput("api-url"),
+    graphqlUrl: getInput("graphql-url"),
+    appId: getInput("app-id"),
+    privateKey: getInput("private-key"),
+    proxyUrl: getInput("proxy-url")
+  })
+  try {
+    info(`Release Branch Pattern: ${findReleaseBranchPattern(context) ?? "(none)"}`)
+    info(
+      `Prerelease Channel: ${findPrereleaseChannel(context.branch, prereleaseChannels)?.identifier ?? "(none)"}`
+    )
+    info(`Version Scheme: ${versionScheme.name}`)
+    info(`Type Impacts: ${formatImpactMapping(typeImpacts)}`)
+    info(`Label Impacts: ${formatImpactMapping(labelImpacts)}`)
+    if (dryRun) {
+      info("Dry Run: no release will be created or updated")
+    }
+
+    const components = parseComponents(getMultilineInput("components"))
+    const options: ActionOptions = {
+      mode: mode,
+      initialDevelopment: initialDevelopment,
+      strict: strict,
+      version: version,
+      force: force,
+      tagTemplate: tagTemplate,
+      nameTemplate: nameTemplate,
+      versionScheme: versionScheme,
+      prereleaseChannels: prereleaseChannels,
+      dryRun: dryRun,
+      typeImpacts: typeImpacts,
+      labelImpacts: labelImpacts
+    }
+
+    const promote = getInput("promote")
+    if (promote) {
+      const result = await promoteRelease(context, promote, {
+        ...options,
+        component: findPromotedComponent(promote, components),
+        promotedPrerelease: getPromotedPrerelease()
+      })
+      reportPromotion(result)
+      outputPromotion(result)
+      await writePromotionSummary(result)
+    } else if (components.length === 0) {
+      const result = await performAction(context, defaultTag, options)
+      reportResult(result, typeImpacts)
+      outputResult(result)
+      await writeSummary(result)
+    } else {
+      const results = await performComponentActions(context, defaultTag, components, options)
+      for (const { component, result } of results) {
+        startGroup(`Component: ${component.name}`)
+        reportResult(result, typeImpacts)
+        endGroup()
+      }
+      // The single result outputs are only unambiguous with a single component
+      if (results.length === 1) {
+        outputResult(results[0].result)
+      }
+      outputComponents(results)
+      for (const { component, result } of results) {
+        await writeSummary(result, component.name)
+      }
+    }
+  } finally {
+    logApiUsage(context)
+    logRateLimits(context)
+  }
+}
+
+/**
+ * Logs the GitHub API calls made by the run, by endpoint.
+ */
+function logApiUsage(context: Context) {
+  const usage = findApiUsage(context.octokit)
+  if (usage) {
+    info(`API Usage:\n${formatApiUsage(usage)}`)
+  }
+}
 
+/**
+ * Logs the remaining API quota, as used by this run and anything else using the same token.
+ */
+function logRateLimits(context: Context) {
+  const rateLimits = findRateLimits(context.octokit)
+  info(`Rate Limit: ${rateLimits.length > 0 ? rateLimits.map(formatRateLimit).join("; ") : "(unknown)"}`)
+}
+
+/**
+ * Logs the result, annotating any non-conventional PR titles.
+ */
+function reportResult(result: UpsertResult, typeImpacts: ImpactMapping) {
   info(`Action Taken: ${result.action}`)
-  setOutput("action", result.action)
 
-  if (result.action === "version") {
+  if (result.action !== "none") {
+    warnNonConventionalTitles(result.pullRequestImpacts, typeImpacts)
+  }
+
+  if (result.action === "version" && result.lastRelease?.tagName === result.version.releaseTag) {
+    info("\nRelease branch: Version tag already released")
+    logResults(result)
+  } else if (result.action === "version") {
     info("\nFeature branch: Version inference only")
     logResults(result)
-    outputVersions(result)
   } else if (result.action === "none") {
     info("\nRelease branch: Full release management")
     info("No outstanding PRs found, so a draft release was neither created nor updated")
+  } else if ("request" in result) {
+    info("\nRelease branch: Dry run, so no release was created or updated")
+
+    logResults(result)
+    info(`Current Draft: ${result.lastDraft?.name ?? "(none)"}`)
+    info(`Release Request:\n${formatPayloadDiff(result.currentRequest, result.request)}`)
+  } else if (result.action === "published") {
+    info("\nRelease branch: Managed release")
+
+    logResults(result)
+    info(`Promoted Draft: ${result.lastDraft?.name ?? "(none)"}`)
+    info(`Published Release: ${result.release.name}\n${result.release.body}`)
   } else {
     info("\nRelease branch: Full release management")
 
     logResults(result)
     info(`Current Draft: ${result.lastDraft?.name ?? "(none)"}`)
     info(`Updated Draft: ${result.release.name}\n${result.release.body}`)
+  }
+}
 
+function outputResult(result: UpsertResult) {
+  setOutput("action", result.action)
+  if (result.action !== "none") {
     outputVersions(result)
+  }
+  if ("release" in result) {
+    setOutput("release-id", result.release.id)
+  }
+}
+
+/**
+ * The component of the prerelease tag to promote, as the version alone does not identify the component.
+ */
+function findPromotedComponent(promote: string, components: Component[]): Component | undefined {
+  if (components.length === 0) {
+    return undefined
+  }
+  const component = components.find((component) => promote.startsWith(`${component.name}-`))
+  if (!component) {
+    throw new Error(
+      `Invalid promote: ${promote}. Expected the tag of a component prerelease, such as api-v2.0.0-rc.1`
+    )
+  }
+  return component
+}
+
+function getPromotedPrerelease(): PromotedPrerelease {
+  const promotedPrerelease = getInput("promoted-prerelease") || "keep"
+  if (!promotedPrereleases.includes(promotedPrerelease as PromotedPrerelease)) {
+    throw new Error(
+      `Invalid promoted-prerelease: ${promotedPrerelease}. Expected one of: ${promotedPrereleases.join(", ")}`
+    )
+  }
+  return promotedPrerelease as PromotedPrerelease
+}
+
+function reportPromotion(result: PromotedReleaseResult | PromotionDryRunResult) {
+  info(`Action Taken: ${result.action}`)
+  info(`Prerelease: ${result.prerelease.name} (${result.promotedPrerelease})`)
+  info(`Last Release: ${result.lastRelease?.name ?? "(none)"}`)
+  info(`Next Version: ${result.version.core} (${result.version})`)
+  if ("release" in result) {
+    info(`Published Release: ${result.release.name}\n${result.release.body}`)
+  } else {
+    info(`Tag Commit: ${result.sha}`)
+    info(`Release Request:\n${formatPayloadDiff(null, result.request)}`)
+  }
+}
+
+function outputPromotion(result: PromotedReleaseResult | PromotionDryRunResult) {
+  setOutput("action", result.action)
+  if (result.lastVersion) {
+    setOutput("last-version", result.lastVersion.toString())
+  }
+  setOutput("next-version", result.version.core)
+  setOutput("next-version-full", result.version.toString())
+  if ("release" in result) {
     setOutput("release-id", result.release.id)
   }
 }
 
-function logResults(result: VersionInferenceResult | UpsertedReleaseResult) {
+function getMode(): ReleaseMode {
+  const mode = getInput("mode") || "continuous"
+  if (!releaseModes.includes(mode as ReleaseMode)) {
+    throw new Error(`Invalid mode: ${mode}. Expected one of: ${releaseModes.join(", ")}`)
+  }
+  return mode as ReleaseMode
+}
+
+/**
+ * Reads a boolean input, treating it as false when not provided.
+ */
+function getOptionalBooleanInput(name: string): boolean {
+  return getInput(name) !== "" && getBooleanInput(name)
+}
+
+/**
+ * Reads a template input, or undefined when not provided so that the default applies.
+ */
+function getTemplateInput(name: string, validate: (template: string) => string): string | undefined {
+  const template = getInput(name)
+  return template === "" ? undefined : validate(template)
+}
+
+/**
+ * Reads an impact mapping input, or undefined when not provided so that the default applies.
+ */
+function getImpactMappingInput(name: string): ImpactMapping | undefined {
+  const lines = getMultilineInput(name)
+  return lines.length === 0 ? undefined : parseImpactMapping(lines)
+}
+
+/**
+ * Annotates each PR title that is not a conventional commit, as it implies no version increment from the
+ * title, which is often unintentional.
+ */
+function warnNonConventionalTitles(impacts: PullRequestImpact[], typeImpacts: ImpactMapping) {
+  for (const pr of findNonConventionalTitles(impacts)) {
+    warning(describeNonConventionalTitle(pr, { typeImpacts: typeImpacts }), {
+      title: "Non-conventional pull request title"
+    })
+  }
+}
+
+function logResults(result: VersionInferenceResult | UpsertedReleaseResult | DryRunResult) {
   info(`Last Release: ${result.lastRelease?.name ?? "(none)"}`)
-  info(`Pull Requests: \n${result.pullRequestTitles.map((pr) => `  ${pr}`).join("\n")}`)
+  info(
+    `Pull Requests: \n${result.pullRequestImpacts.map((pr) => `  ${formatPullRequestImpact(pr)}`).join("\n")}`
+  )
   info(`Last Version: ${result.lastVersion?.toString() ?? "(none)"}`)
-  info(`Version Increment: ${result.versionIncrement}`)
+  info(`Version Increment: ${formatVersionIncrement(result.versionIncrement, result.inferredIncrement)}`)
+  info(`Version Source: ${result.versionSource}`)
   info(`Next Version: ${result.version.core} (${result.version})`)
 }
 
-function outputVersions(result: VersionInferenceResult | UpsertedReleaseResult) {
+/**
+ * Writes a job summary report of the run, if supported by the runtime environment.
+ */
+async function writeSummary(result: UpsertResult, component?: string) {
+  if (!process.env[SUMMARY_ENV_VAR]) {
+    return
+  }
+
+  const rows: SummaryTableRow[] = [
+    ["Action", result.action],
+    ["Last Release", releaseLink(result.lastRelease)],
+    ["Last Version", result.lastVersion?.toString() ?? "(none)"]
+  ]
+  if (result.action !== "none") {
+    rows.push([
+      "Version Increment",
+      formatVersionIncrement(result.versionIncrement, result.inferredIncrement)
+    ])
+    rows.push(["Next Version", `${result.version.core} (${result.version})`])
+    rows.push(["Version Source", result.versionSource])
+  }
+  if ("release" in result) {
+    rows.push(["Release", releaseLink(result.release)])
+  }
+
+  const heading = component ? `📦 Release Party: ${component}` : "📦 Release Party"
+  summary.addHeading(heading, 2).addTable(["Field", "Value"], rows)
+
+  if ("request" in result) {
+    summary
+      .addHeading("Release Request", 3)
+      .addParagraph("Dry run, so no release was created or updated.")
+      .addCodeBlock(formatPayloadDiff(result.currentRequest, result.request), "diff")
+  }
+
+  if (result.action === "none") {
+    summary.addParagraph("No outstanding pull requests found, so no release was created or updated.")
+  } else {
+    summary.addHeading("Pull Requests", 3).addTable(
+      ["Pull Request", "Title", "Type", "Scope", "Impact", "Reason"],
+      result.pullRequestImpacts.map((pr) => [
+        `#${pr.number}`,
+        pr.title,
+        pr.type ?? "",
+        pr.scope ?? "",
+        pr.impact,
+        pr.reason
+      ])
+    )
+  }
+
+  await flushSummary()
+}
+
+/**
+ * Writes the summary, only warning when it fails, as any release has already been created or updated.
+ */
+async function flushSummary() {
+  try {
+    await summary.write()
+  } catch (error: unknown) {
+    summary.emptyBuffer()
+    warning(`Unable to write the job summary: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+async function writePromotionSummary(result: PromotedReleaseResult | PromotionDryRunResult) {
+  if (!process.env[SUMMARY_ENV_VAR]) {
+    return
+  }
+
+  summary
+    .addHeading("📦 Release Party", 2)
+    .addTable(
+      ["Field", "Value"],
+      [
+        ["Action", result.action],
+        ["Prerelease", `${releaseLink(result.prerelease)} (${result.promotedPrerelease})`],
+        ["Last Release", releaseLink(result.lastRelease)],
+        ["Last Version", result.lastVersion?.toString() ?? "(none)"],
+        ["Next Version", `${result.version.core} (${result.version})`],
+        "release" in result ? ["Release", releaseLink(result.release)] : ["Tag Commit", result.sha]
+      ]
+    )
+
+  if ("request" in result) {
+    summary
+      .addHeading("Release Request", 3)
+      .addParagraph("Dry run, so no release was published.")
+      .addCodeBlock(formatPayloadDiff(null, result.request), "diff")
+  }
+
+  await flushSummary()
+}
+
+function releaseLink(release: Release | null): string {
+  if (!release) {
+    return "(none)"
+  }
+  const name = release.name || release.tagName || `${release.id}`
+  return link(release.draft ? `${name} (draft)` : name, release.htmlUrl)
+}
+
+function outputVersions(result: VersionInferenceResult | UpsertedReleaseResult | DryRunResult) {
   if (result.lastVersion) {
     setOutput("last-version", result.lastVersion.toString())
   }
   setOutput("next-version", result.version.core)
   setOutput("next-version-full", result.version.toString())
+  setOutput("version-source", result.versionSource)
+  setOutput("pull-requests", JSON.stringify(result.pullRequestImpacts))
+}
+
+/**
+ * Outputs the results for all components as JSON, as the other outputs only describe a single result.
+ */
+function outputComponents(results: ComponentResult[]) {
+  const components = results.map(({ component, result }) => ({
+    component: component.name,
+    action: result.action,
+    lastVersion: result.lastVersion?.toString() ?? null,
+    nextVersion: result.action === "none" ? null : result.version.core,
+    nextVersionFull: result.action === "none" ? null : result.version.toString(),
+    releaseId: "release" in result ? result.release.id : null
+  }))
+  setOutput("components", JSON.stringify(components))
 }
@@ -1,19 +1,92 @@
+import type { EndpointOptions } from "@octokit/types"
 import { Octokit } from "octokit"
+import { type ApiUsage, trackApiUsage } from "@/api-usage"
+import { createRepositoryInstallationAuth, type GitHubAppCredentials } from "@/app-auth"
+import { createProxyFetch, findProxy } from "@/proxy-fetch"
+import { defaultRetryPolicy, type RetryPolicy, retryRequests } from "@/rate-limit"
 
 /**
  * Configuration for creating an Octokit instance
  */
 export interface OctokitConfig {
   auth?: string
+  /** The GitHub App to authenticate as instead of with the `auth` token. */
+  app?: GitHubAppCredentials
+  /**
+   * The URL of an HTTP proxy to make requests through, such as `http://proxy.example.com:3128`. Defaults to
+   * `HTTPS_PROXY`, with the hosts of `NO_PROXY` excluded. Not used with a `fetch`.
+   */
   proxyUrl?: string
+  /**
+   * The REST API URL, such as `https://github.example.com/api/v3` for GitHub Enterprise Server.
+   * Defaults to `https://api.github.com`.
+   */
+  baseUrl?: string
+  /**
+   * The GraphQL API URL, such as `https://github.example.com/api/graphql`. Defaults to that of the `baseUrl`,
+   * as derived by Octokit.
+   */
+  graphqlUrl?: string
+  /**
+   * The fetch used for requests, such as to replay or record responses, which is responsible for any proxy.
+   * Defaults to the global fetch, through any proxy.
+   */
+  fetch?: typeof fetch
+  /** Whether to throttle requests to keep within the GitHub API rate limits. Defaults to true. */
+  throttle?: boolean
+  /** How requests failing from rate limits or server errors are retried. Defaults to `defaultRetryPolicy`. */
+  retry?: RetryPolicy
+  /** The API usage to record the calls in, such as to share across instances. Defaults to that of the instance. */
+  usage?: ApiUsage
 }
 
 /**
- * Creates an Octokit instance configured with proxy support
+ * Creates an Octokit instance configured with proxy support, retrying requests that fail from rate limits or
+ * server errors
  */
 export function createOctokit(config: OctokitConfig): Octokit {
   const options: ConstructorParameters<typeof Octokit>[0] = {
     auth: config.auth
   }
-  return new Octokit(options)
+  if (config.app) {
+    options.authStrategy = createRepositoryInstallationAuth
+    options.auth = config.app
+  }
+  if (config.baseUrl) {
+    options.baseUrl = config.baseUrl.replace(/\/$/, "")
+  }
+  const proxy = config.fetch ? null : findProxy(config.proxyUrl)
+  const fetch = config.fetch ?? (proxy ? createProxyFetch(proxy) : null)
+  if (fetch) {
+    options.request = { fetch: fetch }
+  }
+  // Retries are made by `retryRequests` rather than the retry and throttling plugins, so the waits are capped
+  options.retry = { enabled: false }
+  options.throttle = {
+    enabled: config.throttle !== false,
+    onRateLimit: () => false,
+    onSecondaryRateLimit: () => false
+  }
+  const octokit = new Octokit(options)
+  // Tracked within the retries, so that each retry is recorded as a call
+  trackApiUsage(octokit, config.usage)
+  retryRequests(octokit, config.retry ?? defaultRetryPolicy)
+  const graphqlUrl = config.graphqlUrl
+  if (graphqlUrl) {
+    // Octokit only derives the GraphQL URL from the base URL, so GraphQL requests are redirected
+    octokit.hook.before("request", (request: EndpointOptions) => {
+      if (isGraphQLUrl(request.url)) {
+        request.url = graphqlUrl
+      }
+    })
+  }
+  return octokit
+}
+
+/**
+ * Whether the URL is that of the GraphQL API as derived by Octokit, `/graphql`, or `<host>/api/graphql` for
+ * a base URL ending `/api/v3`.
+ */
+function isGraphQLUrl(url: string): boolean {
+  return url === "/graphql" || url.endsWith("/api/graphql")
 }
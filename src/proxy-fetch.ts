@@ -0,0 +1,76 @@
+import { EnvHttpProxyAgent, fetch } from "undici"
+
+/**
+ * An HTTP proxy to make requests through, except to the hosts it is not used for.
+ */
+export interface ProxyConfig {
+  url: URL
+  /** Host names, domains such as `.example.com`, or `host:port` entries, or `*` for all hosts. */
+  noProxy: string[]
+}
+
+/**
+ * The proxy of the proxy URL, defaulting to that of `HTTPS_PROXY`, with hosts excluded by `NO_PROXY`. The
+ * lower case variables are also accepted, as used by curl.
+ *
+ * @returns The proxy, or null when no proxy is configured
+ */
+export function findProxy(
+  proxyUrl: string | undefined,
+  env: NodeJS.ProcessEnv = process.env
+): ProxyConfig | null {
+  const url = proxyUrl || env.HTTPS_PROXY || env.https_proxy
+  if (!url) {
+    return null
+  }
+  return {
+    url: parseProxyUrl(url),
+    noProxy: (env.NO_PROXY ?? env.no_proxy ?? "")
+      .split(/[\s,]+/)
+      .map((entry) => entry.trim().toLowerCase())
+      .filter((entry) => entry !== "")
+  }
+}
+
+function parseProxyUrl(proxyUrl: string): URL {
+  // Proxies are often configured as `host:port`
+  const url = new URL(proxyUrl.includes("://") ? proxyUrl : `http://${proxyUrl}`)
+  if (url.protocol !== "http:") {
+    throw new Error(`Unsupported proxy URL: ${proxyUrl}. Expected an http:// URL`)
+  }
+  return url
+}
+
+/**
+ * A fetch that makes requests through the proxy, with undici's fetch and an `EnvHttpProxyAgent` as the
+ * dispatcher, so that a proxy is used without the Node `NODE_USE_ENV_PROXY` option. HTTPS requests are
+ * tunnelled with `CONNECT`, and requests to hosts excluded from the proxy are made directly.
+ *
+ * The requests and responses are those of the global fetch, as used by Octokit, rather than undici's, as the
+ * undici bundled by Node may be another version.
+ */
+export function createProxyFetch(proxy: ProxyConfig): typeof globalThis.fetch {
+  const dispatcher = new EnvHttpProxyAgent({
+    httpProxy: proxy.url.href,
+    httpsProxy: proxy.url.href,
+    noProxy: proxy.noProxy.join(","),
+    // Plain HTTP requests are forwarded by the proxy given the absolute URL, as not all proxies tunnel them
+    proxyTunnel: false
+  })
+  return async (input, init) => {
+    const request = new Request(input, init)
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: [...request.headers],
+      body: request.body ? Buffer.from(await request.arrayBuffer()) : null,
+      redirect: request.redirect,
+      signal: request.signal,
+      dispatcher: dispatcher
+    })
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: [...response.headers]
+    })
+  }
+}
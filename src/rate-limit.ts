@@ -0,0 +1,182 @@
+import type { EndpointOptions, RequestInterface } from "@octokit/types"
+import type { Octokit } from "octokit"
+
+/**
+ * How requests that fail from rate limits or transient server errors are retried.
+ */
+export interface RetryPolicy {
+  /** The most times a request is retried. */
+  retries: number
+  /** The wait before the first retry in milliseconds, doubled for each retry after. */
+  baseDelay: number
+  /** The most time waited for the retries of a request in milliseconds, after which it fails. */
+  maxWait: number
+}
+
+export const defaultRetryPolicy: RetryPolicy = {
+  retries: 5,
+  baseDelay: 1000,
+  maxWait: 5 * 60 * 1000
+}
+
+/**
+ * The API quota of a resource, such as `core` for the REST API or `graphql`, as of the last response.
+ */
+export interface RateLimit {
+  resource: string
+  limit: number
+  remaining: number
+  reset: Date
+}
+
+type ResponseHeaders = Record<string, string | number | undefined>
+
+interface RequestFailure {
+  status?: number
+  message?: string
+  response?: { headers?: ResponseHeaders }
+}
+
+const rateLimits = new WeakMap<object, Map<string, RateLimit>>()
+
+/**
+ * Retries requests that fail from rate limits or transient server errors, as per the policy, and tracks the
+ * rate limits of the responses, see `findRateLimits`. Only repeatable requests, see `isRepeatable`, are
+ * retried after server errors, as the others may have changed data despite failing.
+ */
+export function retryRequests(octokit: Octokit, policy: RetryPolicy = defaultRetryPolicy) {
+  const tracked = new Map<string, RateLimit>()
+  rateLimits.set(octokit, tracked)
+
+  octokit.hook.wrap("request", async (request: RequestInterface, options: EndpointOptions) => {
+    let waited = 0
+    for (let retryCount = 0; ; retryCount++) {
+      try {
+        const response = await request(options)
+        trackRateLimit(tracked, response.headers)
+        return response
+      } catch (error: unknown) {
+        const failure = error as RequestFailure
+        trackRateLimit(tracked, failure.response?.headers ?? {})
+        const retried =
+          retryCount < policy.retries && (isRepeatable(options) || !isServerError(failure.status))
+        const delay = retried ? retryDelay(error, retryCount, policy) : null
+        if (delay === null) {
+          throw error
+        }
+        const route = `${options.method} ${options.url}`
+        if (waited + delay > policy.maxWait) {
+          octokit.log.warn(
+            `Not retrying ${route} after ${failure.status}, as waiting ${formatSeconds(delay)} would exceed ` +
+              `the limit of ${formatSeconds(policy.maxWait)}`
+          )
+          throw error
+        }
+        octokit.log.warn(`Retrying ${route} after ${failure.status} in ${formatSeconds(delay)}`)
+        await new Promise((resolve) => setTimeout(resolve, delay))
+        waited += delay
+      }
+    }
+  })
+}
+
+/**
+ * The milliseconds to wait before retrying a failed request, or null when it is not retried.
+ *
+ * Rate limited requests, a 429 or a 403 for a rate limit, wait for the `retry-after` seconds or until the
+ * `x-ratelimit-reset` time when the quota is used up. Otherwise, as for server errors, the wait doubles
+ * with each retry.
+ */
+export function retryDelay(
+  error: unknown,
+  retryCount: number,
+  policy: RetryPolicy,
+  now: number = Date.now()
+): number | null {
+  const { status, message, response } = error as RequestFailure
+  const headers = response?.headers ?? {}
+  const backoff = policy.baseDelay * 2 ** retryCount
+  const retryAfter = Number(headers["retry-after"])
+  if (isRateLimited(status, message, headers)) {
+    if (Number.isFinite(retryAfter)) {
+      return retryAfter * 1000
+    }
+    const reset = Number(headers["x-ratelimit-reset"])
+    if (String(headers["x-ratelimit-remaining"]) === "0" && Number.isFinite(reset)) {
+      return Math.max(0, reset * 1000 - now)
+    }
+    return backoff
+  }
+  if (isServerError(status)) {
+    return Number.isFinite(retryAfter) ? retryAfter * 1000 : backoff
+  }
+  return null
+}
+
+function isServerError(status: number | undefined): boolean {
+  return status !== undefined && status >= 500
+}
+
+/**
+ * Whether the request can be repeated without changing data again, as for reads, GraphQL queries and
+ * generating release notes.
+ */
+export function isRepeatable(options: EndpointOptions): boolean {
+  if (options.method === "GET" || options.method === "HEAD") {
+    return true
+  } else if (options.url.endsWith("/graphql")) {
+    return !/^\s*mutation\b/.test(String(options.query ?? ""))
+  }
+  return options.method === "POST" && options.url.endsWith("/releases/generate-notes")
+}
+
+function isRateLimited(
+  status: number | undefined,
+  message: string | undefined,
+  headers: ResponseHeaders
+): boolean {
+  return (
+    status === 429 ||
+    (status === 403 &&
+      (String(headers["x-ratelimit-remaining"]) === "0" ||
+        headers["retry-after"] !== undefined ||
+        /secondary rate limit/i.test(message ?? "")))
+  )
+}
+
+function trackRateLimit(tracked: Map<string, RateLimit>, headers: ResponseHeaders) {
+  const limit = Number(headers["x-ratelimit-limit"])
+  const remaining = Number(headers["x-ratelimit-remaining"])
+  const reset = Number(headers["x-ratelimit-reset"])
+  if (Number.isFinite(limit) && Number.isFinite(remaining) && Number.isFinite(reset)) {
+    const resource = String(headers["x-ratelimit-resource"] ?? "core")
+    tracked.set(resource, {
+      resource: resource,
+      limit: limit,
+      remaining: remaining,
+      reset: new Date(reset * 1000)
+    })
+  }
+}
+
+/**
+ * The rate limits of the resources used through the Octokit instance, as of their last responses, or none
+ * if not created with `retryRequests`, or the server does not have rate limits.
+ */
+export function findRateLimits(octokit: object): RateLimit[] {
+  return [...(rateLimits.get(octokit)?.values() ?? [])].sort((a, b) => a.resource.localeCompare(b.resource))
+}
+
+/**
+ * Formats the rate limit, such as `core 4990/5000 remaining, resets at 2026-01-31T12:00:00.000Z`.
+ */
+export function formatRateLimit(rateLimit: RateLimit): string {
+  return (
+    `${rateLimit.resource} ${rateLimit.remaining}/${rateLimit.limit} remaining, ` +
+    `resets at ${rateLimit.reset.toISOString()}`
+  )
+}
+
+function formatSeconds(milliseconds: number): string {
+  return `${Math.ceil(milliseconds / 1000)}s`
+}
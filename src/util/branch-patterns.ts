@@ -0,0 +1,62 @@
+/**
+ * Branch pattern matching in the style of GitHub Actions branch filters.
+ *
+ * - `*` matches zero or more characters, but not `/`
+ * - `**` matches zero or more of any character, including `/`
+ * - `?` matches a single character, but not `/`
+ * - A leading `!` negates the pattern, excluding any branch it matches
+ *
+ * Patterns are evaluated in order, with the last matching pattern deciding the outcome, so a negated
+ * pattern should follow the positive pattern it refines, such as `release/*` then `!release/legacy`.
+ */
+
+/**
+ * Finds the pattern that decides whether the branch matches the list of patterns.
+ *
+ * @returns The last pattern matching the branch, which may be a negated pattern (prefixed with `!`),
+ * or null if no pattern matches.
+ */
+export function findMatchingPattern(branch: string, patterns: readonly string[]): string | null {
+  let matching: string | null = null
+  for (const pattern of patterns) {
+    const negated = isNegated(pattern)
+    const glob = negated ? pattern.substring(1) : pattern
+    if (globToRegExp(glob).test(branch)) {
+      matching = pattern
+    }
+  }
+  return matching
+}
+
+/**
+ * Whether the branch is included by the list of patterns, i.e. the deciding pattern is not negated.
+ */
+export function matchesPatterns(branch: string, patterns: readonly string[]): boolean {
+  const pattern = findMatchingPattern(branch, patterns)
+  return pattern !== null && !isNegated(pattern)
+}
+
+export function isNegated(pattern: string): boolean {
+  return pattern.startsWith("!")
+}
+
+/**
+ * Converts a glob pattern into an anchored regular expression.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let regex = ""
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === "*" && glob[i + 1] === "*") {
+      regex += ".*"
+      i++
+    } else if (char === "*") {
+      regex += "[^/]*"
+    } else if (char === "?") {
+      regex += "[^/]"
+    } else {
+      regex += char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    }
+  }
+  return new RegExp(`^${regex}$`)
+}
@@ -0,0 +1,54 @@
+/**
+ * Formats a request payload as a diff against the current payload, such as that of an existing draft, with
+ * removed lines prefixed by `-`, added lines by `+`, and unchanged lines by a space, as in a unified diff.
+ * Without a current payload, all lines are added.
+ *
+ * Each field is a line, except multi-line strings such as release notes, which are a line each so that
+ * changes within them are shown. Undefined fields are omitted, as they are not sent.
+ */
+export function formatPayloadDiff(current: object | null, payload: object): string {
+  return diffLines(current ? formatPayload(current) : [], formatPayload(payload)).join("\n")
+}
+
+function formatPayload(payload: object): string[] {
+  return Object.entries(payload)
+    .filter(([, value]) => value !== undefined)
+    .flatMap(([key, value]) =>
+      typeof value === "string" && value.includes("\n")
+        ? [`${key}: |`, ...value.split("\n").map((line) => `  ${line}`)]
+        : [`${key}: ${JSON.stringify(value)}`]
+    )
+}
+
+/**
+ * Diffs the lines by their longest common subsequence, which is simple enough for the size of payloads.
+ */
+function diffLines(before: string[], after: string[]): string[] {
+  // The length of the longest common subsequence of before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0))
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const lines: string[] = []
+  let i = 0
+  let j = 0
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push(`  ${before[i]}`)
+      i++
+      j++
+    } else if (i < before.length && (j === after.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      // Removals come before additions, as is conventional
+      lines.push(`- ${before[i]}`)
+      i++
+    } else {
+      lines.push(`+ ${after[j]}`)
+      j++
+    }
+  }
+  return lines
+}
@@ -0,0 +1,55 @@
+import type { PullRequest } from "@/data/pull-requests"
+import { globToRegExp } from "@/util/branch-patterns"
+import { analyseMessage } from "@/versioning/conventional-commits"
+
+/**
+ * A separately released part of a monorepo, such as a package, with releases tagged like `api-v1.2.3`.
+ */
+export interface Component {
+  /** Used as the tag prefix, and matched against the conventional commit scope of PR titles. */
+  name: string
+  /** Glob patterns matching the paths of files in the component, or empty to only match by scope. */
+  paths: string[]
+}
+
+/**
+ * Parses lines in the format `<name>[: <path>, ...]`, such as `api: packages/api/**`, into components.
+ *
+ * @throws {Error} If a line is not in the expected format or a component is specified more than once
+ */
+export function parseComponents(lines: string[]): Component[] {
+  const components: Component[] = []
+  for (const line of lines) {
+    const separator = line.indexOf(":")
+    const name = (separator === -1 ? line : line.substring(0, separator)).trim()
+    const paths = separator === -1 ? [] : splitList(line.substring(separator + 1))
+    if (!/^[A-Za-z0-9._-]+$/.test(name)) {
+      throw new Error(`Invalid component: '${line}'. Expected format: <name>[: <path>, ...]`)
+    }
+    if (components.some((component) => component.name === name)) {
+      throw new Error(`Duplicate component: '${name}'`)
+    }
+    components.push({ name: name, paths: paths })
+  }
+  return components
+}
+
+/**
+ * Whether the PR applies to the component, either by the conventional commit scope of its title, which may
+ * be a comma-separated list, or by any of its changed files matching the component paths.
+ */
+export function isComponentPullRequest(pr: PullRequest, component: Component): boolean {
+  const { scope } = analyseMessage(pr.title)
+  if (scope !== null && splitList(scope).includes(component.name)) {
+    return true
+  }
+  const patterns = component.paths.map((path) => globToRegExp(path))
+  return pr.files.some((file) => patterns.some((pattern) => pattern.test(file)))
+}
+
+function splitList(list: string): string[] {
+  return list
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item !== "")
+}
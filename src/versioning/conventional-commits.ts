@@ -1,21 +1,89 @@
-import type { VersionIncrement } from "@/versioning/version"
+import { type ImpactMapping, lookupImpact, type VersionIncrement } from "@/versioning/version"
+
+/**
+ * The conventional commit types inferring a version increment by default, as per the specification.
+ */
+export const defaultTypeImpacts: ImpactMapping = {
+  feat: "minor",
+  fix: "patch"
+}
+
+/**
+ * The commit types recommended by the conventional commits specification, used when suggesting corrections.
+ */
+export const conventionalTypes: readonly string[] = [
+  "feat",
+  "fix",
+  "docs",
+  "style",
+  "refactor",
+  "perf",
+  "test",
+  "build",
+  "ci",
+  "chore",
+  "revert"
+]
+
+/**
+ * Common misspellings of commit types, mapped to the intended type.
+ */
+const typeAliases: Record<string, string> = {
+  feature: "feat",
+  features: "feat",
+  bug: "fix",
+  bugfix: "fix",
+  fixes: "fix",
+  fixed: "fix",
+  hotfix: "fix",
+  doc: "docs",
+  documentation: "docs",
+  refactoring: "refactor",
+  performance: "perf",
+  tests: "test",
+  chores: "chore"
+}
+
+/**
+ * The impact of a conventional commit message along with the details that determined it.
+ */
+export interface MessageImpact {
+  /** The conventional commit type, or null if the message is not in conventional commit format. */
+  type: string | null
+  /** The conventional commit scope, or null if not specified. */
+  scope: string | null
+  impact: VersionIncrement
+  /** Human-readable reason for the impact, such as "`!` marker". */
+  reason: string
+}
 
 /**
  * Parses a conventional commit message and reads its impact level.
  *
  * Handles the conventional commit format: type(scope): description
  * - Breaking changes (BREAKING CHANGE: or !) result in MAJOR impact
- * - feat results in MINOR impact
- * - fix results in PATCH impact
+ * - Types in `typeImpacts` result in their mapped impact, by default:
+ *   - feat results in MINOR impact
+ *   - fix results in PATCH impact
  * - Other types or invalid format result in NONE impact
  */
-export function messageImpact(message: string): VersionIncrement {
-  if (!message || message.trim() === "") {
-    return "none"
-  }
+export function messageImpact(
+  message: string,
+  typeImpacts: ImpactMapping = defaultTypeImpacts
+): VersionIncrement {
+  return analyseMessage(message, typeImpacts).impact
+}
 
-  if (message.includes("BREAKING CHANGE:") || message.includes("BREAKING-CHANGE:")) {
-    return "major"
+/**
+ * Parses a conventional commit message as `messageImpact`, but also provides the type, scope and reason
+ * for the impact.
+ */
+export function analyseMessage(
+  message: string,
+  typeImpacts: ImpactMapping = defaultTypeImpacts
+): MessageImpact {
+  if (!message || message.trim() === "") {
+    return { type: null, scope: null, impact: "none", reason: "empty message" }
   }
 
   const firstLine = message.split("\n")[0].trim()
@@ -23,25 +91,48 @@ export function messageImpact(message: string): VersionIncrement {
   // Match conventional commit format: type(scope)!: description or type!: description
   // Also handle without scope: type: description
   // Scope can be empty: type(): description
-  const conventionalCommitRegex = /^([a-z]+)(\([^)]*\))?(!)?:\s*\S+/
+  const conventionalCommitRegex = /^([a-z]+)(?:\(([^)]*)\))?(!)?:\s*\S+/
   const match = firstLine.match(conventionalCommitRegex)
 
-  if (!match) {
-    return "none"
+  const type = match ? match[1] : null
+  const scope = match?.[2] ? match[2] : null
+  const hasBreakingMarker = match?.[3] === "!"
+
+  if (message.includes("BREAKING CHANGE:") || message.includes("BREAKING-CHANGE:")) {
+    return { type: type, scope: scope, impact: "major", reason: "BREAKING CHANGE footer" }
+  } else if (type === null) {
+    return { type: null, scope: null, impact: "none", reason: "not a conventional commit" }
+  } else if (hasBreakingMarker) {
+    return { type: type, scope: scope, impact: "major", reason: "`!` marker" }
+  } else {
+    return { type: type, scope: scope, impact: lookupImpact(typeImpacts, type), reason: `type \`${type}\`` }
   }
+}
 
-  const type = match[1]
-  const hasBreakingMarker = match[3] === "!"
+/**
+ * Suggests a corrected first line for a message that is a near-miss of the conventional commit format,
+ * such as `Feat: add x` (wrong case), `feat add x` (missing colon) or `feature: add x` (misspelt type).
+ *
+ * @returns The suggested title, or null if the message is already conventional or no suggestion can be made
+ */
+export function suggestConventionalTitle(
+  message: string,
+  typeImpacts: ImpactMapping = defaultTypeImpacts
+): string | null {
+  const firstLine = message.split("\n")[0].trim()
+  const match = firstLine.match(/^([A-Za-z]+)\s*(?:\(([^)]*)\))?\s*(!)?\s*:?\s*([^\s:].*)$/)
+  if (!match) {
+    return null
+  }
 
-  if (hasBreakingMarker) {
-    return "major"
-  } else if (type === "feat") {
-    return "minor"
-  } else if (type === "fix") {
-    return "patch"
-  } else {
-    return "none"
+  const [, rawType, scope, breakingMarker, description] = match
+  const type = typeAliases[rawType.toLowerCase()] ?? rawType.toLowerCase()
+  if (!conventionalTypes.includes(type) && !Object.hasOwn(typeImpacts, type)) {
+    return null
   }
+
+  const suggestion = `${type}${scope !== undefined ? `(${scope})` : ""}${breakingMarker ?? ""}: ${description}`
+  return suggestion === firstLine ? null : suggestion
 }
 
 /**
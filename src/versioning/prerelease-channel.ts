@@ -0,0 +1,57 @@
+import { globToRegExp } from "@/util/branch-patterns"
+import type { Version } from "@/versioning/version"
+
+/**
+ * A branch, or branch pattern, whose releases are prereleases with their own counter, such as `2.0.0-beta.1`.
+ */
+export interface PrereleaseChannel {
+  /** The branch name, which may be a glob pattern as in `release-branches`. */
+  branch: string
+  /** The prerelease identifier, such as `alpha`, `beta` or `rc`. */
+  identifier: string
+}
+
+/**
+ * Parses lines in the format `<branch>: <identifier>`, such as `next: beta`, into prerelease channels.
+ *
+ * @throws {Error} If a line is not in the expected format or the identifier is not a valid prerelease
+ * identifier
+ */
+export function parsePrereleaseChannels(lines: string[]): PrereleaseChannel[] {
+  return lines.map((line) => {
+    const separator = line.lastIndexOf(":")
+    const branch = line.substring(0, separator).trim()
+    const identifier = line.substring(separator + 1).trim()
+    // Numeric identifiers are excluded as they would be confused with the counter
+    if (separator === -1 || branch === "" || !/^[0-9A-Za-z-]*[A-Za-z-][0-9A-Za-z-]*$/.test(identifier)) {
+      throw new Error(`Invalid prerelease channel: '${line}'. Expected format: <branch>: <identifier>`)
+    }
+    return { branch: branch, identifier: identifier }
+  })
+}
+
+/**
+ * The first prerelease channel matching the branch, or null if the branch is not a prerelease channel.
+ */
+export function findPrereleaseChannel(
+  branch: string,
+  channels: readonly PrereleaseChannel[]
+): PrereleaseChannel | null {
+  return channels.find((channel) => globToRegExp(channel.branch).test(branch)) ?? null
+}
+
+/**
+ * The next prerelease number of the channel for the core version, following the highest of the existing
+ * prerelease versions, such as 3 when `2.0.0-beta.2` exists, or 1 if there are none.
+ */
+export function nextPrereleaseNumber(
+  version: Version,
+  channel: PrereleaseChannel,
+  existing: readonly Version[]
+): number {
+  const numbers = existing
+    .filter((other) => other.compareCore(version) === 0 && other.prerelease[0] === channel.identifier)
+    .map((other) => Number.parseInt(other.prerelease[1] ?? "0", 10))
+    .filter((number) => !Number.isNaN(number))
+  return Math.max(0, ...numbers) + 1
+}
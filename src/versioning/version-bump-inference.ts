@@ -1,14 +1,122 @@
 import type { PullRequest } from "@/data/pull-requests"
-import { maxImpact, messageImpact } from "@/versioning/conventional-commits"
-import type { VersionIncrement } from "@/versioning/version"
+import {
+  analyseMessage,
+  defaultTypeImpacts,
+  maxImpact,
+  suggestConventionalTitle
+} from "@/versioning/conventional-commits"
+import { type ImpactMapping, lookupImpact, type VersionIncrement } from "@/versioning/version"
 
 /**
- * Infers the maximum version impact from a set of pull requests.
+ * PR labels inferring a version increment by default, aligned with common GitHub release notes categories.
  */
-export function inferImpactFromPRs(prs: PullRequest[]): VersionIncrement {
-  return maxImpact(prs.map(inferVersionImpactFromPR))
+export const defaultLabelImpacts: ImpactMapping = {
+  breaking: "major",
+  enhancement: "minor",
+  bug: "patch"
 }
 
-function inferVersionImpactFromPR(pr: PullRequest): VersionIncrement {
-  return messageImpact(pr.title)
+/**
+ * Options controlling how the version impact is inferred from pull requests.
+ */
+export interface InferenceOptions {
+  /** PR labels to version increment. Labels are matched case-insensitively. Defaults to `defaultLabelImpacts`. */
+  labelImpacts?: ImpactMapping
+  /** Conventional commit types to version increment. Defaults to `defaultTypeImpacts`. */
+  typeImpacts?: ImpactMapping
+}
+
+/**
+ * The version impact inferred for an individual pull request, with the details that determined it.
+ */
+export interface PullRequestImpact {
+  number: number
+  title: string
+  /** The conventional commit type of the title, or null if the title is not in conventional commit format. */
+  type: string | null
+  /** The conventional commit scope of the title, or null if not specified. */
+  scope: string | null
+  impact: VersionIncrement
+  /** Human-readable reason for the impact, such as "`!` marker" or "label `breaking`". */
+  reason: string
+}
+
+/**
+ * Infers the maximum version impact from a set of pull requests, from both the PR titles in conventional
+ * commits style and any PR labels mapped to a version increment.
+ */
+export function inferImpactFromPRs(prs: PullRequest[], options: InferenceOptions = {}): VersionIncrement {
+  return maxImpact(inferPullRequestImpacts(prs, options).map((pr) => pr.impact))
+}
+
+/**
+ * Infers the version impact of each pull request, in the same way as `inferImpactFromPRs`.
+ */
+export function inferPullRequestImpacts(
+  prs: PullRequest[],
+  options: InferenceOptions = {}
+): PullRequestImpact[] {
+  const labelImpacts = normaliseMapping(options.labelImpacts ?? defaultLabelImpacts)
+  const typeImpacts = options.typeImpacts ?? defaultTypeImpacts
+  return prs.map((pr) => inferVersionImpactFromPR(pr, labelImpacts, typeImpacts))
+}
+
+/**
+ * The pull requests with titles not in conventional commit format, which therefore only imply a version
+ * increment through their labels.
+ */
+export function findNonConventionalTitles(impacts: PullRequestImpact[]): PullRequestImpact[] {
+  return impacts.filter((pr) => pr.type === null)
+}
+
+/**
+ * Describes a pull request with a title not in conventional commit format, suggesting a corrected title
+ * where the title looks like a near-miss.
+ */
+export function describeNonConventionalTitle(pr: PullRequestImpact, options: InferenceOptions = {}): string {
+  const description = `Pull request #${pr.number} title '${pr.title}' is not a conventional commit`
+  const suggestion = suggestConventionalTitle(pr.title, options.typeImpacts ?? defaultTypeImpacts)
+  return suggestion ? `${description}, did you mean '${suggestion}'?` : description
+}
+
+/**
+ * Formats the impact of a pull request for a log line, such as `#1 feat: add x [minor: type \`feat\`]`.
+ */
+export function formatPullRequestImpact(pr: PullRequestImpact): string {
+  const scope = pr.scope ? `, scope: ${pr.scope}` : ""
+  return `#${pr.number} ${pr.title} [${pr.impact}: ${pr.reason}${scope}]`
+}
+
+/**
+ * The impact of the title, unless a label implies a higher impact, preferring the first such label.
+ */
+function inferVersionImpactFromPR(
+  pr: PullRequest,
+  labelImpacts: ImpactMapping,
+  typeImpacts: ImpactMapping
+): PullRequestImpact {
+  const titleImpact = analyseMessage(pr.title, typeImpacts)
+  let impact = titleImpact.impact
+  let reason = titleImpact.reason
+
+  for (const label of pr.labels) {
+    const labelImpact = lookupImpact(labelImpacts, label.toLowerCase())
+    if (labelImpact !== impact && maxImpact([impact, labelImpact]) === labelImpact) {
+      impact = labelImpact
+      reason = `label \`${label}\``
+    }
+  }
+
+  return {
+    number: pr.number,
+    title: pr.title,
+    type: titleImpact.type,
+    scope: titleImpact.scope,
+    impact: impact,
+    reason: reason
+  }
+}
+
+function normaliseMapping(mapping: ImpactMapping): ImpactMapping {
+  return Object.fromEntries(Object.entries(mapping).map(([name, impact]) => [name.toLowerCase(), impact]))
 }
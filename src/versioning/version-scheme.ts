@@ -0,0 +1,149 @@
+import { parseVersion, Version, type VersionIncrement } from "@/versioning/version"
+
+/**
+ * How versions are parsed and how the next version is derived, such as semantic or calendar versioning.
+ * Prerelease and build metadata are applied to the next version the same way for any scheme.
+ */
+export interface VersionScheme {
+  /** As given to the `version-scheme` input, such as `semver` or `YYYY.MM.MICRO`. */
+  readonly name: string
+  /** Parses a version, such as `1.2.3` or `v1.2.3`, including any prerelease and build metadata. */
+  parse(versionString: string): Version
+  /** The first version when there is no previous release, given the version of the default tag. */
+  initial(defaultVersion: Version, date: Date): Version
+  /** The version following the last release, with the increment inferred from the PRs, at the run date. */
+  next(lastVersion: Version, increment: VersionIncrement, date: Date, initialDevelopment: boolean): Version
+}
+
+export const semverScheme: VersionScheme = {
+  name: "semver",
+  parse: (versionString: string): Version => parseVersion(versionString),
+  initial: (defaultVersion: Version): Version => defaultVersion,
+  next: (lastVersion: Version, increment: VersionIncrement, _: Date, initialDevelopment: boolean): Version =>
+    lastVersion.bump(increment, initialDevelopment)
+}
+
+// See: https://calver.org/#scheme
+// The year is that of the ISO week when the format has a week, so that the last days of December may be in
+// week 1 of the following year, keeping versions increasing
+const calendarTokens: Record<string, (date: Date, weekYear: boolean) => string> = {
+  YYYY: (date, weekYear) => `${year(date, weekYear)}`,
+  YY: (date, weekYear) => `${year(date, weekYear) - 2000}`,
+  "0Y": (date, weekYear) => pad(year(date, weekYear) - 2000),
+  MM: (date) => `${date.getUTCMonth() + 1}`,
+  "0M": (date) => pad(date.getUTCMonth() + 1),
+  WW: (date) => `${isoWeek(date)}`,
+  "0W": (date) => pad(isoWeek(date)),
+  DD: (date) => `${date.getUTCDate()}`,
+  "0D": (date) => pad(date.getUTCDate())
+}
+
+/**
+ * Parses the `version-scheme` input, either `semver` or a calendar versioning format of date parts ending with
+ * `MICRO`, such as `YYYY.MM.MICRO` or `YY.0W.MICRO`.
+ *
+ * @throws {Error} If the scheme is not recognised
+ */
+export function parseVersionScheme(name: string): VersionScheme {
+  if (name === "semver") {
+    return semverScheme
+  }
+  const tokens = name.split(".")
+  const dateTokens = tokens.slice(0, -1)
+  if (
+    tokens.at(-1) !== "MICRO" ||
+    dateTokens.length === 0 ||
+    !dateTokens.every((token) => Object.hasOwn(calendarTokens, token))
+  ) {
+    throw new Error(
+      `Invalid version scheme: '${name}'. Expected semver, or a calendar format of ` +
+        `${Object.keys(calendarTokens).join(", ")} parts ending with MICRO, such as YYYY.MM.MICRO`
+    )
+  }
+  return new CalendarVersionScheme(name, dateTokens)
+}
+
+/**
+ * Calendar versioning, where the date parts are taken from the run date, and the `MICRO` part counts the
+ * releases within the same period, starting from 0.
+ *
+ * Weeks are ISO 8601 weeks starting on Monday. All dates are in UTC.
+ */
+class CalendarVersionScheme implements VersionScheme {
+  readonly name: string
+  private readonly dateTokens: readonly string[]
+  private readonly weekYear: boolean
+
+  constructor(name: string, dateTokens: readonly string[]) {
+    this.name = name
+    this.dateTokens = dateTokens
+    this.weekYear = dateTokens.includes("WW") || dateTokens.includes("0W")
+  }
+
+  parse(versionString: string): Version {
+    const match = /^v?(\d+(?:\.\d+)*)(?:-([0-9A-Za-z.-]+))?(?:\+([0-9A-Za-z.-]+))?$/.exec(versionString)
+    if (match === null || match[1].split(".").length !== this.dateTokens.length + 1) {
+      throw new Error(`Invalid version: ${versionString}. Expected format: ${this.name}`)
+    }
+    return new Version(match[1], match[2]?.split(".") ?? [], match[3]?.split(".") ?? [])
+  }
+
+  /** The default tag is not used, as the first version is that of the run date. */
+  initial(_: Version, date: Date): Version {
+    return new Version(this.format(date, 0))
+  }
+
+  /**
+   * The first version of the run date period, or when still in the period of the last version, the next micro
+   * version. A "none" increment leaves the version unchanged, as for semantic versioning.
+   */
+  next(lastVersion: Version, increment: VersionIncrement, date: Date): Version {
+    if (increment === "none") {
+      return lastVersion
+    }
+    const first = new Version(this.format(date, 0), lastVersion.prerelease, lastVersion.build)
+    if (first.compareCore(lastVersion) > 0) {
+      return first.withComponent(lastVersion.component).withTagTemplate(lastVersion.tagTemplate)
+    }
+    // Also applies when the last version is of a later period, such as when clocks differ, so it still increases
+    const parts = lastVersion.core.split(".")
+    const micro = Number.parseInt(parts[parts.length - 1], 10) + 1
+    return new Version(
+      [...parts.slice(0, -1), `${micro}`].join("."),
+      lastVersion.prerelease,
+      lastVersion.build,
+      lastVersion.component,
+      lastVersion.tagTemplate
+    )
+  }
+
+  private format(date: Date, micro: number): string {
+    const dateParts = this.dateTokens.map((token) => calendarTokens[token](date, this.weekYear))
+    return [...dateParts, `${micro}`].join(".")
+  }
+}
+
+function pad(value: number): string {
+  return `${value}`.padStart(2, "0")
+}
+
+/**
+ * The Thursday of the ISO 8601 week of the date, which decides both the week number and the year of the week.
+ */
+function isoWeekThursday(date: Date): Date {
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  // Sunday is 0 in JavaScript but the last day of the ISO week
+  const weekday = date.getUTCDay() || 7
+  thursday.setUTCDate(thursday.getUTCDate() + 4 - weekday)
+  return thursday
+}
+
+function isoWeek(date: Date): number {
+  const thursday = isoWeekThursday(date)
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1)
+  return Math.floor((thursday.getTime() - yearStart) / 86_400_000 / 7) + 1
+}
+
+function year(date: Date, weekYear: boolean): number {
+  return weekYear ? isoWeekThursday(date).getUTCFullYear() : date.getUTCFullYear()
+}
@@ -1,5 +1,6 @@
 import inc from "semver/functions/inc.js"
 import parse from "semver/functions/parse.js"
+import type { VersionScheme } from "@/versioning/version-scheme"
 
 /** Which part of the version to increment, or "none" to leave unchanged. */
 export type VersionIncrement = VersionComponent | "none"
@@ -7,6 +8,57 @@ export type VersionIncrement = VersionComponent | "none"
 /** The part of the version to increment as understood by `semver` library. */
 export type VersionComponent = "major" | "minor" | "patch"
 
+export const versionIncrements: readonly VersionIncrement[] = ["major", "minor", "patch", "none"]
+
+/** Maps names, such as conventional commit types or PR labels, to the version increment they imply. */
+export type ImpactMapping = Record<string, VersionIncrement>
+
+/**
+ * The version increment for the name in the mapping, or "none" if not mapped.
+ */
+export function lookupImpact(mapping: ImpactMapping, name: string): VersionIncrement {
+  return Object.hasOwn(mapping, name) ? mapping[name] : "none"
+}
+
+/**
+ * Parses lines in the format `<name>: <increment>`, such as `enhancement: minor`, into an impact mapping.
+ * Names are lower cased, as both commit types and labels are matched in lower case. The mapping has no
+ * prototype, so names such as `constructor` or `__proto__` are mapped like any other.
+ *
+ * @throws {Error} If a line is not in the expected format or the increment is not recognised
+ */
+export function parseImpactMapping(lines: string[]): ImpactMapping {
+  const mapping: ImpactMapping = Object.create(null)
+  for (const line of lines) {
+    const separator = line.lastIndexOf(":")
+    const name = line.substring(0, separator).trim().toLowerCase()
+    const impact = line.substring(separator + 1).trim()
+    if (separator === -1 || name === "" || !versionIncrements.includes(impact as VersionIncrement)) {
+      throw new Error(
+        `Invalid impact mapping: '${line}'. Expected format: <name>: <${versionIncrements.join("|")}>`
+      )
+    }
+    mapping[name] = impact as VersionIncrement
+  }
+  return mapping
+}
+
+/**
+ * Renders an impact mapping in the same format parsed by `parseImpactMapping`, but on a single line.
+ */
+export function formatImpactMapping(mapping: ImpactMapping): string {
+  const entries = Object.entries(mapping)
+  return entries.length > 0 ? entries.map(([name, impact]) => `${name}: ${impact}`).join(", ") : "(none)"
+}
+
+/**
+ * Formats the increment applied to the version, with the increment inferred when it differs, such as
+ * `minor (major during initial development)`.
+ */
+export function formatVersionIncrement(applied: VersionIncrement, inferred: VersionIncrement): string {
+  return applied === inferred ? applied : `${applied} (${inferred} during initial development)`
+}
+
 export function parseVersion(versionString: string): Version {
   const semver = parse(versionString, { loose: false })
   if (semver === null) {
@@ -19,6 +71,129 @@ export function parseVersion(versionString: string): Version {
   )
 }
 
+/** The default tag template, such as `v1.2.3`. */
+export const DEFAULT_TAG_TEMPLATE = "v{version}"
+
+/** The default release name template, naming the release after its tag. */
+export const DEFAULT_NAME_TEMPLATE = "{tag}"
+
+const tagPlaceholders = ["{version}"]
+const namePlaceholders = ["{version}", "{date}", "{tag}"]
+
+/**
+ * Checks a tag template, such as `release-{version}`, has a single `{version}` placeholder and no others.
+ *
+ * @throws {Error} If the template is not valid
+ */
+export function validateTagTemplate(template: string): string {
+  const placeholders = findPlaceholders(template)
+  if (placeholders.length !== 1 || placeholders[0] !== "{version}") {
+    throw new Error(
+      `Invalid tag template: '${template}'. Expected a single placeholder of: ${tagPlaceholders.join(", ")}`
+    )
+  }
+  return template
+}
+
+/**
+ * Checks a release name template, such as `MyApp {version} ({date})`, only has known placeholders.
+ *
+ * @throws {Error} If the template is not valid
+ */
+export function validateNameTemplate(template: string): string {
+  const unknown = findPlaceholders(template).filter((placeholder) => !namePlaceholders.includes(placeholder))
+  if (unknown.length > 0) {
+    throw new Error(
+      `Invalid name template: '${template}'. Unknown placeholder ${unknown[0]}, expected any of: ${namePlaceholders.join(", ")}`
+    )
+  }
+  return template
+}
+
+function findPlaceholders(template: string): string[] {
+  return template.match(/\{[^}]*\}/g) ?? []
+}
+
+/**
+ * Parses a release tag through the tag template, such as `v1.2.3`, or with a component, such as `api-v1.2.3`.
+ * The version is parsed by the scheme, defaulting to semantic versioning.
+ *
+ * @throws {Error} If the tag does not have the component prefix, does not match the template, or is not a
+ * valid version
+ */
+export function parseTagVersion(
+  tagName: string,
+  component: string | null = null,
+  tagTemplate: string = DEFAULT_TAG_TEMPLATE,
+  scheme?: VersionScheme
+): Version {
+  const prefix = component ? `${component}-` : ""
+  if (!tagName.startsWith(prefix)) {
+    throw new Error(`Invalid version tag: ${tagName}. Expected prefix: ${prefix}`)
+  }
+  const versionString = matchTagTemplate(tagName.substring(prefix.length), tagTemplate)
+  if (versionString === null) {
+    throw new Error(`Invalid version tag: ${tagName}. Expected template: ${tagTemplate}`)
+  }
+  const version = scheme ? scheme.parse(versionString) : parseVersion(versionString)
+  return version.withComponent(component).withTagTemplate(tagTemplate)
+}
+
+/**
+ * The version part of the tag, or null if the tag does not match the template.
+ */
+function matchTagTemplate(tagName: string, tagTemplate: string): string | null {
+  if (tagTemplate === DEFAULT_TAG_TEMPLATE) {
+    // Kept lenient for the default, as `parseVersion` accepts versions with or without a "v" prefix
+    return tagName
+  }
+  const [before, after] = tagTemplate.split("{version}")
+  const matches =
+    tagName.length > before.length + after.length && tagName.startsWith(before) && tagName.endsWith(after)
+  return matches ? tagName.substring(before.length, tagName.length - after.length) : null
+}
+
+/**
+ * The prefix of release tags, such as `v` for `v1.2.3`, or with a component, such as `api-v` for `api-v1.2.3`.
+ */
+export function tagPrefix(
+  component: string | null = null,
+  tagTemplate: string = DEFAULT_TAG_TEMPLATE
+): string {
+  const prefix = component ? `${component}-` : ""
+  return `${prefix}${tagTemplate.substring(0, tagTemplate.indexOf("{version}"))}`
+}
+
+/**
+ * Renders the release name template for the version, where `{date}` is the UTC date such as `2026-01-31`,
+ * and `{version}` includes any prerelease identifiers, such as `2.0.0-beta.1`, but not build metadata.
+ * A component name is prefixed, such as `api-`, unless included by the `{tag}` placeholder.
+ */
+export function formatReleaseName(template: string, version: Version, date: Date): string {
+  const name = template
+    .replaceAll("{tag}", version.releaseTag)
+    .replaceAll("{version}", version.withBuild([]).toString())
+    .replaceAll("{date}", date.toISOString().substring(0, 10))
+  return version.component && !template.includes("{tag}") ? `${version.component}-${name}` : name
+}
+
+/**
+ * The prefix of release names rendered by `formatReleaseName`, up to the first placeholder that varies by
+ * version, used to match the releases of a component or template.
+ */
+export function releaseNamePrefix(
+  template: string,
+  component: string | null = null,
+  tagTemplate: string = DEFAULT_TAG_TEMPLATE
+): string {
+  const start = template.search(/\{(version|date|tag)\}/)
+  const literal = start === -1 ? template : template.substring(0, start)
+  if (template.startsWith("{tag}", start)) {
+    return `${literal}${tagPrefix(component, tagTemplate)}`
+  }
+  return component && !template.includes("{tag}") ? `${component}-${literal}` : literal
+}
+
 /**
  * Using branch names for prerelease metadata, with path separators converted to prerelease separators (.),
  * and any other unsupported character replaced with hyphens (-) and de-duplicated.
@@ -60,24 +235,58 @@ export class Version {
   readonly core: string
   readonly prerelease: readonly string[]
   readonly build: readonly string[]
+  /** The monorepo component the version applies to, which is rendered in the tag, or null if none. */
+  readonly component: string | null
+  /** The template the tag is rendered with, such as `v{version}`. */
+  readonly tagTemplate: string
 
   /** This supports with or without a "v" prefix. */
-  constructor(core: string, prerelease: readonly string[] = [], build: readonly string[] = []) {
+  constructor(
+    core: string,
+    prerelease: readonly string[] = [],
+    build: readonly string[] = [],
+    component: string | null = null,
+    tagTemplate: string = DEFAULT_TAG_TEMPLATE
+  ) {
     this.core = core
     this.prerelease = prerelease
     this.build = build
+    this.component = component
+    this.tagTemplate = tagTemplate
   }
 
   get tag(): string {
-    return `v${this.core}`
+    const prefix = this.component ? `${this.component}-` : ""
+    return `${prefix}${this.tagTemplate.replace("{version}", this.core)}`
+  }
+
+  /**
+   * The tag of a release of this version, which unlike `tag` includes any prerelease identifiers, such as
+   * `v2.0.0-beta.1` for a release of a prerelease channel.
+   */
+  get releaseTag(): string {
+    const prefix = this.component ? `${this.component}-` : ""
+    return `${prefix}${this.tagTemplate.replace("{version}", this.withBuild([]).toString())}`
   }
 
   withPrerelease(prerelease: string[]): Version {
-    return new Version(this.core, prerelease, this.build)
+    return new Version(this.core, prerelease, this.build, this.component, this.tagTemplate)
   }
 
   withBuild(build: readonly string[]): Version {
-    return new Version(this.core, this.prerelease, build)
+    return new Version(this.core, this.prerelease, build, this.component, this.tagTemplate)
+  }
+
+  withComponent(component: string | null): Version {
+    return new Version(this.core, this.prerelease, this.build, component, this.tagTemplate)
+  }
+
+  withTagTemplate(tagTemplate: string): Version {
+    return new Version(this.core, this.prerelease, this.build, this.component, tagTemplate)
+  }
+
+  get major(): number {
+    return Number.parseInt(this.core.split(".")[0], 10)
   }
 
   /**
@@ -85,18 +294,66 @@ export class Version {
    * The `node-semver` package implements subtle rules here, which are not part of the SemVer spec,
    * such as not bumping a prerelease on a `patch`, but bumping on `minor`.
    * For now, we'll keep it simple and intuitive by always bumping the core version.
+   *
+   * With `initialDevelopment`, a `0.y.z` version is treated as unstable as per the SemVer spec, where
+   * breaking changes bump the minor version and features bump the patch version. This means a `1.0.0`
+   * release is never inferred and needs to be made explicitly.
    */
-  bump(change: VersionIncrement): Version {
-    if (change === "none") {
+  bump(change: VersionIncrement, initialDevelopment: boolean = false): Version {
+    const component = this.appliedIncrement(change, initialDevelopment)
+    if (component === "none") {
       return this
     }
 
-    const next = inc(this.core, change)
+    const next = inc(this.core, component)
     if (next === null) {
       // Since the version is validated in parse(), this shouldn't happen
       throw new Error(`Unable to bump version '${this.core}' with change '${change}'`)
     }
-    return new Version(next, this.prerelease, this.build)
+    return new Version(next, this.prerelease, this.build, this.component, this.tagTemplate)
+  }
+
+  /**
+   * The increment applied by `bump` for the change, which differs from the change for a `0.y.z` version in
+   * initial development.
+   */
+  appliedIncrement(change: VersionIncrement, initialDevelopment: boolean = false): VersionIncrement {
+    return change !== "none" && initialDevelopment && this.major === 0
+      ? initialDevelopmentComponent(change)
+      : change
+  }
+
+  /**
+   * Compares the core version with another, ignoring prerelease and build metadata.
+   * Parts are compared numerically in order, so this applies to any dot-separated numeric scheme, such as
+   * calendar versions.
+   *
+   * @returns A negative number if this version is lower, positive if higher, or 0 if equal
+   */
+  compareCore(other: Version): number {
+    const parts = coreParts(this.core)
+    const otherParts = coreParts(other.core)
+    for (let i = 0; i < Math.max(parts.length, otherParts.length); i++) {
+      const difference = (parts[i] ?? 0) - (otherParts[i] ?? 0)
+      if (difference !== 0) {
+        return difference
+      }
+    }
+    return 0
+  }
+
+  /**
+   * The increment of the core version from a previous version, or "none" if it is not higher.
+   * This is decided by the first part that differs, where parts after the third are considered a patch.
+   */
+  incrementFrom(previous: Version): VersionIncrement {
+    if (this.compareCore(previous) <= 0) {
+      return "none"
+    }
+    const parts = coreParts(this.core)
+    const previousParts = coreParts(previous.core)
+    const index = parts.findIndex((part, i) => part !== (previousParts[i] ?? 0))
+    return (["major", "minor"] as const)[index] ?? "patch"
   }
 
   toString(): string {
@@ -105,3 +362,11 @@ export class Version {
     return `${this.core}${prerelease}${build}`
   }
 }
+
+function coreParts(core: string): number[] {
+  return core.split(".").map((part) => Number.parseInt(part, 10))
+}
+
+function initialDevelopmentComponent(change: VersionComponent): VersionComponent {
+  return change === "major" ? "minor" : "patch"
+}
@@ -0,0 +1,116 @@
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { link, SUMMARY_ENV_VAR, Summary } from "@/actions-core/summary"
+
+describe("Summary", () => {
+  let tempDir: string
+  let summaryFile: string
+  let summary: Summary
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "summary-"))
+    summaryFile = path.join(tempDir, "summary.md")
+    fs.writeFileSync(summaryFile, "")
+    process.env[SUMMARY_ENV_VAR] = summaryFile
+    summary = new Summary()
+  })
+
+  afterEach(() => {
+    delete process.env[SUMMARY_ENV_VAR]
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it("throws if summary env var is undefined", async () => {
+    delete process.env[SUMMARY_ENV_VAR]
+
+    await expect(summary.addRaw("text").write()).rejects.toThrow(
+      "Unable to find environment variable for $GITHUB_STEP_SUMMARY"
+    )
+  })
+
+  it("throws if summary file does not exist", async () => {
+    process.env[SUMMARY_ENV_VAR] = path.join(tempDir, "missing.md")
+
+    await expect(summary.addRaw("text").write()).rejects.toThrow("Unable to access summary file")
+  })
+
+  it("appends text to the summary file and empties the buffer", async () => {
+    fs.writeFileSync(summaryFile, "existing\n")
+
+    await summary.addRaw("text", true).write()
+
+    expect(fs.readFileSync(summaryFile, "utf8")).toBe(`existing\ntext${os.EOL}`)
+    expect(summary.isEmptyBuffer()).toBe(true)
+  })
+
+  it("overwrites the summary file", async () => {
+    fs.writeFileSync(summaryFile, "existing\n")
+
+    await summary.addRaw("text").write({ overwrite: true })
+
+    expect(fs.readFileSync(summaryFile, "utf8")).toBe("text")
+  })
+
+  it("clears the summary file", async () => {
+    fs.writeFileSync(summaryFile, "existing\n")
+
+    await summary.addRaw("text").clear()
+
+    expect(fs.readFileSync(summaryFile, "utf8")).toBe("")
+  })
+
+  it("adds headings with a clamped level", () => {
+    expect(summary.addHeading("One").stringify()).toBe(`# One${os.EOL}${os.EOL}`)
+    expect(summary.emptyBuffer().addHeading("Three", 3).stringify()).toBe(`### Three${os.EOL}${os.EOL}`)
+    expect(summary.emptyBuffer().addHeading("Max", 9).stringify()).toBe(`###### Max${os.EOL}${os.EOL}`)
+  })
+
+  it("adds tables with escaped cells", () => {
+    summary.addTable(
+      ["Name", "Value"],
+      [
+        ["a|b", 1],
+        ["multi\nline", 2]
+      ]
+    )
+
+    expect(summary.stringify()).toBe(
+      ["| Name | Value |", "| --- | --- |", "| a\\|b | 1 |", "| multi line | 2 |", "", ""].join(os.EOL)
+    )
+  })
+
+  it("adds unordered and ordered lists", () => {
+    expect(summary.addList(["a", "b"]).stringify()).toBe(`- a${os.EOL}- b${os.EOL}${os.EOL}`)
+    expect(summary.emptyBuffer().addList(["a", "b"], true).stringify()).toBe(
+      `1. a${os.EOL}2. b${os.EOL}${os.EOL}`
+    )
+  })
+
+  it("adds code blocks", () => {
+    expect(summary.addCodeBlock("const a = 1", "ts").stringify()).toBe(
+      `\`\`\`ts${os.EOL}const a = 1${os.EOL}\`\`\`${os.EOL}${os.EOL}`
+    )
+  })
+
+  it("adds links, paragraphs and separators", () => {
+    summary.addLink("text", "https://example.com").addEOL().addParagraph("para").addSeparator()
+
+    expect(summary.stringify()).toBe(
+      `[text](https://example.com)${os.EOL}para${os.EOL}${os.EOL}---${os.EOL}${os.EOL}`
+    )
+  })
+})
+
+describe("link", () => {
+  it("renders a Markdown link", () => {
+    expect(link("v1.0.0", "https://github.com/o/r/releases/1")).toBe(
+      "[v1.0.0](https://github.com/o/r/releases/1)"
+    )
+  })
+
+  it("escapes brackets in the text and parentheses in the URL", () => {
+    expect(link("[draft]", "https://example.com/a(b)")).toBe("[\\[draft\\]](https://example.com/a\\(b\\))")
+  })
+})
@@ -0,0 +1,139 @@
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest"
+import { ApiUsage, findApiUsage, formatApiUsage } from "@/api-usage"
+import { createOctokit } from "@/octokit-factory"
+
+describe("ApiUsage", () => {
+  it("should total the calls by endpoint", () => {
+    const usage = new ApiUsage()
+
+    usage.record("GraphQL PullRequests", 200, 1)
+    usage.record("GET /repos/{owner}/{repo}/releases", 120, null)
+    usage.record("GraphQL PullRequests", 250, 1)
+
+    expect(usage.endpoints()).toEqual([
+      { endpoint: "GraphQL PullRequests", calls: 2, duration: 450, cost: 2 },
+      { endpoint: "GET /repos/{owner}/{repo}/releases", calls: 1, duration: 120, cost: null }
+    ])
+    expect(usage.total()).toEqual({ endpoint: "Total", calls: 3, duration: 570, cost: 2 })
+  })
+
+  it("should have no cost without GraphQL calls", () => {
+    const usage = new ApiUsage()
+
+    usage.record("GET /repos/{owner}/{repo}/releases", 120, null)
+
+    expect(usage.total()).toEqual({ endpoint: "Total", calls: 1, duration: 120, cost: null })
+  })
+})
+
+describe("formatApiUsage", () => {
+  it("should format a table of the endpoints and the total", () => {
+    const usage = new ApiUsage()
+    usage.record("GET /repos/{owner}/{repo}/releases", 120.4, null)
+    usage.record("GraphQL PullRequests", 200, 1)
+    usage.record("GraphQL PullRequests", 250, 1)
+
+    expect(formatApiUsage(usage)).toBe(
+      [
+        "Endpoint                            Calls  Duration  Cost",
+        "GET /repos/{owner}/{repo}/releases      1     120ms     -",
+        "GraphQL PullRequests                    2     450ms     2",
+        "Total                                   3     570ms     2"
+      ].join("\n")
+    )
+  })
+
+  it("should format only the total without calls", () => {
+    expect(formatApiUsage(new ApiUsage())).toBe(
+      ["Endpoint  Calls  Duration  Cost", "Total         0       0ms     -"].join("\n")
+    )
+  })
+})
+
+describe("trackApiUsage", () => {
+  let server: Server
+  let serverUrl: string
+  let statuses: number[]
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      const status = statuses.shift() ?? 200
+      response.writeHead(status, { "content-type": "application/json" })
+      if (status !== 200) {
+        response.end(JSON.stringify({ message: `Failed with ${status}` }))
+      } else if (request.url === "/graphql") {
+        response.end(JSON.stringify({ data: { rateLimit: { cost: 3 }, repository: null } }))
+      } else {
+        response.end(JSON.stringify({ ok: true }))
+      }
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    statuses = []
+  })
+
+  function createTestOctokit(usage?: ApiUsage) {
+    return createOctokit({
+      auth: "test-token",
+      baseUrl: serverUrl,
+      throttle: false,
+      retry: { retries: 3, baseDelay: 1, maxWait: 1000 },
+      usage: usage
+    })
+  }
+
+  it("should record the REST calls by route", async () => {
+    const octokit = createTestOctokit()
+
+    await octokit.request("GET /repos/{owner}/{repo}", { owner: "o", repo: "a" })
+    await octokit.request("GET /repos/{owner}/{repo}", { owner: "o", repo: "b" })
+
+    expect(findApiUsage(octokit)?.endpoints()).toEqual([
+      { endpoint: "GET /repos/{owner}/{repo}", calls: 2, duration: expect.any(Number), cost: null }
+    ])
+  })
+
+  it("should record the GraphQL calls by operation with their cost", async () => {
+    const octokit = createTestOctokit()
+
+    await octokit.graphql("query PullRequests($owner: String!) { rateLimit { cost } }", { owner: "o" })
+    await octokit.graphql("{ rateLimit { cost } }")
+
+    expect(findApiUsage(octokit)?.endpoints()).toEqual([
+      { endpoint: "GraphQL PullRequests", calls: 1, duration: expect.any(Number), cost: 3 },
+      { endpoint: "GraphQL (anonymous)", calls: 1, duration: expect.any(Number), cost: 3 }
+    ])
+  })
+
+  it("should record each retry and failure", async () => {
+    statuses = [502, 200, 404]
+    const octokit = createTestOctokit()
+
+    await octokit.request("GET /repos/{owner}/{repo}", { owner: "o", repo: "r" })
+    await expect(octokit.request("GET /repos/{owner}/{repo}", { owner: "o", repo: "r" })).rejects.toThrow()
+
+    expect(findApiUsage(octokit)?.total().calls).toBe(3)
+  })
+
+  it("should share the usage across Octokit instances", async () => {
+    const usage = new ApiUsage()
+
+    await createTestOctokit(usage).request("GET /repos/{owner}/{repo}", { owner: "o", repo: "r" })
+    await createTestOctokit(usage).request("GET /repos/{owner}/{repo}", { owner: "o", repo: "r" })
+
+    expect(usage.total().calls).toBe(2)
+  })
+
+  it("should have no usage for other Octokit instances", () => {
+    expect(findApiUsage({})).toBeNull()
+  })
+})
@@ -0,0 +1,130 @@
+import { generateKeyPairSync, verify } from "node:crypto"
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http"
+import type { AddressInfo } from "node:net"
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { createOctokit } from "@/octokit-factory"
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: "pkcs8", format: "pem" },
+  publicKeyEncoding: { type: "spki", format: "pem" }
+})
+
+/**
+ * The issuer of the JWT in the authorization header, when signed with the private key of the app.
+ */
+function verifyJwtIssuer(authorization: string | undefined): string | null {
+  const [header, payload, signature] = (authorization ?? "").replace(/^bearer /, "").split(".")
+  const signed = verify(
+    "RSA-SHA256",
+    Buffer.from(`${header}.${payload}`),
+    publicKey,
+    Buffer.from(signature ?? "", "base64url")
+  )
+  return signed ? JSON.parse(Buffer.from(payload, "base64url").toString()).iss : null
+}
+
+describe("createRepositoryInstallationAuth", () => {
+  let server: Server
+  let serverUrl: string
+  let requests: { route: string; authorization: string | undefined }[]
+  let tokens: number
+
+  /**
+   * A stand-in for the GitHub API, where the app is installed on `test-owner/test-repo` only.
+   */
+  function handleRequest(request: IncomingMessage, response: ServerResponse) {
+    const json = (status: number, body: unknown) => {
+      response.writeHead(status, { "content-type": "application/json" })
+      response.end(JSON.stringify(body))
+    }
+    const route = `${request.method} ${request.url}`
+    requests.push({ route: route, authorization: request.headers.authorization })
+    if (route === "GET /repos/test-owner/test-repo/installation") {
+      json(200, { id: 42 })
+    } else if (route === "POST /app/installations/42/access_tokens") {
+      tokens++
+      json(201, {
+        token: `ghs_token${tokens}`,
+        expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+        permissions: { contents: "write", pull_requests: "read" },
+        repository_selection: "selected"
+      })
+    } else if (route === "GET /repos/test-owner/test-repo/releases") {
+      json(200, [])
+    } else {
+      json(404, { message: "Not Found" })
+    }
+  }
+
+  beforeAll(async () => {
+    server = createServer(handleRequest)
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    requests = []
+    tokens = 0
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function createAppOctokit(owner: string = "test-owner", repo: string = "test-repo") {
+    return createOctokit({
+      app: { appId: "123", privateKey: privateKey, owner: owner, repo: repo },
+      baseUrl: serverUrl,
+      throttle: false
+    })
+  }
+
+  it("should authenticate with an installation access token of the repository", async () => {
+    const octokit = createAppOctokit()
+
+    await octokit.rest.repos.listReleases({ owner: "test-owner", repo: "test-repo" })
+    await octokit.rest.repos.listReleases({ owner: "test-owner", repo: "test-repo" })
+
+    expect(requests.map((request) => request.route)).toEqual([
+      "GET /repos/test-owner/test-repo/installation",
+      "POST /app/installations/42/access_tokens",
+      "GET /repos/test-owner/test-repo/releases",
+      "GET /repos/test-owner/test-repo/releases"
+    ])
+    expect(verifyJwtIssuer(requests[0].authorization)).toBe("123")
+    expect(verifyJwtIssuer(requests[1].authorization)).toBe("123")
+    expect(requests[2].authorization).toBe("token ghs_token1")
+    expect(requests[3].authorization).toBe("token ghs_token1")
+  })
+
+  it("should create a new installation access token when it expires", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    const octokit = createAppOctokit()
+
+    await octokit.rest.repos.listReleases({ owner: "test-owner", repo: "test-repo" })
+    vi.setSystemTime(Date.now() + 60 * 60 * 1000)
+    await octokit.rest.repos.listReleases({ owner: "test-owner", repo: "test-repo" })
+
+    expect(requests.map((request) => request.route)).toEqual([
+      "GET /repos/test-owner/test-repo/installation",
+      "POST /app/installations/42/access_tokens",
+      "GET /repos/test-owner/test-repo/releases",
+      "POST /app/installations/42/access_tokens",
+      "GET /repos/test-owner/test-repo/releases"
+    ])
+    expect(requests[4].authorization).toBe("token ghs_token2")
+  })
+
+  it("should fail when the app is not installed on the repository", async () => {
+    const octokit = createAppOctokit("other-owner", "other-repo")
+
+    await expect(
+      octokit.rest.repos.listReleases({ owner: "other-owner", repo: "other-repo" })
+    ).rejects.toThrow("GitHub App 123 is not installed on other-owner/other-repo")
+  })
+})
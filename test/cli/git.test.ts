@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+import { detectBranch, detectRepository, parseRemoteUrl } from "@/cli/git"
+
+describe("parseRemoteUrl", () => {
+  it("should parse SSH remotes", () => {
+    expect(parseRemoteUrl("git@github.com:owner/repo.git")).toEqual({ owner: "owner", repo: "repo" })
+    expect(parseRemoteUrl("ssh://git@github.com:22/owner/repo.git")).toEqual({ owner: "owner", repo: "repo" })
+  })
+
+  it("should parse HTTPS remotes with or without the .git suffix", () => {
+    expect(parseRemoteUrl("https://github.com/owner/repo.git")).toEqual({ owner: "owner", repo: "repo" })
+    expect(parseRemoteUrl("https://github.com/owner/repo")).toEqual({ owner: "owner", repo: "repo" })
+    expect(parseRemoteUrl("https://token@github.example.com/owner/my.repo/")).toEqual({
+      owner: "owner",
+      repo: "my.repo"
+    })
+  })
+
+  it("should not parse URLs without an owner and repo", () => {
+    expect(parseRemoteUrl("https://github.com/repo")).toBeNull()
+    expect(parseRemoteUrl("/local/path")).toBeNull()
+  })
+})
+
+describe("detectRepository", () => {
+  it("should detect the repository from the origin remote", () => {
+    const git = (args: string[]) =>
+      args.join(" ") === "remote get-url origin" ? "git@github.com:o/r.git" : ""
+
+    expect(detectRepository(git)).toEqual({ owner: "o", repo: "r" })
+  })
+
+  it("should fail when there is no origin remote", () => {
+    const git = () => {
+      throw new Error("error: No such remote 'origin'")
+    }
+
+    expect(() => detectRepository(git)).toThrow(
+      "Unable to detect the repository from the git remote 'origin'. Specify --owner and --repo"
+    )
+  })
+})
+
+describe("detectBranch", () => {
+  it("should detect the current branch", () => {
+    expect(detectBranch(() => "feature/x")).toBe("feature/x")
+  })
+
+  it("should fail with a detached HEAD", () => {
+    expect(() => detectBranch(() => "HEAD")).toThrow(
+      "Unable to detect the current git branch. Specify --branch"
+    )
+  })
+})
@@ -0,0 +1,608 @@
+import { RequestError } from "octokit"
+import { beforeEach, describe, expect, it } from "vitest"
+import { ApiUsage } from "@/api-usage"
+import { configurationError, ExitCode } from "@/cli/errors"
+import { runCli } from "@/cli/program"
+import type { CliRuntime } from "@/cli/runtime"
+import { emptySnapshot, formatSnapshot, type Snapshot } from "@/data/snapshot"
+import { createOctokit } from "@/octokit-factory"
+import { createSnapshotFetch } from "../data/snapshot-fetch"
+import { Octomock } from "../octomock/octomock"
+
+describe("runCli", () => {
+  let octomock: Octomock
+  let runtime: CliRuntime
+  let stdout: string[]
+  let stderr: string[]
+  let files: Map<string, string>
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    stdout = []
+    stderr = []
+    files = new Map()
+    runtime = {
+      createOctokit: () => octomock.octokit,
+      fetch: () => Promise.reject(new Error("Unexpected request")),
+      apiUsage: new ApiUsage(),
+      git: (args) => {
+        if (args.join(" ") === "remote get-url origin") {
+          return "git@github.com:test-owner/test-repo.git"
+        }
+        if (args.join(" ") === "rev-parse --abbrev-ref HEAD") {
+          return "main"
+        }
+        throw new Error(`Unexpected git command: ${args.join(" ")}`)
+      },
+      env: {},
+      readFile: (path) => {
+        const text = files.get(path)
+        if (text === undefined) {
+          throw new Error(`ENOENT: no such file or directory, open '${path}'`)
+        }
+        return text
+      },
+      writeFile: (path, text) => files.set(path, text),
+      stdout: (text) => stdout.push(text),
+      stderr: (text) => stderr.push(text)
+    }
+  })
+
+  describe("help", () => {
+    it("should list the commands", async () => {
+      const exitCode = await runCli(["--help"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Success)
+      expect(stdout[0]).toContain("Usage: release-party <command> [options]")
+      expect(stdout[0]).toMatch(/^ {2}promote +Promote a prerelease to the final release$/m)
+    })
+
+    it("should show the options of a command", async () => {
+      const exitCode = await runCli(["run", "--help"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Success)
+      expect(stdout[0]).toContain("Usage: release-party run [options]")
+      expect(stdout[0]).toMatch(/^ {2}--default-tag <tag> +The tag to use if no prior release is found/m)
+      expect(stdout[0]).toMatch(/^ {2}-h, --help +Show the help for the command\.$/m)
+    })
+
+    it("should show the options of a command with the help command", async () => {
+      await runCli(["help", "promote"], runtime)
+
+      expect(stdout[0]).toContain("Usage: release-party promote [options] <version>")
+    })
+
+    it("should show the help as a usage error without a command", async () => {
+      const exitCode = await runCli([], runtime)
+
+      expect(exitCode).toBe(ExitCode.Usage)
+      expect(stderr[0]).toContain("Usage: release-party <command> [options]")
+    })
+  })
+
+  describe("usage errors", () => {
+    it("should fail for an unknown command", async () => {
+      const exitCode = await runCli(["publish"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Usage)
+      expect(stderr).toEqual(["Error: Unknown command: publish", "Run 'release-party --help' for usage."])
+    })
+
+    it("should fail for an unknown option", async () => {
+      const exitCode = await runCli(["releases", "--bogus"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Usage)
+      expect(stderr[0]).toContain("Unknown option '--bogus'")
+    })
+
+    it("should fail for an invalid format", async () => {
+      const exitCode = await runCli(["releases", "--format", "yaml"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Usage)
+      expect(stderr[0]).toBe("Error: Invalid --format: yaml. Expected one of: json, text")
+    })
+
+    it("should fail for missing arguments", async () => {
+      const exitCode = await runCli(["promote"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Usage)
+      expect(stderr[0]).toBe("Error: Expected arguments: <version>")
+    })
+
+    it("should fail for unexpected arguments", async () => {
+      const exitCode = await runCli(["run", "test-owner"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Usage)
+      expect(stderr[0]).toBe("Error: Unexpected argument: test-owner")
+    })
+  })
+
+  describe("failures", () => {
+    it("should fail with a configuration error when the token is not set", async () => {
+      runtime.createOctokit = () => {
+        throw configurationError("GITHUB_TOKEN is not set")
+      }
+
+      const exitCode = await runCli(["releases"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Configuration)
+      expect(stderr).toEqual(["Error: GITHUB_TOKEN is not set"])
+    })
+
+    it("should fail with a configuration error when the repository cannot be detected", async () => {
+      runtime.git = () => {
+        throw new Error("fatal: not a git repository")
+      }
+
+      const exitCode = await runCli(["releases", "--branch", "main"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Configuration)
+    })
+
+    it("should fail with a GitHub API error when a request fails", async () => {
+      octomock.graphQL.mockRejectedValueOnce(
+        new RequestError("Bad credentials", 401, {
+          request: { method: "POST", url: "https://api.github.com/graphql", headers: {} }
+        })
+      )
+
+      const exitCode = await runCli(["pulls", "incoming"], runtime)
+
+      expect(exitCode).toBe(ExitCode.GitHubApi)
+      expect(stderr).toEqual(["Error: Bad credentials"])
+    })
+
+    it("should fail when the command fails", async () => {
+      const exitCode = await runCli(["promote", "v2.0.0-rc.1"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Failure)
+      expect(stderr).toEqual(["Error: Prerelease not found: v2.0.0-rc.1"])
+    })
+  })
+
+  describe("run", () => {
+    beforeEach(() => {
+      octomock.stageRelease({
+        id: 1,
+        name: "v1.2.3",
+        tag_name: "v1.2.3",
+        target_commitish: "main",
+        published_at: "2024-01-01T00:00:00Z"
+      })
+      octomock.stagePullRequest({ number: 1, title: "feat: add feature" })
+    })
+
+    it("should perform the action for the current branch of the git remote repository", async () => {
+      const exitCode = await runCli(["run"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Success)
+      expect(octomock.createRelease).toHaveBeenCalledWith(
+        expect.objectContaining({ owner: "test-owner", repo: "test-repo", tag_name: "v1.3.0", draft: true })
+      )
+      expect(stdout[0]).toContain("Action: created")
+      expect(stdout[0]).toContain("  #1 feat: add feature [minor: type `feat`]")
+      expect(stdout[0]).toContain("Next Version: 1.3.0 (1.3.0)")
+    })
+
+    it("should output JSON with versions as strings", async () => {
+      await runCli(["run", "--dry-run", "--format", "json"], runtime)
+
+      const output = JSON.parse(stdout[0])
+      expect(output).toMatchObject({
+        action: "would-create",
+        lastVersion: "1.2.3",
+        version: "1.3.0",
+        request: { tag_name: "v1.3.0" }
+      })
+      expect(octomock.createRelease).not.toHaveBeenCalled()
+    })
+
+    it("should only infer the version when the branch is not a release branch", async () => {
+      octomock.stagePullRequest({
+        number: 2,
+        title: "fix: bug",
+        headRefName: "feature/x",
+        state: "OPEN",
+        mergedAt: null
+      })
+
+      await runCli(
+        [
+          "run",
+          "--owner",
+          "o",
+          "--repo",
+          "r",
+          "--branch",
+          "feature/x",
+          "--release-branches",
+          "main,release/*"
+        ],
+        runtime
+      )
+
+      expect(stdout[0]).toContain("Action: version")
+      expect(octomock.createRelease).not.toHaveBeenCalled()
+    })
+
+    it("should add build metadata when run by a workflow", async () => {
+      runtime.env = { GITHUB_RUN_NUMBER: "42", GITHUB_RUN_ATTEMPT: "2" }
+
+      await runCli(["run"], runtime)
+
+      expect(stdout[0]).toContain("Next Version: 1.3.0 (1.3.0+42.2)")
+    })
+
+    it("should apply the options of the action inputs", async () => {
+      octomock.stageRelease({ id: 2, tag_name: "release-1.2.3", published_at: "2024-01-01T00:00:00Z" })
+      octomock.stagePullRequest({ number: 2, title: "perf: faster" })
+      octomock.stagePullRequest({
+        number: 3,
+        title: "docs: readme",
+        labels: { nodes: [{ name: "Breaking" }] }
+      })
+
+      await runCli(
+        [
+          "run",
+          "--dry-run",
+          "--tag-template",
+          "release-{version}",
+          "--name-template",
+          "MyApp {version}",
+          "--type-impacts",
+          "perf: patch",
+          "--label-impacts",
+          "breaking: major",
+          "--strict"
+        ],
+        runtime
+      )
+
+      expect(stdout[0]).toContain("#2 perf: faster [patch: type `perf`]")
+      expect(stdout[0]).toContain("#3 docs: readme [major: label `Breaking`]")
+      expect(stdout[0]).toContain('+ tag_name: "release-2.0.0"')
+      expect(stdout[0]).toContain('+ name: "MyApp 2.0.0"')
+    })
+
+    it("should perform the action for each component", async () => {
+      octomock.stagePullRequest({ number: 2, title: "fix(web): layout" })
+      octomock.stagePullRequest({
+        number: 3,
+        title: "chore: tidy",
+        files: { nodes: [{ path: "packages/shared/index.ts" }] }
+      })
+
+      await runCli(
+        [
+          "run",
+          "--dry-run",
+          "--components",
+          "api: packages/api/**, packages/shared/**",
+          "--components",
+          "web"
+        ],
+        runtime
+      )
+
+      expect(stdout[0]).toContain("Component: api\nAction: would-create")
+      expect(stdout[0]).toContain("#3 chore: tidy")
+      expect(stdout[0]).toContain("Component: web\nAction: would-create")
+      expect(stdout[0]).toContain('+ tag_name: "web-v0.0.0"')
+    })
+
+    it("should make prereleases on a prerelease channel branch", async () => {
+      await runCli(
+        ["run", "--dry-run", "--prerelease-branches", "main: beta", "--release-branches", "release"],
+        runtime
+      )
+
+      expect(stdout[0]).toContain("Next Version: 1.3.0 (1.3.0-beta.1)")
+    })
+
+    it("should fail for an invalid option value", async () => {
+      const exitCode = await runCli(["run", "--type-impacts", "perf"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Usage)
+      expect(stderr[0]).toBe(
+        "Error: Invalid impact mapping: 'perf'. Expected format: <name>: <major|minor|patch|none>"
+      )
+    })
+  })
+
+  describe("explain", () => {
+    beforeEach(() => {
+      octomock.stageRelease({
+        id: 1,
+        name: "v2.4.0",
+        tag_name: "v2.4.0",
+        target_commitish: "main",
+        published_at: "2026-01-01T00:00:00Z"
+      })
+      octomock.stageRelease({ id: 2, tag_name: "v2.3.1", target_commitish: "release/2.3" })
+      octomock.stageRelease({ id: 3, tag_name: "v3.0.0-rc.1", target_commitish: "main", prerelease: true })
+      octomock.stageRelease({ id: 4, name: "v2.5.0", target_commitish: "main", draft: true })
+      octomock.stagePullRequest({ number: 1, title: "feat!: drop support for v1 API" })
+      octomock.stagePullRequest({ number: 2, title: "fix: bug" })
+    })
+
+    it("should explain the decisions leading to the next version", async () => {
+      const exitCode = await runCli(["explain", "--branch", "main"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Success)
+      expect(stdout[0]).toBe(
+        [
+          "Branch: main is a release branch, matching `main`",
+          "Skipped Release: v2.5.0 (draft), a draft",
+          "Skipped Release: v3.0.0-rc.1, a prerelease",
+          "Skipped Release: v2.3.1, released from release/2.3",
+          "Last Release: v2.4.0, published 2026-01-01T00:00:00.000Z, the latest published release of main",
+          "Merged Since: 2026-01-01T00:00:00.000Z, when the last release was published",
+          "Pull Requests: 2",
+          "  #1 feat!: drop support for v1 API [major: `!` marker]",
+          "  #2 fix: bug [patch: type `fix`]",
+          "Version Increment: major",
+          "Next Version: 3.0.0 (3.0.0), a major increment from 2.4.0"
+        ].join("\n")
+      )
+      expect(octomock.createRelease).not.toHaveBeenCalled()
+    })
+
+    it("should output the trace events as JSON", async () => {
+      await runCli(["explain", "--format", "json"], runtime)
+
+      const events = JSON.parse(stdout[0])
+      expect(events.map((event: { type: string }) => event.type)).toEqual([
+        "branch",
+        "release-skipped",
+        "release-skipped",
+        "release-skipped",
+        "last-release",
+        "merged-since",
+        "pull-requests",
+        "version"
+      ])
+      expect(events[7]).toMatchObject({ lastVersion: "2.4.0", increment: "major", version: "3.0.0" })
+    })
+
+    it("should explain each component in turn", async () => {
+      await runCli(["explain", "--components", "api", "--components", "web"], runtime)
+
+      expect(stdout[0]).toContain("Component: api\nBranch: main is a release branch, matching `main`")
+      expect(stdout[0]).toContain("Component: web\nBranch: main is a release branch, matching `main`")
+    })
+
+    it("should explain a feature branch without an outgoing pull request", async () => {
+      await runCli(["explain", "--release-branches", "develop"], runtime)
+
+      expect(stdout[0]).toContain("Branch: main is a feature branch, matching no release branch")
+      expect(stdout[0]).toContain(
+        "Feature Pull Request: (none), so the target branch and version are unknown"
+      )
+    })
+  })
+
+  describe("snapshots", () => {
+    let snapshot: Snapshot
+
+    beforeEach(() => {
+      snapshot = {
+        ...emptySnapshot("snapshot-owner", "snapshot-repo", "develop"),
+        releases: [
+          {
+            id: 1,
+            tag_name: "v1.2.3",
+            target_commitish: "develop",
+            name: "v1.2.3",
+            body: null,
+            published_at: "2026-01-01T00:00:00Z",
+            draft: false,
+            prerelease: false,
+            html_url: "https://github.com/snapshot-owner/snapshot-repo/releases/1"
+          }
+        ],
+        pullRequests: [
+          {
+            title: "feat!: drop support",
+            number: 1,
+            baseRefName: "develop",
+            state: "MERGED",
+            mergedAt: "2026-01-02T00:00:00Z",
+            labels: { nodes: [] }
+          }
+        ]
+      }
+    })
+
+    it("should replay a snapshot as a dry run without a token or git repository", async () => {
+      files.set("snapshot.json", formatSnapshot(snapshot))
+      runtime.createOctokit = () => {
+        throw configurationError("GITHUB_TOKEN is not set")
+      }
+      runtime.git = () => {
+        throw new Error("fatal: not a git repository")
+      }
+
+      const exitCode = await runCli(["run", "--replay", "snapshot.json", "--format", "json"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Success)
+      expect(JSON.parse(stdout[0])).toMatchObject({
+        action: "would-create",
+        version: "2.0.0",
+        request: { owner: "snapshot-owner", repo: "snapshot-repo", target_commitish: "develop" }
+      })
+    })
+
+    it("should explain a replayed snapshot for another branch", async () => {
+      files.set("snapshot.json", JSON.stringify({ releases: snapshot.releases }))
+
+      await runCli(["explain", "--replay", "snapshot.json", "--branch", "develop"], runtime)
+
+      expect(stdout[0]).toContain("Last Release: v1.2.3")
+      expect(stdout[0]).toContain("Pull Requests: 0")
+    })
+
+    it("should show no API calls when replaying", async () => {
+      files.set("snapshot.json", formatSnapshot(snapshot))
+
+      const exitCode = await runCli(["run", "--replay", "snapshot.json", "--api-usage"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Success)
+      expect(stderr[0]).toMatch(/^API Usage:\nEndpoint +Calls +Duration +Cost\n/)
+      expect(stderr[0]).toMatch(/\nTotal +0 +0ms +- *$/)
+    })
+
+    it("should record the API responses of a run", async () => {
+      runtime.fetch = createSnapshotFetch(snapshot)
+      runtime.createOctokit = (fetch) => createOctokit({ fetch: fetch, throttle: false })
+
+      await runCli(
+        ["explain", "--branch", "develop", "--record", "recorded.json", "--label-impacts", "breaking: major"],
+        runtime
+      )
+
+      expect(JSON.parse(files.get("recorded.json") ?? "")).toEqual({
+        ...snapshot,
+        owner: "test-owner",
+        repo: "test-repo",
+        options: { "label-impacts": ["breaking: major"] }
+      })
+    })
+
+    it("should replay the recorded options unless specified again", async () => {
+      files.set(
+        "snapshot.json",
+        formatSnapshot({
+          ...snapshot,
+          options: { "tag-template": "release-{version}", "default-tag": "v0.1.0" }
+        })
+      )
+
+      await runCli(["run", "--replay", "snapshot.json", "--format", "json"], runtime)
+      await runCli(
+        ["run", "--replay", "snapshot.json", "--format", "json", "--tag-template", "v{version}"],
+        runtime
+      )
+
+      // The release tagged v1.2.3 does not match the recorded template, so the recorded default tag is used
+      expect(JSON.parse(stdout[0])).toMatchObject({
+        lastVersion: null,
+        request: { tag_name: "release-0.1.0" }
+      })
+      expect(JSON.parse(stdout[1])).toMatchObject({ lastVersion: "1.2.3", request: { tag_name: "v2.0.0" } })
+    })
+
+    it("should fail when the snapshot cannot be read", async () => {
+      const exitCode = await runCli(["run", "--replay", "missing.json"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Configuration)
+      expect(stderr[0]).toBe(
+        "Error: Unable to read --replay missing.json: ENOENT: no such file or directory, open 'missing.json'"
+      )
+    })
+
+    it("should fail when the snapshot is invalid", async () => {
+      files.set("snapshot.json", JSON.stringify({ releases: {} }))
+
+      const exitCode = await runCli(["run", "--replay", "snapshot.json"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Configuration)
+      expect(stderr[0]).toBe(
+        "Error: Invalid snapshot: expected releases to be an array, in --replay snapshot.json"
+      )
+    })
+
+    it("should fail when both replaying and recording", async () => {
+      const exitCode = await runCli(["run", "--replay", "a.json", "--record", "b.json"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Usage)
+    })
+  })
+
+  describe("promote", () => {
+    beforeEach(() => {
+      octomock.stageRelease({
+        id: 1,
+        tag_name: "api-release-2.0.0-rc.1",
+        target_commitish: "main",
+        prerelease: true
+      })
+      octomock.stageTag("api-release-2.0.0-rc.1", "abc123")
+    })
+
+    it("should promote the prerelease of a component with the tag template", async () => {
+      const exitCode = await runCli(
+        ["promote", "api-release-2.0.0-rc.1", "--component", "api", "--tag-template", "release-{version}"],
+        runtime
+      )
+
+      expect(exitCode).toBe(ExitCode.Success)
+      expect(octomock.createRef).toHaveBeenCalledWith(
+        expect.objectContaining({ ref: "refs/tags/api-release-2.0.0", sha: "abc123" })
+      )
+      expect(stdout[0]).toContain("Action: promoted")
+    })
+
+    it("should report the request to publish the release in a dry run", async () => {
+      const exitCode = await runCli(
+        [
+          "promote",
+          "api-release-2.0.0-rc.1",
+          "--component",
+          "api",
+          "--tag-template",
+          "release-{version}",
+          "--dry-run"
+        ],
+        runtime
+      )
+
+      expect(exitCode).toBe(ExitCode.Success)
+      expect(octomock.createRef).not.toHaveBeenCalled()
+      expect(octomock.createRelease).not.toHaveBeenCalled()
+      expect(stdout[0]).toContain("Action: would-promote")
+      expect(stdout[0]).toContain("Tag Commit: abc123")
+      expect(stdout[0]).toContain('+ tag_name: "api-release-2.0.0"')
+    })
+
+    it("should fail for an invalid tag template", async () => {
+      const exitCode = await runCli(["promote", "v2.0.0-rc.1", "--tag-template", "release"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Usage)
+      expect(stderr[0]).toContain("Invalid tag template: 'release'")
+    })
+  })
+
+  describe("releases", () => {
+    it("should show the last draft and release of the branch", async () => {
+      octomock.stageRelease({ id: 1, name: "v1.0.0", target_commitish: "develop", draft: true })
+      octomock.stageRelease({ id: 2, name: "v0.9.0", tag_name: "v0.9.0", target_commitish: "develop" })
+
+      await runCli(["releases", "--branch", "develop"], runtime)
+
+      expect(stdout[0]).toBe(
+        [
+          "Last Draft: v1.0.0 (draft) https://github.com/test-owner/test-repo/releases/1",
+          "Last Release: v0.9.0 https://github.com/test-owner/test-repo/releases/2"
+        ].join("\n")
+      )
+    })
+  })
+
+  describe("pulls", () => {
+    it("should list the incoming pull requests", async () => {
+      octomock.stagePullRequest({ number: 1, title: "feat: add feature", mergedAt: "2026-01-10T00:00:00Z" })
+
+      await runCli(["pulls", "incoming"], runtime)
+
+      expect(stdout[0]).toBe("#1 feat: add feature merged 2026-01-10T00:00:00.000Z")
+    })
+
+    it("should fail for an invalid direction", async () => {
+      const exitCode = await runCli(["pulls", "sideways"], runtime)
+
+      expect(exitCode).toBe(ExitCode.Usage)
+      expect(stderr[0]).toBe("Error: Invalid direction: sideways. Expected one of: incoming, outgoing")
+    })
+  })
+})
@@ -18,6 +18,7 @@ describe("createContext", () => {
     process.env.GITHUB_REF = "refs/heads/main"
     process.env.GITHUB_RUN_NUMBER = "1"
     process.env.GITHUB_RUN_ATTEMPT = "1"
+    process.env.GITHUB_SHA = "abc123"
   })
 
   afterEach(() => {
@@ -34,7 +35,8 @@ describe("createContext", () => {
       branch: "main",
       releaseBranches: ["main"],
       runNumber: "1",
-      runAttempt: "1"
+      runAttempt: "1",
+      sha: "abc123"
     })
     expect(octokitFactory.createOctokit).toHaveBeenCalledWith({ auth: "test-token" })
   })
@@ -55,13 +57,56 @@ describe("createContext", () => {
     expect(context.branch).toBe("feature/my-feature")
   })
 
-  it("uses GITHUB_REF_NAME as fallback for tags", () => {
-    process.env.GITHUB_REF = "refs/tags/v1.1.1" // not refs/heads/*
-    process.env.GITHUB_REF_NAME = "v1.0.0"
+  it("uses GITHUB_REF_NAME as fallback for other refs", () => {
+    process.env.GITHUB_REF = "refs/pull/12/merge"
+    process.env.GITHUB_REF_NAME = "12/merge"
 
     const context = createContext()
 
-    expect(context.branch).toBe("v1.0.0")
+    expect(context.branch).toBe("12/merge")
+  })
+
+  it("uses the target branch for tags", () => {
+    process.env.GITHUB_REF = "refs/tags/v1.1.1"
+    process.env.GITHUB_REF_NAME = "v1.1.1"
+
+    const context = createContext("release", ["main"])
+
+    expect(context.branch).toBe("release")
+  })
+
+  it("uses the first release branch name for tags", () => {
+    process.env.GITHUB_REF = "refs/tags/v1.1.1"
+    process.env.GITHUB_REF_NAME = "v1.1.1"
+
+    const context = createContext("", ["release/*", "!main", "main", "develop"])
+
+    expect(context.branch).toBe("main")
+    expect(context.tag).toBe("v1.1.1")
+    expect(context.releaseBranches).toEqual(["release/*", "!main", "main", "develop"])
+  })
+
+  it("throws error for tags when there is no release branch name", () => {
+    process.env.GITHUB_REF = "refs/tags/v1.1.1"
+    process.env.GITHUB_REF_NAME = "v1.1.1"
+
+    expect(() => createContext("", ["release/*"])).toThrow(
+      "Unable to determine branch for tag GITHUB_REF: refs/tags/v1.1.1. Specify target-branch or a release branch name"
+    )
+  })
+
+  it("reads the commit SHA", () => {
+    process.env.GITHUB_SHA = "def456"
+
+    const context = createContext()
+
+    expect(context.sha).toBe("def456")
+  })
+
+  it("throws error when GITHUB_SHA is not set", () => {
+    delete process.env.GITHUB_SHA
+
+    expect(() => createContext()).toThrow("GITHUB_SHA environment variable is not set")
   })
 
   it("throws error when GITHUB_TOKEN is not set", () => {
@@ -186,4 +231,75 @@ describe("createContext", () => {
 
     expect(() => createContext()).toThrow("GITHUB_RUN_ATTEMPT environment variable is not set")
   })
+
+  it("uses the API URLs of the environment", () => {
+    process.env.GITHUB_API_URL = "https://github.example.com/api/v3"
+    process.env.GITHUB_GRAPHQL_URL = "https://github.example.com/api/graphql"
+
+    createContext()
+
+    expect(octokitFactory.createOctokit).toHaveBeenCalledWith({
+      auth: "test-token",
+      baseUrl: "https://github.example.com/api/v3",
+      graphqlUrl: "https://github.example.com/api/graphql"
+    })
+  })
+
+  it("uses the API URL over those of the environment", () => {
+    process.env.GITHUB_API_URL = "https://api.github.com"
+    process.env.GITHUB_GRAPHQL_URL = "https://api.github.com/graphql"
+
+    createContext("", [], { apiUrl: "https://github.example.com/api/v3" })
+
+    expect(octokitFactory.createOctokit).toHaveBeenCalledWith({
+      auth: "test-token",
+      baseUrl: "https://github.example.com/api/v3",
+      graphqlUrl: undefined
+    })
+  })
+
+  it("uses the GraphQL URL when specified", () => {
+    delete process.env.GITHUB_API_URL
+    delete process.env.GITHUB_GRAPHQL_URL
+
+    createContext("", [], {
+      apiUrl: "https://github.example.com/api/v3",
+      graphqlUrl: "https://graphql.example.com/"
+    })
+
+    expect(octokitFactory.createOctokit).toHaveBeenCalledWith({
+      auth: "test-token",
+      baseUrl: "https://github.example.com/api/v3",
+      graphqlUrl: "https://graphql.example.com/"
+    })
+  })
+
+  it("authenticates as the GitHub App when specified, without GITHUB_TOKEN", () => {
+    delete process.env.GITHUB_TOKEN
+
+    createContext("", [], { appId: "123", privateKey: "test-private-key" })
+
+    expect(octokitFactory.createOctokit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        app: { appId: "123", privateKey: "test-private-key", owner: "test-owner", repo: "test-repo" }
+      })
+    )
+  })
+
+  it.each([
+    ["123", ""],
+    ["", "test-private-key"]
+  ])("throws error when only one of app-id %j and private-key %j is specified", (appId, privateKey) => {
+    expect(() => createContext("", [], { appId: appId, privateKey: privateKey })).toThrow(
+      "Both app-id and private-key are required to authenticate as a GitHub App"
+    )
+  })
+
+  it("uses the proxy URL when specified", () => {
+    createContext("", [], { proxyUrl: "http://proxy.example.com:3128" })
+
+    expect(octokitFactory.createOctokit).toHaveBeenCalledWith(
+      expect.objectContaining({ proxyUrl: "http://proxy.example.com:3128" })
+    )
+  })
 })
@@ -1,7 +1,21 @@
-import { beforeEach, describe, expect, it } from "vitest"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
 import type { Context } from "@/context"
-import { isReleaseBranch, performAction } from "@/core"
-import { Octomock } from "./octomock/octomock"
+import {
+  type ActionOptions,
+  findReleaseBranchPattern,
+  isReleaseBranch,
+  performAction,
+  performComponentActions,
+  promoteRelease,
+  type TraceEvent
+} from "@/core"
+import { type PullRequest, PullRequests } from "@/data/pull-requests"
+import type { Release } from "@/data/release"
+import { Releases } from "@/data/releases"
+import { type PullRequestSource, type ReleaseRepository, releaseRepository } from "@/data/repository"
+import { CachingAsyncIterable } from "@/util/caching-async-iterable"
+import { parseVersionScheme } from "@/versioning/version-scheme"
+import { type GitHubPullRequest, Octomock } from "./octomock/octomock"
 
 describe("isReleaseBranch", () => {
   it("should return true when branch is in releaseBranches", () => {
@@ -12,7 +26,8 @@ describe("isReleaseBranch", () => {
       branch: "main",
       releaseBranches: ["main", "release"],
       runNumber: "1",
-      runAttempt: "1"
+      runAttempt: "1",
+      sha: null
     }
     expect(isReleaseBranch(context)).toBe(true)
   })
@@ -25,7 +40,8 @@ describe("isReleaseBranch", () => {
       branch: "feature/my-feature",
       releaseBranches: ["main", "release"],
       runNumber: "1",
-      runAttempt: "1"
+      runAttempt: "1",
+      sha: null
     }
     expect(isReleaseBranch(context)).toBe(false)
   })
@@ -38,10 +54,68 @@ describe("isReleaseBranch", () => {
       branch: "main",
       releaseBranches: ["main"],
       runNumber: "1",
-      runAttempt: "1"
+      runAttempt: "1",
+      sha: null
     }
     expect(isReleaseBranch(context)).toBe(true)
   })
+  it("should return true when branch matches a glob pattern", () => {
+    const context: Context = {
+      octokit: {} as Context["octokit"],
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "release/1.x",
+      releaseBranches: ["main", "release/*"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: null
+    }
+    expect(isReleaseBranch(context)).toBe(true)
+  })
+
+  it("should return false when branch is excluded by a negated pattern", () => {
+    const context: Context = {
+      octokit: {} as Context["octokit"],
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "release/legacy",
+      releaseBranches: ["release/*", "!release/legacy"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: null
+    }
+    expect(isReleaseBranch(context)).toBe(false)
+  })
+})
+
+describe("findReleaseBranchPattern", () => {
+  it("should return the pattern matching the branch", () => {
+    const context: Context = {
+      octokit: {} as Context["octokit"],
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "hotfix/urgent/fix",
+      releaseBranches: ["main", "hotfix/**"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: null
+    }
+    expect(findReleaseBranchPattern(context)).toBe("hotfix/**")
+  })
+
+  it("should return null when no pattern matches", () => {
+    const context: Context = {
+      octokit: {} as Context["octokit"],
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "feature/my-feature",
+      releaseBranches: ["main", "release/*"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: null
+    }
+    expect(findReleaseBranchPattern(context)).toBeNull()
+  })
 })
 
 describe("performAction", () => {
@@ -57,7 +131,8 @@ describe("performAction", () => {
       branch: "main",
       releaseBranches: ["main"],
       runNumber: "1",
-      runAttempt: "1"
+      runAttempt: "1",
+      sha: null
     }
   })
 
@@ -134,6 +209,7 @@ describe("performAction", () => {
         target_commitish: "main",
         name: "v0.1.0",
         draft: true,
+        prerelease: false,
         generate_release_notes: true
       })
     })
@@ -356,6 +432,32 @@ describe("performAction", () => {
       if (result.action === "created" || result.action === "updated") {
         expect(result.version.toString()).toBe("1.1.0+1.1")
         expect(result.pullRequestTitles).toHaveLength(3)
+        expect(result.pullRequestImpacts).toEqual([
+          {
+            number: 1,
+            title: "feat: feature one",
+            type: "feat",
+            scope: null,
+            impact: "minor",
+            reason: "type `feat`"
+          },
+          {
+            number: 2,
+            title: "feat: feature two",
+            type: "feat",
+            scope: null,
+            impact: "minor",
+            reason: "type `feat`"
+          },
+          {
+            number: 3,
+            title: "fix: bug fix",
+            type: "fix",
+            scope: null,
+            impact: "patch",
+            reason: "type `fix`"
+          }
+        ])
         expect(result.versionIncrement).toBe("minor")
       }
 
@@ -641,43 +743,28 @@ describe("performAction", () => {
         expect(result.version.toString()).toBe("1.0.0+1.1")
       }
     })
-  })
-})
-
-describe("performAction on feature branch", () => {
-  let octomock: Octomock
-  let context: Context
 
-  beforeEach(() => {
-    octomock = new Octomock()
-    context = {
-      octokit: octomock.octokit,
-      owner: "test-owner",
-      repo: "test-repo",
-      branch: "feature/my-feature",
-      releaseBranches: ["main"],
-      runNumber: "1",
-      runAttempt: "1"
-    }
-  })
+    it("should infer the version increment from PR labels", async () => {
+      octomock.stageRelease({
+        id: 1,
+        tag_name: "v1.0.0",
+        target_commitish: "main",
+        draft: false,
+        published_at: "2024-01-01T00:00:00Z"
+      })
+      octomock.stagePullRequest({ number: 1, title: "fix: small fix" })
+      octomock.stagePullRequest({ number: 2, title: "Rework API", labels: { nodes: [{ name: "breaking" }] } })
 
-  describe("when no outgoing pull requests exist", () => {
-    it("should return 'none' action", async () => {
       const result = await performAction(context, "v0.1.0")
 
-      expect(result).toEqual({
-        action: "none",
-        lastDraft: null,
-        lastRelease: null,
-        lastVersion: null
-      })
-      expect(octomock.createRelease).not.toHaveBeenCalled()
-      expect(octomock.updateRelease).not.toHaveBeenCalled()
+      expect(result.action).toBe("created")
+      if (result.action === "created") {
+        expect(result.versionIncrement).toBe("major")
+        expect(result.version.toString()).toBe("2.0.0+1.1")
+      }
     })
-  })
 
-  describe("when outgoing pull requests exist", () => {
-    it("should return 'version' action with inferred version without creating a release", async () => {
+    it("should use custom label impacts", async () => {
       octomock.stageRelease({
         id: 1,
         tag_name: "v1.0.0",
@@ -685,113 +772,1605 @@ describe("performAction on feature branch", () => {
         draft: false,
         published_at: "2024-01-01T00:00:00Z"
       })
-      octomock.stagePullRequest({
-        number: 1,
-        title: "feat: add new feature",
-        baseRefName: "main",
-        headRefName: "feature/my-feature",
-        state: "OPEN",
-        mergedAt: null
-      })
+      octomock.stagePullRequest({ number: 1, title: "Add thing", labels: { nodes: [{ name: "feature" }] } })
 
-      const result = await performAction(context, "v0.1.0")
+      const result = await performAction(context, "v0.1.0", { labelImpacts: { feature: "minor" } })
 
-      expect(result.action).toBe("version")
-      if (result.action === "version") {
-        expect(result.version.toString()).toBe("1.1.0-branch.feature.my-feature+1.1")
+      if (result.action === "created") {
         expect(result.versionIncrement).toBe("minor")
-        expect(result.pullRequestTitles).toEqual(["feat: add new feature"])
-        expect(result.lastRelease?.tagName).toBe("v1.0.0")
+        expect(result.version.toString()).toBe("1.1.0+1.1")
       }
+    })
+
+    it("should fail in strict mode before changing any release when a PR title is not conventional", async () => {
+      octomock.stagePullRequest({ number: 1, title: "feat: new feature" })
+      octomock.stagePullRequest({ number: 2, title: "Feat: add thing" })
+
+      await expect(performAction(context, "v0.1.0", { strict: true })).rejects.toThrow(
+        "Pull request #2 title 'Feat: add thing' is not a conventional commit, did you mean 'feat: add thing'?"
+      )
       expect(octomock.createRelease).not.toHaveBeenCalled()
       expect(octomock.updateRelease).not.toHaveBeenCalled()
     })
 
-    it("should use base branch of first PR to find last release", async () => {
+    it("should not fail in strict mode when all PR titles are conventional", async () => {
+      octomock.stagePullRequest({ number: 1, title: "feat: new feature" })
+
+      const result = await performAction(context, "v0.1.0", { strict: true })
+
+      expect(result.action).toBe("created")
+    })
+
+    it("should use an explicit version instead of inferring it", async () => {
       octomock.stageRelease({
         id: 1,
-        tag_name: "v1.0.0",
+        tag_name: "v1.4.2",
         target_commitish: "main",
         draft: false,
         published_at: "2024-01-01T00:00:00Z"
       })
+      octomock.stageRelease({ id: 2, tag_name: "v1.4.3", target_commitish: "main", draft: true })
+      octomock.stagePullRequest({ number: 1, title: "fix: bug fix" })
+
+      const result = await performAction(context, "v0.1.0", { version: "2.0.0" })
+
+      expect(result.action).toBe("updated")
+      if (result.action === "updated") {
+        expect(result.versionIncrement).toBe("major")
+        expect(result.versionSource).toBe("input")
+        expect(result.version.toString()).toBe("2.0.0+1.1")
+        expect(result.pullRequestImpacts.map((pr) => pr.impact)).toEqual(["patch"])
+      }
+      expect(octomock.generateReleaseNotes).toHaveBeenCalledWith(
+        expect.objectContaining({ tag_name: "v2.0.0", previous_tag_name: "v1.4.2" })
+      )
+      expect(octomock.updateRelease).toHaveBeenCalledWith(
+        expect.objectContaining({ tag_name: "v2.0.0", name: "v2.0.0" })
+      )
+    })
+
+    it("should use an explicit version when no prior release exists", async () => {
+      octomock.stagePullRequest({ number: 1, title: "fix: bug fix" })
+
+      const result = await performAction(context, "v0.1.0", { version: "v1.0.0" })
+
+      expect(result.action).toBe("created")
+      if (result.action === "created") {
+        expect(result.versionIncrement).toBe("none")
+        expect(result.version.toString()).toBe("1.0.0+1.1")
+      }
+    })
+
+    it("should reject an explicit version lower than the last release", async () => {
       octomock.stageRelease({
-        id: 2,
-        tag_name: "v2.0.0",
-        target_commitish: "develop",
+        id: 1,
+        tag_name: "v1.4.2",
+        target_commitish: "main",
         draft: false,
-        published_at: "2024-02-01T00:00:00Z"
+        published_at: "2024-01-01T00:00:00Z"
       })
-      octomock.stagePullRequest({
-        number: 1,
-        title: "fix: bug fix",
-        baseRefName: "main",
-        headRefName: "feature/my-feature",
-        state: "OPEN",
-        mergedAt: null
+      octomock.stagePullRequest({ number: 1, title: "fix: bug fix" })
+
+      await expect(performAction(context, "v0.1.0", { version: "1.4.1" })).rejects.toThrow(
+        "Version 1.4.1 is not higher than the last release version 1.4.2, use force to allow this"
+      )
+      expect(octomock.createRelease).not.toHaveBeenCalled()
+    })
+
+    it("should reject an explicit version equal to the last release", async () => {
+      octomock.stageRelease({
+        id: 1,
+        tag_name: "v1.4.2",
+        target_commitish: "main",
+        draft: false,
+        published_at: "2024-01-01T00:00:00Z"
       })
+      octomock.stagePullRequest({ number: 1, title: "fix: bug fix" })
 
-      const result = await performAction(context, "v0.1.0")
+      await expect(performAction(context, "v0.1.0", { version: "1.4.2" })).rejects.toThrow(
+        "Version 1.4.2 is not higher than the last release version 1.4.2, use force to allow this"
+      )
+      expect(octomock.createRelease).not.toHaveBeenCalled()
+    })
 
-      // Should bump from v1.0.0 (main branch), not v2.0.0 (develop branch)
-      if (result.action === "version") {
-        expect(result.version.toString()).toBe("1.0.1-branch.feature.my-feature+1.1")
-        expect(result.lastRelease?.tagName).toBe("v1.0.0")
-      }
+    it("should reject an explicit prerelease version", async () => {
+      octomock.stagePullRequest({ number: 1, title: "fix: bug fix" })
+
+      await expect(performAction(context, "v0.1.0", { version: "2.0.0-rc.1" })).rejects.toThrow(
+        "Version 2.0.0-rc.1 is a prerelease version, publish prereleases from a prerelease branch instead"
+      )
+      expect(octomock.createRelease).not.toHaveBeenCalled()
     })
 
-    it("should use default tag when no releases exist on base branch", async () => {
-      octomock.stagePullRequest({
-        number: 1,
-        title: "feat: initial feature",
-        baseRefName: "main",
-        headRefName: "feature/my-feature",
-        state: "OPEN",
-        mergedAt: null
+    it("should release an explicit version without new pull requests", async () => {
+      octomock.stageRelease({
+        id: 1,
+        tag_name: "v1.4.2",
+        target_commitish: "main",
+        draft: false,
+        published_at: "2024-01-01T00:00:00Z"
       })
 
-      const result = await performAction(context, "v0.1.0")
+      const result = await performAction(context, "v0.1.0", { version: "2.0.0" })
 
-      if (result.action === "version") {
-        expect(result.version.toString()).toBe("0.1.0-branch.feature.my-feature+1.1")
-        expect(result.lastRelease).toBeNull()
+      expect(result.action).toBe("created")
+      if (result.action === "created") {
+        expect(result.versionIncrement).toBe("major")
+        expect(result.versionSource).toBe("input")
+        expect(result.version.toString()).toBe("2.0.0+1.1")
+        expect(result.pullRequestImpacts).toEqual([])
       }
+      expect(octomock.createRelease).toHaveBeenCalledWith(expect.objectContaining({ tag_name: "v2.0.0" }))
     })
 
-    it("should combine outgoing PR with merged PRs on base branch for version inference", async () => {
+    it("should allow an explicit version lower than the last release when forced", async () => {
       octomock.stageRelease({
         id: 1,
-        tag_name: "v1.0.0",
+        tag_name: "v1.4.2",
         target_commitish: "main",
         draft: false,
         published_at: "2024-01-01T00:00:00Z"
       })
-      // Outgoing PR from feature branch
-      octomock.stagePullRequest({
-        number: 1,
-        title: "fix: small fix",
-        baseRefName: "main",
-        headRefName: "feature/my-feature",
-        state: "OPEN",
-        mergedAt: null
-      })
-      // Merged PR on main
-      octomock.stagePullRequest({
-        number: 2,
-        title: "feat: big feature",
-        baseRefName: "main",
-        headRefName: "feature/other",
-        state: "MERGED",
-        mergedAt: "2024-06-01T00:00:00Z"
+      octomock.stagePullRequest({ number: 1, title: "fix: bug fix" })
+
+      const result = await performAction(context, "v0.1.0", { version: "1.4.1", force: true })
+
+      expect(result.action).toBe("created")
+      if (result.action === "created") {
+        expect(result.versionIncrement).toBe("none")
+        expect(result.version.toString()).toBe("1.4.1+1.1")
+      }
+    })
+
+    it("should bump the minor version on a breaking change in initial development", async () => {
+      octomock.stageRelease({
+        id: 1,
+        tag_name: "v0.3.1",
+        target_commitish: "main",
+        draft: false,
+        published_at: "2024-01-01T00:00:00Z"
       })
+      octomock.stagePullRequest({ number: 1, title: "feat!: breaking change" })
 
-      const result = await performAction(context, "v0.1.0")
+      const trace = vi.fn()
 
-      // Should be minor because of the merged feat PR
-      if (result.action === "version") {
+      const result = await performAction(context, "v0.1.0", { initialDevelopment: true, trace: trace })
+
+      expect(result.action).toBe("created")
+      if (result.action === "created") {
         expect(result.versionIncrement).toBe("minor")
-        expect(result.version.toString()).toBe("1.1.0-branch.feature.my-feature+1.1")
+        expect(result.inferredIncrement).toBe("major")
+        expect(result.version.toString()).toBe("0.4.0+1.1")
       }
+      expect(trace).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "version", increment: "minor", inferredIncrement: "major" })
+      )
+    })
+  })
+})
+
+describe("performAction with a version tag on the commit", () => {
+  let octomock: Octomock
+  let context: Context
+  let pullRequest: GitHubPullRequest
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: "commit_head"
+    }
+    octomock.stageRelease({
+      id: 1,
+      tag_name: "v1.0.0",
+      target_commitish: "main",
+      draft: false,
+      published_at: "2024-01-01T00:00:00Z"
     })
+    pullRequest = octomock.stagePullRequest({ number: 1, title: "fix: bug fix" })
+  })
+
+  it("should use the version tag instead of inferring the version", async () => {
+    octomock.stageTag("v2.0.0", "commit_head")
+
+    const result = await performAction(context, "v0.1.0")
+
+    expect(result.action).toBe("created")
+    if (result.action === "created") {
+      expect(result.versionSource).toBe("tag")
+      expect(result.versionIncrement).toBe("major")
+      expect(result.version.toString()).toBe("2.0.0+1.1")
+    }
+    expect(octomock.createRelease).toHaveBeenCalledWith(expect.objectContaining({ tag_name: "v2.0.0" }))
+  })
+
+  it("should use the highest release version tag", async () => {
+    octomock.stageTag("latest", "commit_head")
+    octomock.stageTag("v1.2.0", "commit_head", true)
+    octomock.stageTag("v1.10.0", "commit_head")
+    octomock.stageTag("v2.0.0-rc.1", "commit_head")
+    octomock.stageTag("v3.0.0", "commit_other")
+
+    const result = await performAction(context, "v0.1.0")
+
+    expect(result.action).toBe("created")
+    if (result.action === "created") {
+      expect(result.versionSource).toBe("tag")
+      expect(result.version.core).toBe("1.10.0")
+    }
+  })
+
+  it("should infer the version when there is no version tag on the commit", async () => {
+    octomock.stageTag("v3.0.0", "commit_other")
+    octomock.stageTag("nightly", "commit_head")
+
+    const result = await performAction(context, "v0.1.0")
+
+    expect(result.action).toBe("created")
+    if (result.action === "created") {
+      expect(result.versionSource).toBe("inferred")
+      expect(result.version.core).toBe("1.0.1")
+    }
+  })
+
+  it("should prefer an explicit version over the version tag", async () => {
+    octomock.stageTag("v2.0.0", "commit_head")
+
+    const result = await performAction(context, "v0.1.0", { version: "1.5.0" })
+
+    expect(result.action).toBe("created")
+    if (result.action === "created") {
+      expect(result.versionSource).toBe("input")
+      expect(result.version.core).toBe("1.5.0")
+    }
+  })
+
+  it("should use the version tag without new pull requests", async () => {
+    // Merged before the last release
+    pullRequest.mergedAt = "2023-12-01T00:00:00Z"
+    octomock.stageTag("v1.1.0", "commit_head")
+
+    const result = await performAction(context, "v0.1.0")
+
+    expect(result.action).toBe("created")
+    if (result.action === "created") {
+      expect(result.versionSource).toBe("tag")
+      expect(result.version.core).toBe("1.1.0")
+      expect(result.pullRequestImpacts).toEqual([])
+    }
+    expect(octomock.createRelease).toHaveBeenCalledWith(expect.objectContaining({ tag_name: "v1.1.0" }))
+  })
+
+  it("should only report the version of a tag already released, without new pull requests", async () => {
+    context.tag = "v1.0.0"
+    // Merged before the last release
+    pullRequest.mergedAt = "2023-12-01T00:00:00Z"
+    octomock.stageTag("v1.0.0", "commit_head")
+
+    const result = await performAction(context, "v0.1.0", { mode: "managed" })
+
+    expect(result.action).toBe("version")
+    if (result.action === "version") {
+      expect(result.versionSource).toBe("tag")
+      expect(result.versionIncrement).toBe("none")
+      expect(result.version.toString()).toBe("1.0.0+1.1")
+      expect(result.lastRelease?.tagName).toBe("v1.0.0")
+    }
+    expect(octomock.createRelease).not.toHaveBeenCalled()
+    expect(octomock.updateRelease).not.toHaveBeenCalled()
+  })
+
+  it("should not look up tags on a feature branch", async () => {
+    context.branch = "feature/thing"
+    octomock.stagePullRequest({
+      number: 2,
+      title: "feat: thing",
+      headRefName: "feature/thing",
+      state: "OPEN",
+      mergedAt: null
+    })
+    octomock.stageTag("v2.0.0", "commit_head")
+
+    const result = await performAction(context, "v0.1.0")
+
+    expect(result.action).toBe("version")
+    if (result.action === "version") {
+      expect(result.versionSource).toBe("inferred")
+    }
+    expect(octomock.graphQL).not.toHaveBeenCalledWith(
+      expect.stringContaining("refs/tags/"),
+      expect.anything()
+    )
+  })
+
+  it("should use the version tag on a feature branch for a tag push", async () => {
+    context.branch = "feature/thing"
+    context.tag = "v2.0.0"
+    octomock.stagePullRequest({
+      number: 2,
+      title: "feat: thing",
+      headRefName: "feature/thing",
+      state: "OPEN",
+      mergedAt: null
+    })
+    octomock.stageTag("v2.0.0", "commit_head")
+
+    const result = await performAction(context, "v0.1.0")
+
+    expect(result.action).toBe("version")
+    if (result.action === "version") {
+      expect(result.versionSource).toBe("tag")
+      expect(result.version.toString()).toBe("2.0.0-branch.feature.thing+1.1")
+    }
+  })
+})
+
+describe("performAction for a monorepo component", () => {
+  let octomock: Octomock
+  let context: Context
+  const api = { name: "api", paths: ["packages/api/**"] }
+  const web = { name: "web", paths: [] }
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: null
+    }
+    octomock.stageRelease({
+      id: 1,
+      name: "api-v1.0.0",
+      tag_name: "api-v1.0.0",
+      target_commitish: "main",
+      draft: false,
+      published_at: "2024-01-01T00:00:00Z"
+    })
+    octomock.stageRelease({
+      id: 2,
+      name: "web-v3.0.0",
+      tag_name: "web-v3.0.0",
+      target_commitish: "main",
+      draft: false,
+      published_at: "2024-01-01T00:00:00Z"
+    })
+  })
+
+  it("should create a release tagged with the component prefix from its last release", async () => {
+    octomock.stagePullRequest({ number: 1, title: "feat(api): endpoint" })
+
+    const result = await performAction(context, "v0.1.0", { component: api })
+
+    expect(result.action).toBe("created")
+    if (result.action === "created") {
+      expect(result.lastRelease?.id).toBe(1)
+      expect(result.version.tag).toBe("api-v1.1.0")
+    }
+    expect(octomock.createRelease).toHaveBeenCalledWith(
+      expect.objectContaining({ tag_name: "api-v1.1.0", name: "api-v1.1.0" })
+    )
+  })
+
+  it("should only consider PRs with the component scope or changing the component paths", async () => {
+    octomock.stagePullRequest({ number: 1, title: "feat(web): page" })
+    octomock.stagePullRequest({ number: 2, title: "fix(api,web): shared bug" })
+    octomock.stagePullRequest({
+      number: 3,
+      title: "feat!: rewrite",
+      files: { nodes: [{ path: "packages/api/index.ts" }] }
+    })
+    octomock.stagePullRequest({ number: 4, title: "docs: readme", files: { nodes: [{ path: "README.md" }] } })
+
+    const result = await performAction(context, "v0.1.0", { component: api })
+
+    if (result.action === "created") {
+      expect(result.pullRequestImpacts.map((pr) => pr.number)).toEqual([2, 3])
+      expect(result.version.tag).toBe("api-v2.0.0")
+    }
+  })
+
+  it("should only fetch changed files when the component has paths", async () => {
+    octomock.stagePullRequest({ number: 1, title: "feat(web): page" })
+
+    await performAction(context, "v0.1.0", { component: web })
+
+    expect(octomock.graphQL).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ withFiles: false })
+    )
+  })
+
+  it("should return 'none' action when no PRs apply to the component", async () => {
+    octomock.stagePullRequest({ number: 1, title: "feat(web): page" })
+
+    const result = await performAction(context, "v0.1.0", { component: api })
+
+    expect(result.action).toBe("none")
+    expect(octomock.createRelease).not.toHaveBeenCalled()
+  })
+
+  it("should prefix the default tag when the component has no releases", async () => {
+    octomock.stagePullRequest({ number: 1, title: "feat(cli): command" })
+
+    const result = await performAction(context, "v0.1.0", { component: { name: "cli", paths: [] } })
+
+    if (result.action === "created") {
+      expect(result.lastRelease).toBeNull()
+      expect(result.version.tag).toBe("cli-v0.1.0")
+    }
+  })
+
+  it("should update the draft of the component only", async () => {
+    octomock.stageRelease({ id: 3, name: "web-v3.1.0", target_commitish: "main", draft: true })
+    octomock.stageRelease({ id: 4, name: "api-v1.0.1", target_commitish: "main", draft: true })
+    octomock.stagePullRequest({ number: 1, title: "fix(api): bug" })
+
+    const result = await performAction(context, "v0.1.0", { component: api })
+
+    expect(result.action).toBe("updated")
+    expect(octomock.updateRelease).toHaveBeenCalledWith(
+      expect.objectContaining({ release_id: 4, tag_name: "api-v1.0.1" })
+    )
+    expect(octomock.generateReleaseNotes).toHaveBeenCalledWith(
+      expect.objectContaining({ tag_name: "api-v1.0.1", previous_tag_name: "api-v1.0.0" })
+    )
+  })
+
+  it("should infer the version of each component in turn", async () => {
+    octomock.stagePullRequest({ number: 1, title: "feat(api): endpoint" })
+    octomock.stagePullRequest({ number: 2, title: "fix(web): layout" })
+
+    const results = await performComponentActions(context, "v0.1.0", [api, web])
+
+    expect(results.map(({ component }) => component.name)).toEqual(["api", "web"])
+    expect(
+      results.map(({ result }) => (result.action === "created" ? result.version.tag : result.action))
+    ).toEqual(["api-v1.1.0", "web-v3.0.1"])
+  })
+
+  it("should fetch the releases and PRs once for all the components", async () => {
+    octomock.stagePullRequest({ number: 1, title: "feat(api): endpoint" })
+    octomock.stagePullRequest({ number: 2, title: "fix(web): layout" })
+
+    const results = await performComponentActions(context, "v0.1.0", [api, web])
+
+    expect(results.map(({ result }) => result.action)).toEqual(["created", "created"])
+    expect(octomock.octokit.paginate.iterator).toHaveBeenCalledTimes(1)
+    expect(octomock.graphQL).toHaveBeenCalledTimes(1)
+    expect(octomock.graphQL).toHaveBeenCalledWith(
+      expect.stringContaining("query PullRequests"),
+      expect.objectContaining({ withFiles: true })
+    )
+  })
+})
+
+describe("performAction with tag and name templates", () => {
+  let octomock: Octomock
+  let context: Context
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: null
+    }
+    octomock.stageRelease({
+      id: 1,
+      name: "MyApp 1.0.0",
+      tag_name: "release-1.0.0",
+      target_commitish: "main",
+      draft: false,
+      published_at: "2024-01-01T00:00:00Z"
+    })
+    octomock.stagePullRequest({ number: 1, title: "feat: feature" })
+  })
+
+  it("should parse the last release tag and render the next through the templates", async () => {
+    const result = await performAction(context, "v0.1.0", {
+      tagTemplate: "release-{version}",
+      nameTemplate: "MyApp {version} ({date})"
+    })
+
+    expect(result.action).toBe("created")
+    if (result.action === "created") {
+      expect(result.lastVersion?.core).toBe("1.0.0")
+      expect(result.version.tag).toBe("release-1.1.0")
+    }
+    expect(octomock.createRelease).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tag_name: "release-1.1.0",
+        name: expect.stringMatching(/^MyApp 1\.1\.0 \(\d{4}-\d{2}-\d{2}\)$/)
+      })
+    )
+  })
+
+  it("should only consider releases matching the tag template", async () => {
+    octomock.stageRelease({
+      id: 2,
+      name: "v5.0.0",
+      tag_name: "v5.0.0",
+      target_commitish: "main",
+      draft: false,
+      published_at: "2025-01-01T00:00:00Z"
+    })
+
+    const result = await performAction(context, "v0.1.0", { tagTemplate: "release-{version}" })
+
+    if (result.action === "created") {
+      expect(result.lastRelease?.id).toBe(1)
+      expect(result.version.tag).toBe("release-1.1.0")
+    }
+  })
+
+  it("should update the draft matching the name template", async () => {
+    octomock.stageRelease({ id: 2, name: "Other 2.0.0", target_commitish: "main", draft: true })
+    octomock.stageRelease({ id: 3, name: "MyApp 1.0.1 (2024-01-02)", target_commitish: "main", draft: true })
+
+    const result = await performAction(context, "v0.1.0", {
+      tagTemplate: "release-{version}",
+      nameTemplate: "MyApp {version} ({date})"
+    })
+
+    expect(result.action).toBe("updated")
+    expect(octomock.updateRelease).toHaveBeenCalledWith(
+      expect.objectContaining({ release_id: 3, tag_name: "release-1.1.0" })
+    )
+  })
+
+  it("should render the default tag through the tag template", async () => {
+    const result = await performAction(context, "v0.1.0", { tagTemplate: "build-{version}" })
+
+    if (result.action === "created") {
+      expect(result.lastRelease).toBeNull()
+      expect(result.version.tag).toBe("build-0.1.0")
+    }
+  })
+
+  it("should parse the default tag through the tag template", async () => {
+    const result = await performAction(context, "build-0.2.0", { tagTemplate: "build-{version}" })
+
+    if (result.action === "created") {
+      expect(result.version.tag).toBe("build-0.2.0")
+    }
+  })
+})
+
+describe("performAction with calendar versioning", () => {
+  let octomock: Octomock
+  let context: Context
+  const versionScheme = parseVersionScheme("YYYY.MM.MICRO")
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    vi.setSystemTime(new Date("2026-03-15T12:00:00Z"))
+    octomock = new Octomock()
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: null
+    }
+    octomock.stagePullRequest({ number: 1, title: "fix: bug fix" })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("should start from the run date when no prior release exists", async () => {
+    const result = await performAction(context, "v0.1.0", { versionScheme: versionScheme })
+
+    if (result.action === "created") {
+      expect(result.version.toString()).toBe("2026.3.0+1.1")
+    }
+    expect(octomock.createRelease).toHaveBeenCalledWith(expect.objectContaining({ tag_name: "v2026.3.0" }))
+  })
+
+  it("should increment the micro version of a release in the same month", async () => {
+    octomock.stageRelease({
+      id: 1,
+      tag_name: "v2026.3.0",
+      target_commitish: "main",
+      draft: false,
+      published_at: "2026-03-01T00:00:00Z"
+    })
+
+    const result = await performAction(context, "v0.1.0", { versionScheme: versionScheme })
+
+    if (result.action === "created") {
+      expect(result.lastVersion?.core).toBe("2026.3.0")
+      expect(result.versionIncrement).toBe("patch")
+      expect(result.version.core).toBe("2026.3.1")
+    }
+  })
+
+  it("should add prerelease and build metadata on a feature branch", async () => {
+    context.branch = "feature/thing"
+    octomock.stageRelease({
+      id: 1,
+      tag_name: "v2026.2.3",
+      target_commitish: "main",
+      draft: false,
+      published_at: "2026-02-01T00:00:00Z"
+    })
+    octomock.stagePullRequest({
+      number: 2,
+      title: "feat: thing",
+      headRefName: "feature/thing",
+      state: "OPEN",
+      mergedAt: null
+    })
+
+    const result = await performAction(context, "v0.1.0", { versionScheme: versionScheme })
+
+    expect(result.action).toBe("version")
+    if (result.action === "version") {
+      expect(result.version.toString()).toBe("2026.3.0-branch.feature.thing+1.1")
+    }
+  })
+
+  it("should parse an explicit version with the scheme", async () => {
+    const result = await performAction(context, "v0.1.0", {
+      versionScheme: versionScheme,
+      version: "2026.3.7"
+    })
+
+    if (result.action === "created") {
+      expect(result.versionSource).toBe("input")
+      expect(result.version.core).toBe("2026.3.7")
+    }
+  })
+})
+
+describe("performAction on a prerelease channel branch", () => {
+  let octomock: Octomock
+  let context: Context
+  const prereleaseChannels = [{ branch: "next", identifier: "beta" }]
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "next",
+      releaseBranches: ["main"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: null
+    }
+    octomock.stageRelease({
+      id: 1,
+      tag_name: "v1.0.0",
+      target_commitish: "next",
+      draft: false,
+      published_at: "2024-01-01T00:00:00Z"
+    })
+    octomock.stagePullRequest({ number: 1, title: "feat!: breaking", baseRefName: "next" })
+  })
+
+  it("should create the first prerelease of the channel as a prerelease draft", async () => {
+    const result = await performAction(context, "v0.1.0", { prereleaseChannels: prereleaseChannels })
+
+    expect(result.action).toBe("created")
+    if (result.action === "created") {
+      expect(result.lastVersion?.core).toBe("1.0.0")
+      expect(result.version.toString()).toBe("2.0.0-beta.1+1.1")
+    }
+    expect(octomock.createRelease).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tag_name: "v2.0.0-beta.1",
+        name: "v2.0.0-beta.1",
+        draft: true,
+        prerelease: true
+      })
+    )
+  })
+
+  it("should number the prerelease after the existing prereleases of the channel", async () => {
+    octomock.stageRelease({
+      id: 2,
+      tag_name: "v2.0.0-beta.1",
+      target_commitish: "next",
+      prerelease: true,
+      published_at: "2024-02-01T00:00:00Z"
+    })
+    octomock.stageRelease({
+      id: 3,
+      tag_name: "v2.0.0-beta.2",
+      target_commitish: "next",
+      prerelease: true,
+      published_at: "2024-03-01T00:00:00Z"
+    })
+    octomock.stageRelease({ id: 4, tag_name: "v2.0.0-rc.5", target_commitish: "rc", prerelease: true })
+
+    const result = await performAction(context, "v0.1.0", { prereleaseChannels: prereleaseChannels })
+
+    expect(result.action).toBe("created")
+    if (result.action === "created") {
+      expect(result.lastRelease?.id).toBe(1)
+      expect(result.version.toString()).toBe("2.0.0-beta.3+1.1")
+    }
+  })
+
+  it("should update the prerelease draft of the channel", async () => {
+    octomock.stageRelease({
+      id: 2,
+      tag_name: "v2.0.0-beta.1",
+      target_commitish: "next",
+      prerelease: true,
+      published_at: "2024-02-01T00:00:00Z"
+    })
+    octomock.stageRelease({ id: 3, name: "v1.0.1", target_commitish: "next", draft: true })
+    octomock.stageRelease({
+      id: 4,
+      name: "v2.0.0-beta.2",
+      target_commitish: "next",
+      draft: true,
+      prerelease: true
+    })
+
+    const result = await performAction(context, "v0.1.0", { prereleaseChannels: prereleaseChannels })
+
+    expect(result.action).toBe("updated")
+    expect(octomock.updateRelease).toHaveBeenCalledWith(
+      expect.objectContaining({ release_id: 4, tag_name: "v2.0.0-beta.2", prerelease: true })
+    )
+  })
+
+  it("should not draft another prerelease without PRs merged since the last prerelease", async () => {
+    octomock.stageRelease({ id: 2, tag_name: "v2.0.0-beta.1", target_commitish: "next", prerelease: true })
+
+    const result = await performAction(context, "v0.1.0", { prereleaseChannels: prereleaseChannels })
+
+    expect(result.action).toBe("none")
+    expect(octomock.createRelease).not.toHaveBeenCalled()
+  })
+
+  it("should publish the prerelease in managed mode", async () => {
+    const result = await performAction(context, "v0.1.0", {
+      mode: "managed",
+      prereleaseChannels: prereleaseChannels
+    })
+
+    expect(result.action).toBe("published")
+    expect(octomock.createRelease).toHaveBeenCalledWith(
+      expect.objectContaining({ tag_name: "v2.0.0-beta.1", draft: false, prerelease: true })
+    )
+  })
+
+  it("should publish a prerelease only for new PRs in managed mode", async () => {
+    const options: ActionOptions = { mode: "managed", prereleaseChannels: prereleaseChannels }
+
+    const first = await performAction(context, "v0.1.0", options)
+    const second = await performAction(context, "v0.1.0", options)
+
+    expect(first.action).toBe("published")
+    expect(second.action).toBe("none")
+    expect(octomock.createRelease).toHaveBeenCalledTimes(1)
+
+    octomock.stagePullRequest({
+      number: 2,
+      title: "fix: bug",
+      baseRefName: "next",
+      mergedAt: "2099-01-01T00:00:00Z"
+    })
+    const third = await performAction(context, "v0.1.0", options)
+
+    expect(third.action).toBe("published")
+    expect(octomock.createRelease).toHaveBeenLastCalledWith(
+      expect.objectContaining({ tag_name: "v2.0.0-beta.2", prerelease: true })
+    )
+  })
+
+  it("should publish a prerelease for PRs merged since the last prerelease of the channel only", async () => {
+    octomock.stageRelease({
+      id: 2,
+      tag_name: "v2.0.0-rc.1",
+      target_commitish: "next",
+      prerelease: true,
+      published_at: "2099-01-01T00:00:00Z"
+    })
+    octomock.stageRelease({
+      id: 3,
+      tag_name: "v2.0.0-beta.1",
+      target_commitish: "other",
+      prerelease: true,
+      published_at: "2099-01-01T00:00:00Z"
+    })
+
+    const result = await performAction(context, "v0.1.0", {
+      mode: "managed",
+      prereleaseChannels: prereleaseChannels
+    })
+
+    expect(result.action).toBe("published")
+  })
+
+  it("should not make prereleases on a release branch", async () => {
+    context.branch = "main"
+    octomock.stagePullRequest({ number: 2, title: "fix: bug", baseRefName: "main" })
+
+    await performAction(context, "v0.1.0", { prereleaseChannels: prereleaseChannels })
+
+    expect(octomock.createRelease).toHaveBeenCalledWith(
+      expect.objectContaining({ tag_name: "v0.1.0", prerelease: false })
+    )
+  })
+})
+
+describe("performAction in a dry run", () => {
+  let octomock: Octomock
+  let context: Context
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: null
+    }
+    octomock.stageRelease({
+      id: 1,
+      tag_name: "v1.2.3",
+      target_commitish: "main",
+      published_at: "2024-01-01T00:00:00Z"
+    })
+    octomock.stagePullRequest({ number: 1, title: "feat: add feature" })
+  })
+
+  it("should report the request to create a draft without creating it", async () => {
+    const result = await performAction(context, "v0.1.0", { dryRun: true })
+
+    expect(result.action).toBe("would-create")
+    if (result.action === "would-create") {
+      expect(result.version.toString()).toBe("1.3.0+1.1")
+      expect(result.currentRequest).toBeNull()
+      expect(result.request).toEqual(
+        expect.objectContaining({
+          tag_name: "v1.3.0",
+          name: "v1.3.0",
+          draft: true,
+          generate_release_notes: true
+        })
+      )
+    }
+    expect(octomock.createRelease).not.toHaveBeenCalled()
+  })
+
+  it("should report the request to update the draft without updating it", async () => {
+    octomock.stageRelease({ id: 2, name: "v1.2.4", target_commitish: "main", body: "Old notes", draft: true })
+
+    const result = await performAction(context, "v0.1.0", { dryRun: true })
+
+    expect(result.action).toBe("would-update")
+    if (result.action === "would-update") {
+      expect(result.currentRequest).toEqual(
+        expect.objectContaining({ release_id: 2, name: "v1.2.4", body: "Old notes" })
+      )
+      expect(result.request).toEqual(
+        expect.objectContaining({
+          release_id: 2,
+          tag_name: "v1.3.0",
+          name: "v1.3.0",
+          body: "## What's Changed\n\n* Changes from v1.2.3 to v1.3.0\n* Target: main"
+        })
+      )
+    }
+    expect(octomock.generateReleaseNotes).toHaveBeenCalled()
+    expect(octomock.updateRelease).not.toHaveBeenCalled()
+  })
+
+  it("should report the request to publish in managed mode without publishing", async () => {
+    octomock.stageRelease({ id: 2, name: "v1.2.4", target_commitish: "main", draft: true })
+
+    const result = await performAction(context, "v0.1.0", { mode: "managed", dryRun: true })
+
+    expect(result.action).toBe("would-update")
+    if (result.action === "would-update") {
+      expect(result.request).toEqual(expect.objectContaining({ release_id: 2, draft: false }))
+    }
+    expect(octomock.updateRelease).not.toHaveBeenCalled()
+  })
+})
+
+describe("performAction with a trace", () => {
+  let octomock: Octomock
+  let context: Context
+  let events: TraceEvent[]
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main", "release/*"],
+      runNumber: null,
+      runAttempt: null,
+      sha: null
+    }
+    events = []
+    octomock.stageRelease({
+      id: 1,
+      tag_name: "v1.2.3",
+      target_commitish: "main",
+      published_at: "2024-01-01T00:00:00Z"
+    })
+    octomock.stageRelease({ id: 2, tag_name: "v1.1.5", target_commitish: "release/1.1" })
+    octomock.stageRelease({ id: 3, tag_name: "v1.3.0-rc.1", target_commitish: "main", prerelease: true })
+    octomock.stageRelease({ id: 4, name: "v1.2.4", target_commitish: "main", draft: true })
+  })
+
+  it("should trace the decision on a release branch", async () => {
+    octomock.stagePullRequest({ number: 1, title: "feat!: drop support" })
+    octomock.stagePullRequest({ number: 2, title: "fix: bug" })
+
+    await performAction(context, "v0.1.0", { dryRun: true, trace: (event) => events.push(event) })
+
+    expect(events).toEqual([
+      {
+        type: "branch",
+        branch: "main",
+        releaseBranch: true,
+        pattern: "main",
+        channel: null,
+        component: null
+      },
+      { type: "release-skipped", release: expect.objectContaining({ id: 4 }), reason: "draft" },
+      { type: "release-skipped", release: expect.objectContaining({ id: 3 }), reason: "prerelease" },
+      { type: "release-skipped", release: expect.objectContaining({ id: 2 }), reason: "target-commitish" },
+      {
+        type: "last-release",
+        targetCommitish: "main",
+        tagPrefix: null,
+        release: expect.objectContaining({ id: 1 })
+      },
+      { type: "merged-since", baseRefName: "main", mergedSince: new Date("2024-01-01T00:00:00Z") },
+      {
+        type: "pull-requests",
+        impacts: [
+          expect.objectContaining({ number: 1, impact: "major" }),
+          expect.objectContaining({ number: 2, impact: "patch" })
+        ],
+        excluded: []
+      },
+      {
+        type: "version",
+        lastVersion: expect.objectContaining({ core: "1.2.3" }),
+        increment: "major",
+        inferredIncrement: "major",
+        source: "inferred",
+        version: expect.objectContaining({ core: "2.0.0" })
+      }
+    ])
+  })
+
+  it("should trace the pull requests excluded as not of the component", async () => {
+    octomock.stagePullRequest({ number: 1, title: "feat(api): add endpoint" })
+    octomock.stagePullRequest({ number: 2, title: "fix(web): bug" })
+
+    await performAction(context, "v0.1.0", {
+      dryRun: true,
+      component: { name: "api", paths: [] },
+      trace: (event) => events.push(event)
+    })
+
+    expect(events).toContainEqual({
+      type: "pull-requests",
+      impacts: [expect.objectContaining({ number: 1 })],
+      excluded: [2]
+    })
+  })
+
+  it("should trace the outgoing pull request on a feature branch", async () => {
+    context.branch = "feature/x"
+    octomock.stagePullRequest({ number: 1, title: "fix: bug", headRefName: "feature/x", state: "OPEN" })
+
+    await performAction(context, "v0.1.0", { trace: (event) => events.push(event) })
+
+    expect(events.map((event) => event.type)).toEqual([
+      "branch",
+      "feature-pull-request",
+      "release-skipped",
+      "release-skipped",
+      "release-skipped",
+      "last-release",
+      "merged-since",
+      "pull-requests",
+      "version"
+    ])
+    expect(events[0]).toEqual({
+      type: "branch",
+      branch: "feature/x",
+      releaseBranch: false,
+      pattern: null,
+      channel: null,
+      component: null
+    })
+    expect(events[1]).toEqual({
+      type: "feature-pull-request",
+      pullRequest: expect.objectContaining({ number: 1, baseRefName: "main" })
+    })
+  })
+})
+
+describe("promoteRelease", () => {
+  let octomock: Octomock
+  let context: Context
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: null
+    }
+    octomock.stageRelease({ id: 1, tag_name: "v1.0.0", target_commitish: "main" })
+    octomock.stageRelease({ id: 2, tag_name: "v2.0.0-rc.3", target_commitish: "main", prerelease: true })
+    octomock.stageTag("v2.0.0-rc.3", "abc123", true)
+  })
+
+  it("should publish the final release at the commit of the prerelease", async () => {
+    const result = await promoteRelease(context, "2.0.0-rc.3")
+
+    expect(result.action).toBe("promoted")
+    expect(result.prerelease.id).toBe(2)
+    expect(result.lastRelease?.id).toBe(1)
+    expect(result.lastVersion?.toString()).toBe("1.0.0")
+    expect(result.version.toString()).toBe("2.0.0")
+    if (result.action === "promoted") {
+      expect(result.release.tagName).toBe("v2.0.0")
+    }
+    expect(octomock.createRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: "refs/tags/v2.0.0", sha: "abc123" })
+    )
+    expect(octomock.createRelease).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tag_name: "v2.0.0",
+        target_commitish: "main",
+        name: "v2.0.0",
+        draft: false,
+        prerelease: false,
+        generate_release_notes: false
+      })
+    )
+  })
+
+  it("should regenerate the release notes against the last final release", async () => {
+    await promoteRelease(context, "v2.0.0-rc.3")
+
+    expect(octomock.generateReleaseNotes).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tag_name: "v2.0.0",
+        target_commitish: "abc123",
+        previous_tag_name: "v1.0.0"
+      })
+    )
+    const [params] = octomock.createRelease.mock.calls[0]
+    expect(params.body).toEqual(expect.any(String))
+  })
+
+  it("should keep the prerelease by default", async () => {
+    const result = await promoteRelease(context, "v2.0.0-rc.3")
+
+    expect(result.promotedPrerelease).toBe("keep")
+    expect(octomock.updateRelease).not.toHaveBeenCalled()
+    expect(octomock.deleteRelease).not.toHaveBeenCalled()
+  })
+
+  it("should mark the prerelease as superseded", async () => {
+    await promoteRelease(context, "v2.0.0-rc.3", { promotedPrerelease: "supersede" })
+
+    expect(octomock.updateRelease).toHaveBeenCalledWith(
+      expect.objectContaining({
+        release_id: 2,
+        body: "Superseded by [v2.0.0](https://github.com/test-owner/test-repo/releases/3).\n\nRelease body"
+      })
+    )
+  })
+
+  it("should delete the prerelease", async () => {
+    await promoteRelease(context, "v2.0.0-rc.3", { promotedPrerelease: "delete" })
+
+    expect(octomock.deleteRelease).toHaveBeenCalledWith(expect.objectContaining({ release_id: 2 }))
+  })
+
+  it("should promote the prerelease of a component", async () => {
+    octomock.stageRelease({ id: 3, tag_name: "api-v2.0.0-rc.1", target_commitish: "main", prerelease: true })
+    octomock.stageTag("api-v2.0.0-rc.1", "def456")
+
+    const result = await promoteRelease(context, "api-v2.0.0-rc.1", {
+      component: { name: "api", paths: [] }
+    })
+
+    expect(result.lastRelease).toBeNull()
+    expect(octomock.createRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: "refs/tags/api-v2.0.0", sha: "def456" })
+    )
+  })
+
+  it("should report the request to publish the release in a dry run", async () => {
+    const result = await promoteRelease(context, "v2.0.0-rc.3", {
+      dryRun: true,
+      promotedPrerelease: "delete"
+    })
+
+    expect(result.action).toBe("would-promote")
+    expect(result.version.toString()).toBe("2.0.0")
+    if (result.action === "would-promote") {
+      expect(result.sha).toBe("abc123")
+      expect(result.request).toEqual(
+        expect.objectContaining({
+          tag_name: "v2.0.0",
+          target_commitish: "main",
+          name: "v2.0.0",
+          draft: false,
+          prerelease: false,
+          body: expect.any(String)
+        })
+      )
+    }
+    expect(octomock.createRef).not.toHaveBeenCalled()
+    expect(octomock.createRelease).not.toHaveBeenCalled()
+    expect(octomock.deleteRelease).not.toHaveBeenCalled()
+  })
+
+  it("should delete the tag when the release cannot be published", async () => {
+    octomock.injectCreateReleaseError({ message: "Validation Failed", status: 422 })
+
+    await expect(promoteRelease(context, "v2.0.0-rc.3")).rejects.toThrow("Validation Failed")
+
+    expect(octomock.createRef).toHaveBeenCalledWith(expect.objectContaining({ ref: "refs/tags/v2.0.0" }))
+    expect(octomock.deleteRef).toHaveBeenCalledWith(expect.objectContaining({ ref: "tags/v2.0.0" }))
+    expect(await releaseRepository(context).fetchTagCommit("v2.0.0")).toBeNull()
+  })
+
+  it("should fail when the version is not a prerelease", async () => {
+    await expect(promoteRelease(context, "v1.0.0")).rejects.toThrow(
+      "Version to promote is not a prerelease: v1.0.0"
+    )
+  })
+
+  it("should fail when the prerelease is not found", async () => {
+    await expect(promoteRelease(context, "v2.0.0-rc.4")).rejects.toThrow("Prerelease not found: v2.0.0-rc.4")
+    expect(octomock.createRelease).not.toHaveBeenCalled()
+  })
+
+  it("should fail when the final release already exists", async () => {
+    octomock.stageRelease({ id: 3, tag_name: "v2.0.0", target_commitish: "main" })
+
+    await expect(promoteRelease(context, "v2.0.0-rc.3")).rejects.toThrow("Release already exists: v2.0.0")
+    expect(octomock.createRef).not.toHaveBeenCalled()
+  })
+
+  it("should fail when the tag of the prerelease is not found", async () => {
+    octomock.stageRelease({ id: 3, tag_name: "v3.0.0-rc.1", target_commitish: "main", prerelease: true })
+
+    await expect(promoteRelease(context, "v3.0.0-rc.1")).rejects.toThrow("Tag not found: v3.0.0-rc.1")
+  })
+})
+
+describe("performAction in managed mode", () => {
+  let octomock: Octomock
+  let context: Context
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: null
+    }
+  })
+
+  it("should return 'none' action when there are no pull requests", async () => {
+    octomock.stageRelease({ id: 1, tag_name: "v1.0.0", target_commitish: "main", draft: true })
+
+    const result = await performAction(context, "v0.1.0", { mode: "managed" })
+
+    expect(result.action).toBe("none")
+    expect(octomock.createRelease).not.toHaveBeenCalled()
+    expect(octomock.updateRelease).not.toHaveBeenCalled()
+  })
+
+  it("should promote the existing draft, keeping its body", async () => {
+    octomock.stageRelease({
+      id: 1,
+      name: "v1.2.3",
+      tag_name: "v1.2.3",
+      target_commitish: "main",
+      draft: false,
+      published_at: "2024-01-01T00:00:00Z"
+    })
+    octomock.stageRelease({
+      id: 2,
+      name: "v1.3.0",
+      tag_name: "untagged-123",
+      target_commitish: "main",
+      body: "Edited by a human",
+      draft: true
+    })
+    octomock.stagePullRequest({ number: 1, title: "feat: add feature" })
+
+    const result = await performAction(context, "v0.1.0", { mode: "managed" })
+
+    expect(result.action).toBe("published")
+    if (result.action === "published") {
+      expect(result.version.toString()).toBe("1.3.0+1.1")
+      expect(result.lastDraft?.id).toBe(2)
+      expect(result.release.id).toBe(2)
+      expect(result.release.draft).toBe(false)
+      expect(result.release.tagName).toBe("v1.3.0")
+      expect(result.release.body).toBe("Edited by a human")
+      expect(result.release.publishedAt).toEqual(expect.any(Date))
+    }
+
+    expect(octomock.updateRelease).toHaveBeenCalledWith({
+      owner: "test-owner",
+      repo: "test-repo",
+      release_id: 2,
+      tag_name: "v1.3.0",
+      target_commitish: "main",
+      name: "v1.3.0",
+      body: "Edited by a human",
+      draft: false,
+      prerelease: false
+    })
+    expect(octomock.generateReleaseNotes).not.toHaveBeenCalled()
+    expect(octomock.createRelease).not.toHaveBeenCalled()
+  })
+
+  it("should create a published release when there is no draft", async () => {
+    octomock.stageRelease({
+      id: 1,
+      tag_name: "v1.2.3",
+      target_commitish: "main",
+      draft: false,
+      published_at: "2024-01-01T00:00:00Z"
+    })
+    octomock.stagePullRequest({ number: 1, title: "fix: correct bug" })
+
+    const result = await performAction(context, "v0.1.0", { mode: "managed" })
+
+    expect(result.action).toBe("published")
+    if (result.action === "published") {
+      expect(result.version.toString()).toBe("1.2.4+1.1")
+      expect(result.lastDraft).toBeNull()
+      expect(result.release.draft).toBe(false)
+    }
+
+    expect(octomock.createRelease).toHaveBeenCalledWith({
+      owner: "test-owner",
+      repo: "test-repo",
+      tag_name: "v1.2.4",
+      target_commitish: "main",
+      name: "v1.2.4",
+      draft: false,
+      prerelease: false,
+      generate_release_notes: true
+    })
+    expect(octomock.updateRelease).not.toHaveBeenCalled()
+  })
+
+  it("should only infer the version on a feature branch", async () => {
+    context.branch = "feature/my-feature"
+    octomock.stagePullRequest({
+      number: 1,
+      title: "feat: add new feature",
+      baseRefName: "main",
+      headRefName: "feature/my-feature",
+      state: "OPEN",
+      mergedAt: null
+    })
+
+    const result = await performAction(context, "v0.1.0", { mode: "managed" })
+
+    expect(result.action).toBe("version")
+    expect(octomock.createRelease).not.toHaveBeenCalled()
+    expect(octomock.updateRelease).not.toHaveBeenCalled()
+  })
+})
+
+describe("performAction on feature branch", () => {
+  let octomock: Octomock
+  let context: Context
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "feature/my-feature",
+      releaseBranches: ["main"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: null
+    }
+  })
+
+  describe("when no outgoing pull requests exist", () => {
+    it("should return 'none' action", async () => {
+      const result = await performAction(context, "v0.1.0")
+
+      expect(result).toEqual({
+        action: "none",
+        lastDraft: null,
+        lastRelease: null,
+        lastVersion: null
+      })
+      expect(octomock.createRelease).not.toHaveBeenCalled()
+      expect(octomock.updateRelease).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("when outgoing pull requests exist", () => {
+    it("should return 'version' action with inferred version without creating a release", async () => {
+      octomock.stageRelease({
+        id: 1,
+        tag_name: "v1.0.0",
+        target_commitish: "main",
+        draft: false,
+        published_at: "2024-01-01T00:00:00Z"
+      })
+      octomock.stagePullRequest({
+        number: 1,
+        title: "feat: add new feature",
+        baseRefName: "main",
+        headRefName: "feature/my-feature",
+        state: "OPEN",
+        mergedAt: null
+      })
+
+      const result = await performAction(context, "v0.1.0")
+
+      expect(result.action).toBe("version")
+      if (result.action === "version") {
+        expect(result.version.toString()).toBe("1.1.0-branch.feature.my-feature+1.1")
+        expect(result.versionIncrement).toBe("minor")
+        expect(result.pullRequestTitles).toEqual(["feat: add new feature"])
+        expect(result.lastRelease?.tagName).toBe("v1.0.0")
+      }
+      expect(octomock.createRelease).not.toHaveBeenCalled()
+      expect(octomock.updateRelease).not.toHaveBeenCalled()
+    })
+
+    it("should use an explicit version as the prerelease version", async () => {
+      octomock.stagePullRequest({
+        number: 1,
+        title: "feat: add new feature",
+        baseRefName: "main",
+        headRefName: "feature/my-feature",
+        state: "OPEN",
+        mergedAt: null
+      })
+
+      const result = await performAction(context, "v0.1.0", { version: "3.0.0" })
+
+      expect(result.action).toBe("version")
+      if (result.action === "version") {
+        expect(result.version.toString()).toBe("3.0.0-branch.feature.my-feature+1.1")
+        expect(result.versionSource).toBe("input")
+      }
+    })
+
+    it("should use base branch of first PR to find last release", async () => {
+      octomock.stageRelease({
+        id: 1,
+        tag_name: "v1.0.0",
+        target_commitish: "main",
+        draft: false,
+        published_at: "2024-01-01T00:00:00Z"
+      })
+      octomock.stageRelease({
+        id: 2,
+        tag_name: "v2.0.0",
+        target_commitish: "develop",
+        draft: false,
+        published_at: "2024-02-01T00:00:00Z"
+      })
+      octomock.stagePullRequest({
+        number: 1,
+        title: "fix: bug fix",
+        baseRefName: "main",
+        headRefName: "feature/my-feature",
+        state: "OPEN",
+        mergedAt: null
+      })
+
+      const result = await performAction(context, "v0.1.0")
+
+      // Should bump from v1.0.0 (main branch), not v2.0.0 (develop branch)
+      if (result.action === "version") {
+        expect(result.version.toString()).toBe("1.0.1-branch.feature.my-feature+1.1")
+        expect(result.lastRelease?.tagName).toBe("v1.0.0")
+      }
+    })
+
+    it("should use default tag when no releases exist on base branch", async () => {
+      octomock.stagePullRequest({
+        number: 1,
+        title: "feat: initial feature",
+        baseRefName: "main",
+        headRefName: "feature/my-feature",
+        state: "OPEN",
+        mergedAt: null
+      })
+
+      const result = await performAction(context, "v0.1.0")
+
+      if (result.action === "version") {
+        expect(result.version.toString()).toBe("0.1.0-branch.feature.my-feature+1.1")
+        expect(result.lastRelease).toBeNull()
+      }
+    })
+
+    it("should combine outgoing PR with merged PRs on base branch for version inference", async () => {
+      octomock.stageRelease({
+        id: 1,
+        tag_name: "v1.0.0",
+        target_commitish: "main",
+        draft: false,
+        published_at: "2024-01-01T00:00:00Z"
+      })
+      // Outgoing PR from feature branch
+      octomock.stagePullRequest({
+        number: 1,
+        title: "fix: small fix",
+        baseRefName: "main",
+        headRefName: "feature/my-feature",
+        state: "OPEN",
+        mergedAt: null
+      })
+      // Merged PR on main
+      octomock.stagePullRequest({
+        number: 2,
+        title: "feat: big feature",
+        baseRefName: "main",
+        headRefName: "feature/other",
+        state: "MERGED",
+        mergedAt: "2024-06-01T00:00:00Z"
+      })
+
+      const result = await performAction(context, "v0.1.0")
+
+      // Should be minor because of the merged feat PR
+      if (result.action === "version") {
+        expect(result.versionIncrement).toBe("minor")
+        expect(result.version.toString()).toBe("1.1.0-branch.feature.my-feature+1.1")
+      }
+    })
+  })
+})
+
+describe("performAction with another backend", () => {
+  let releases: Release[]
+  let pullRequests: PullRequest[]
+  let context: Context
+
+  beforeEach(() => {
+    releases = [
+      {
+        id: 1,
+        tagName: "v1.0.0",
+        targetCommitish: "main",
+        name: "v1.0.0",
+        body: null,
+        publishedAt: new Date("2026-01-01T00:00:00Z"),
+        draft: false,
+        prerelease: false,
+        htmlUrl: "https://example.com/releases/1"
+      }
+    ]
+    pullRequests = [
+      {
+        title: "feat: add feature",
+        number: 1,
+        baseRefName: "main",
+        state: "MERGED",
+        mergedAt: new Date("2026-01-02T00:00:00Z"),
+        labels: [],
+        files: []
+      }
+    ]
+    const releaseRepository: ReleaseRepository = {
+      fetchReleases: () => new Releases(new CachingAsyncIterable(iterate(releases)), 100),
+      createDraftRelease: async (tagName, targetCommitish, name, prerelease) => {
+        const release: Release = {
+          id: releases.length + 1,
+          tagName: null,
+          targetCommitish: targetCommitish,
+          name: name,
+          body: `Notes for ${tagName}`,
+          publishedAt: null,
+          draft: true,
+          prerelease: prerelease,
+          htmlUrl: `https://example.com/releases/${releases.length + 1}`
+        }
+        releases.unshift(release)
+        return release
+      },
+      createPublishedRelease: () => Promise.reject(new Error("Not supported")),
+      updateRelease: () => Promise.reject(new Error("Not supported")),
+      deleteRelease: () => Promise.reject(new Error("Not supported")),
+      generateReleaseNotes: (tagName) => Promise.resolve(`Notes for ${tagName}`),
+      fetchTagsForCommit: () => Promise.resolve([]),
+      fetchTagCommit: () => Promise.resolve(null),
+      createTag: () => Promise.reject(new Error("Not supported")),
+      deleteTag: () => Promise.reject(new Error("Not supported"))
+    }
+    const pullRequestSource: PullRequestSource = {
+      fetchPullRequests: (params) =>
+        new PullRequests(
+          iterate(
+            pullRequests.filter((pr) => params.type === "incoming" && pr.baseRefName === params.baseRefName)
+          )
+        )
+    }
+    context = {
+      octokit: {} as Context["octokit"],
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: null,
+      runAttempt: null,
+      sha: "sha1",
+      releaseRepository: releaseRepository,
+      pullRequestSource: pullRequestSource
+    }
+  })
+
+  async function* iterate<T>(items: T[]): AsyncGenerator<T> {
+    yield* items
+  }
+
+  it("should use the release repository and pull request source of the context", async () => {
+    const result = await performAction(context, "v0.1.0")
+
+    expect(result.action).toBe("created")
+    if (result.action === "created") {
+      expect(result.version.toString()).toBe("1.1.0")
+      expect(result.release).toEqual(expect.objectContaining({ id: 2, name: "v1.1.0", draft: true }))
+    }
+    expect(releases).toHaveLength(2)
   })
 })
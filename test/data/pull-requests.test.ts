@@ -27,7 +27,8 @@ describe("fetchPullRequests with IncomingPullRequestsParams", () => {
       branch: "main",
       releaseBranches: ["main"],
       runNumber: "1",
-      runAttempt: "1"
+      runAttempt: "1",
+      sha: null
     }
   })
 
@@ -103,7 +104,8 @@ describe("fetchPullRequests with IncomingPullRequestsParams", () => {
       number: 42,
       baseRefName: "main",
       state: "MERGED",
-      mergedAt: "2026-01-01T12:00:00Z"
+      mergedAt: "2026-01-01T12:00:00Z",
+      labels: { nodes: [{ name: "bug" }, { name: "documentation" }] }
     })
 
     const prs = await fetchPullRequests(context, createParams()).collect()
@@ -114,10 +116,65 @@ describe("fetchPullRequests with IncomingPullRequestsParams", () => {
       number: 42,
       baseRefName: "main",
       state: "MERGED",
-      mergedAt: new Date("2026-01-01T12:00:00Z")
+      mergedAt: new Date("2026-01-01T12:00:00Z"),
+      labels: ["bug", "documentation"],
+      files: []
     })
   })
 
+  it("should request labels in the GraphQL query", async () => {
+    await fetchPullRequests(context, createParams()).collect()
+
+    expect(octomock.graphQL).toHaveBeenCalledWith(
+      expect.stringContaining("labels(first: $maxLabels)"),
+      expect.objectContaining({ maxLabels: 20 })
+    )
+  })
+
+  it("should not request files by default", async () => {
+    octomock.stagePullRequest({ number: 1, files: { nodes: [{ path: "src/index.ts" }] } })
+
+    const prs = await fetchPullRequests(context, createParams()).collect()
+
+    expect(prs[0].files).toEqual([])
+    expect(octomock.graphQL).toHaveBeenCalledWith(
+      expect.stringContaining("files(first: $maxFiles) @include(if: $withFiles)"),
+      expect.objectContaining({ withFiles: false })
+    )
+  })
+
+  it("should request files when specified", async () => {
+    octomock.stagePullRequest({
+      number: 1,
+      files: { nodes: [{ path: "packages/api/index.ts" }, { path: "README.md" }] }
+    })
+
+    const prs = await fetchPullRequests(context, createParams({ withFiles: true })).collect()
+
+    expect(prs[0].files).toEqual(["packages/api/index.ts", "README.md"])
+    expect(octomock.graphQL).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ withFiles: true, maxFiles: 100 })
+    )
+  })
+
+  it("should fetch the remaining files of PRs with more files than a page", async () => {
+    const paths = Array.from({ length: 250 }, (_, i) => ({ path: `src/file-${i}.ts` }))
+    octomock.stagePullRequest({ number: 1, files: { nodes: paths } })
+
+    const prs = await fetchPullRequests(context, createParams({ withFiles: true })).collect()
+
+    expect(prs[0].files).toEqual(paths.map((file) => file.path))
+    expect(octomock.graphQL).toHaveBeenCalledWith(
+      expect.stringContaining("query PullRequestFiles"),
+      expect.objectContaining({ number: 1, maxFiles: 100, cursor: "100" })
+    )
+    expect(octomock.graphQL).toHaveBeenCalledWith(
+      expect.stringContaining("query PullRequestFiles"),
+      expect.objectContaining({ number: 1, maxFiles: 100, cursor: "200" })
+    )
+  })
+
   it("should handle GraphQL errors", async () => {
     octomock.injectGraphQLError({ message: "Rate limit exceeded" })
 
@@ -250,7 +307,8 @@ describe("fetchPullRequests with OutgoingPullRequestsParams", () => {
       branch: "main",
       releaseBranches: ["main"],
       runNumber: "1",
-      runAttempt: "1"
+      runAttempt: "1",
+      sha: null
     }
   })
 
@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import type { Context } from "@/context"
+import { performAction } from "@/core"
+import { createRecordingFetch } from "@/data/record-fetch"
+import { emptySnapshot, type Snapshot } from "@/data/snapshot"
+import { createOctokit } from "@/octokit-factory"
+import { createSnapshotFetch } from "./snapshot-fetch"
+
+describe("createRecordingFetch", () => {
+  let source: Snapshot
+  let recorded: Snapshot
+  let context: Context
+
+  beforeEach(() => {
+    // Replaying a snapshot stands in for the GitHub API, so recording it should reproduce what was used
+    source = {
+      ...emptySnapshot("test-owner", "test-repo", "main"),
+      releases: [
+        {
+          id: 2,
+          tag_name: "untagged-1",
+          target_commitish: "main",
+          name: "v1.1.0",
+          body: "Old notes",
+          published_at: null,
+          draft: true,
+          prerelease: false,
+          html_url: "https://github.com/test-owner/test-repo/releases/2"
+        },
+        {
+          id: 1,
+          tag_name: "v1.0.0",
+          target_commitish: "main",
+          name: "v1.0.0",
+          body: null,
+          published_at: "2026-01-01T00:00:00Z",
+          draft: false,
+          prerelease: false,
+          html_url: "https://github.com/test-owner/test-repo/releases/1"
+        }
+      ],
+      pullRequests: [
+        {
+          title: "feat: add feature",
+          number: 2,
+          baseRefName: "main",
+          headRefName: "feature/x",
+          state: "OPEN",
+          mergedAt: null,
+          labels: { nodes: [] }
+        },
+        {
+          title: "fix: bug",
+          number: 1,
+          baseRefName: "main",
+          state: "MERGED",
+          mergedAt: "2026-01-02T00:00:00Z",
+          labels: { nodes: [{ name: "bug" }] }
+        }
+      ],
+      tags: [{ name: "v1.0.0", target: { oid: "sha1" } }],
+      releaseNotes: { "v1.0.1": "## What's Changed" }
+    }
+    recorded = emptySnapshot("test-owner", "test-repo", "main")
+    context = {
+      octokit: createOctokit({
+        fetch: createRecordingFetch(recorded, createSnapshotFetch(source)),
+        throttle: false
+      }),
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: null,
+      runAttempt: null,
+      sha: "sha2"
+    }
+  })
+
+  it("should record the responses used on a release branch", async () => {
+    await performAction(context, "v0.1.0", { dryRun: true })
+
+    expect(recorded).toEqual({ ...source, pullRequests: [source.pullRequests[1]] })
+  })
+
+  it("should record the head branch of outgoing pull requests on a feature branch", async () => {
+    context.branch = "feature/x"
+    context.sha = null
+
+    await performAction(context, "v0.1.0")
+
+    expect(recorded.pullRequests).toEqual(source.pullRequests)
+    expect(recorded.tags).toEqual([])
+  })
+
+  it("should not record failed responses", async () => {
+    await expect(
+      context.octokit.rest.repos.createRelease({ owner: "test-owner", repo: "test-repo", tag_name: "v2.0.0" })
+    ).rejects.toMatchObject({ status: 404 })
+
+    expect(recorded).toEqual(emptySnapshot("test-owner", "test-repo", "main"))
+  })
+})
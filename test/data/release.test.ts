@@ -1,6 +1,12 @@
 import { beforeEach, describe, expect, it } from "vitest"
 import type { Context } from "@/context"
-import { createDraftRelease, type Release, updateRelease } from "@/data/release"
+import {
+  createDraftRelease,
+  createPublishedRelease,
+  deleteRelease,
+  type Release,
+  updateRelease
+} from "@/data/release"
 import { Octomock } from "../octomock/octomock"
 
 describe("createDraftRelease", () => {
@@ -16,7 +22,8 @@ describe("createDraftRelease", () => {
       branch: "main",
       releaseBranches: ["main"],
       runNumber: "1",
-      runAttempt: "1"
+      runAttempt: "1",
+      sha: null
     }
   })
 
@@ -30,6 +37,7 @@ describe("createDraftRelease", () => {
       target_commitish: "main",
       name: "Version 1.0.0",
       draft: true,
+      prerelease: false,
       generate_release_notes: true
     })
 
@@ -76,6 +84,70 @@ describe("createDraftRelease", () => {
   })
 })
 
+describe("createPublishedRelease", () => {
+  let octomock: Octomock
+  let context: Context
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: null
+    }
+  })
+
+  it("should create a published release with correct parameters", async () => {
+    const release = await createPublishedRelease(context, "v1.0.0", "main", "Version 1.0.0")
+
+    expect(octomock.createRelease).toHaveBeenCalledWith({
+      owner: "test-owner",
+      repo: "test-repo",
+      tag_name: "v1.0.0",
+      target_commitish: "main",
+      name: "Version 1.0.0",
+      draft: false,
+      prerelease: false,
+      generate_release_notes: true
+    })
+
+    expect(release.tagName).toBe("v1.0.0")
+    expect(release.name).toBe("Version 1.0.0")
+    expect(release.draft).toBe(false)
+    expect(release.publishedAt).toEqual(expect.any(Date))
+  })
+
+  it("should create a published prerelease", async () => {
+    const release = await createPublishedRelease(context, "v2.0.0-beta.1", "next", "v2.0.0-beta.1", true)
+
+    expect(octomock.createRelease).toHaveBeenCalledWith(expect.objectContaining({ prerelease: true }))
+    expect(release.prerelease).toBe(true)
+  })
+
+  it("should create a published release with the given body instead of generated release notes", async () => {
+    const release = await createPublishedRelease(context, "v2.0.0", "main", "v2.0.0", false, "Notes")
+
+    expect(octomock.createRelease).toHaveBeenCalledWith(
+      expect.objectContaining({ body: "Notes", generate_release_notes: false })
+    )
+    expect(release.body).toBe("Notes")
+  })
+
+  it("should handle API errors gracefully", async () => {
+    octomock.injectCreateReleaseError({ message: "Validation Failed", status: 422 })
+
+    // noinspection ES6RedundantAwait
+    await expect(createPublishedRelease(context, "v1.0.0", "main", "Version 1.0.0")).rejects.toThrow(
+      "Validation Failed"
+    )
+  })
+})
+
 describe("updateRelease", () => {
   let octomock: Octomock
   let context: Context
@@ -89,7 +161,8 @@ describe("updateRelease", () => {
       branch: "main",
       releaseBranches: ["main"],
       runNumber: "1",
-      runAttempt: "1"
+      runAttempt: "1",
+      sha: null
     }
   })
 
@@ -112,7 +185,8 @@ describe("updateRelease", () => {
       body: "Some updated body",
       publishedAt: null,
       draft: true,
-      prerelease: true
+      prerelease: true,
+      htmlUrl: "https://github.com/test-owner/test-repo/releases/1"
     }
 
     const release = await updateRelease(context, inputRelease)
@@ -154,7 +228,8 @@ describe("updateRelease", () => {
       body: "Existing body",
       publishedAt: null,
       draft: false, // Publishing the release
-      prerelease: false
+      prerelease: false,
+      htmlUrl: "https://github.com/test-owner/test-repo/releases/1"
     }
 
     const release = await updateRelease(context, inputRelease)
@@ -198,7 +273,8 @@ describe("updateRelease", () => {
       body: "Some body",
       publishedAt: new Date("2026-01-01T00:00:00Z"),
       draft: false,
-      prerelease: false
+      prerelease: false,
+      htmlUrl: "https://github.com/test-owner/test-repo/releases/1"
     }
 
     await updateRelease(context, inputRelease)
@@ -218,7 +294,8 @@ describe("updateRelease", () => {
       body: "Body",
       publishedAt: null,
       draft: false,
-      prerelease: false
+      prerelease: false,
+      htmlUrl: "https://github.com/test-owner/test-repo/releases/400"
     }
 
     // noinspection ES6RedundantAwait
@@ -236,10 +313,47 @@ describe("updateRelease", () => {
       body: "Body",
       publishedAt: null,
       draft: false,
-      prerelease: false
+      prerelease: false,
+      htmlUrl: "https://github.com/test-owner/test-repo/releases/500"
     }
 
     // noinspection ES6RedundantAwait
     await expect(updateRelease(context, inputRelease)).rejects.toThrow("Forbidden")
   })
 })
+
+describe("deleteRelease", () => {
+  let octomock: Octomock
+  let context: Context
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: null
+    }
+  })
+
+  it("should delete the release", async () => {
+    const release = octomock.stageRelease({ tag_name: "v2.0.0-rc.1", prerelease: true })
+
+    await deleteRelease(context, release.id)
+
+    expect(octomock.deleteRelease).toHaveBeenCalledWith({
+      owner: "test-owner",
+      repo: "test-repo",
+      release_id: release.id
+    })
+  })
+
+  it("should handle release not found", async () => {
+    // noinspection ES6RedundantAwait
+    await expect(deleteRelease(context, 999)).rejects.toThrow("Release with id 999 not found")
+  })
+})
@@ -1,4 +1,4 @@
-import { beforeEach, describe, expect, it } from "vitest"
+import { beforeEach, describe, expect, it, vi } from "vitest"
 import type { Context } from "@/context"
 import { generateReleaseNotes } from "@/data/release_notes"
 import { Octomock } from "../octomock/octomock"
@@ -16,7 +16,8 @@ describe("generateReleaseNotes", () => {
       branch: "main",
       releaseBranches: ["main"],
       runNumber: "1",
-      runAttempt: "1"
+      runAttempt: "1",
+      sha: null
     }
   })
 
@@ -46,4 +47,28 @@ describe("generateReleaseNotes", () => {
 
     expect(notes).toBe("## What's Changed\n\n* Changes for v2.0.0\n* Target: main")
   })
+
+  it("should warn and resolve to null when not supported by GitHub Enterprise Server", async () => {
+    const warn = vi.fn()
+    context.warn = warn
+    octomock.generateReleaseNotes.mockRejectedValueOnce(
+      Object.assign(new Error("Not Found"), {
+        status: 404,
+        response: { headers: { "x-github-enterprise-version": "3.2.0" } }
+      })
+    )
+
+    const notes = await generateReleaseNotes(context, "v2.0.0", "main", "v1.0.0")
+
+    expect(notes).toBeNull()
+    expect(warn).toHaveBeenCalledWith(
+      "Release notes could not be generated for v2.0.0 as not supported by GitHub Enterprise Server 3.2.0"
+    )
+  })
+
+  it("should fail when not found otherwise", async () => {
+    octomock.injectGenerateReleaseNotesError({ message: "Not Found", status: 404 })
+
+    await expect(generateReleaseNotes(context, "v2.0.0", "main", "v1.0.0")).rejects.toThrow("Not Found")
+  })
 })
@@ -18,7 +18,8 @@ describe("fetchReleases", () => {
       branch: "main",
       releaseBranches: ["main"],
       runNumber: "1",
-      runAttempt: "1"
+      runAttempt: "1",
+      sha: null
     }
   })
 
@@ -133,7 +134,8 @@ describe("find", () => {
       branch: "main",
       releaseBranches: ["main"],
       runNumber: "1",
-      runAttempt: "1"
+      runAttempt: "1",
+      sha: null
     }
   })
 
@@ -178,7 +180,8 @@ describe("findLast", () => {
       branch: "main",
       releaseBranches: ["main"],
       runNumber: "1",
-      runAttempt: "1"
+      runAttempt: "1",
+      sha: null
     }
   })
 
@@ -284,6 +287,40 @@ describe("findLast", () => {
     expect(release?.targetCommitish).toBe("main")
   })
 
+  it("should only find releases with the tag prefix", async () => {
+    octomock.stageRelease({ id: 1, tag_name: "api-v1.0.0", target_commitish: "main" })
+    octomock.stageRelease({ id: 2, tag_name: "web-v2.0.0", target_commitish: "main" })
+
+    const releases = fetchReleases(context, 30)
+
+    expect((await releases.findLast("main", "api-v"))?.tagName).toBe("api-v1.0.0")
+    expect((await releases.findLast("main", "web-v"))?.tagName).toBe("web-v2.0.0")
+    expect(await releases.findLast("main", "cli-v")).toBeNull()
+    expect((await releases.findLast("main"))?.tagName).toBe("web-v2.0.0")
+  })
+
+  it("should report why each release before the last release was skipped", async () => {
+    octomock.stageRelease({ id: 1, tag_name: "v1.0.0", target_commitish: "main" })
+    octomock.stageRelease({ id: 2, tag_name: "api-v2.0.0", target_commitish: "main" })
+    octomock.stageRelease({ id: 3, tag_name: "v1.1.0", target_commitish: "develop" })
+    octomock.stageRelease({ id: 4, tag_name: "v1.1.0-rc.1", target_commitish: "main", prerelease: true })
+    octomock.stageRelease({ id: 5, name: "v1.1.0", target_commitish: "main", draft: true })
+    const skipped: [number, string][] = []
+
+    const releases = fetchReleases(context, 30)
+    const release = await releases.findLast("main", "v", (release, reason) =>
+      skipped.push([release.id, reason])
+    )
+
+    expect(release?.id).toBe(1)
+    expect(skipped).toEqual([
+      [5, "draft"],
+      [4, "prerelease"],
+      [3, "target-commitish"],
+      [2, "tag-prefix"]
+    ])
+  })
+
   it("should not find release beyond MAX_PAGES (5 pages)", async () => {
     // Releases are automatically sorted by id descending
     // Add releases with "main" commitish (will have lower id)
@@ -320,7 +357,8 @@ describe("findLastDraft", () => {
       branch: "main",
       releaseBranches: ["main"],
       runNumber: "1",
-      runAttempt: "1"
+      runAttempt: "1",
+      sha: null
     }
   })
 
@@ -360,6 +398,35 @@ describe("findLastDraft", () => {
     expect(octomock.listReleases).toHaveBeenCalledTimes(1)
   })
 
+  it("should only find drafts named with the tag prefix", async () => {
+    octomock.stageRelease({ id: 1, name: "api-v1.0.1", target_commitish: "main", draft: true })
+    octomock.stageRelease({ id: 2, name: "web-v2.0.1", target_commitish: "main", draft: true })
+    octomock.stageRelease({ id: 3, name: null, target_commitish: "main", draft: true })
+
+    const releases = fetchReleases(context, 30)
+
+    expect((await releases.findLastDraft("main", "api-v"))?.name).toBe("api-v1.0.1")
+    expect((await releases.findLastDraft("main", "web-v"))?.name).toBe("web-v2.0.1")
+    expect(await releases.findLastDraft("main", "cli-v")).toBeNull()
+    expect((await releases.findLastDraft("main"))?.id).toBe(3)
+  })
+
+  it("should find the first prerelease draft when specified", async () => {
+    octomock.stageRelease({
+      id: 1,
+      name: "v2.0.0-beta.1",
+      target_commitish: "next",
+      draft: true,
+      prerelease: true
+    })
+    octomock.stageRelease({ id: 2, name: "v1.0.1", target_commitish: "next", draft: true, prerelease: false })
+
+    const releases = fetchReleases(context, 30)
+
+    expect((await releases.findLastDraft("next", null, true))?.id).toBe(1)
+    expect((await releases.findLastDraft("next"))?.id).toBe(2)
+  })
+
   it("should return null if no draft release found for the commitish", async () => {
     octomock.stageRelease({ id: 2, name: "v1.0.2", target_commitish: "other", draft: true })
     octomock.stageRelease({ id: 3, name: "v1.0.3", target_commitish: "main", draft: false })
@@ -372,6 +439,53 @@ describe("findLastDraft", () => {
   })
 })
 
+describe("findPrereleases", () => {
+  let octomock: Octomock
+  let context: Context
+
+  beforeEach(() => {
+    octomock = new Octomock()
+
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: null
+    }
+  })
+
+  it("should find published prereleases on any commitish", async () => {
+    octomock.stageRelease({ id: 1, tag_name: "v2.0.0-beta.1", target_commitish: "next", prerelease: true })
+    octomock.stageRelease({ id: 2, tag_name: "v1.0.0", target_commitish: "main" })
+    octomock.stageRelease({ id: 3, tag_name: "v2.0.0-rc.1", target_commitish: "rc", prerelease: true })
+    octomock.stageRelease({
+      id: 4,
+      name: "v2.0.0-beta.2",
+      target_commitish: "next",
+      draft: true,
+      prerelease: true
+    })
+
+    const prereleases = await fetchReleases(context, 30).findPrereleases()
+
+    expect(prereleases.map((release) => release.id)).toEqual([3, 1])
+  })
+
+  it("should not find prereleases beyond MAX_PAGES (5 pages)", async () => {
+    octomock.stageReleases(10, (_) => ({ prerelease: true }))
+    octomock.stageReleases(50, (_) => ({ prerelease: false }))
+
+    const prereleases = await fetchReleases(context, 10).findPrereleases()
+
+    expect(prereleases).toEqual([])
+    expect(octomock.listReleases).toHaveBeenCalledTimes(5)
+  })
+})
+
 async function collectReleases(context: Context, perPage?: number, limit?: number): Promise<Release[]> {
   return collectAsync(fetchReleases(context, perPage), limit)
 }
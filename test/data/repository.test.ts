@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import type { Context } from "@/context"
+import {
+  octokitPullRequestSource,
+  octokitReleaseRepository,
+  type PullRequestSource,
+  pullRequestSource,
+  type ReleaseRepository,
+  releaseRepository,
+  sharedPullRequestSource,
+  sharedReleaseRepository
+} from "@/data/repository"
+import { Octomock } from "../octomock/octomock"
+
+describe("releaseRepository", () => {
+  let octomock: Octomock
+  let context: Context
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: null,
+      runAttempt: null,
+      sha: null
+    }
+  })
+
+  it("should default to the GitHub API", async () => {
+    octomock.stageRelease({ id: 1, tag_name: "v1.0.0" })
+    octomock.stageTag("v1.0.0", "sha1")
+    const repository = releaseRepository(context)
+
+    expect((await repository.fetchReleases().findLast("main"))?.tagName).toBe("v1.0.0")
+    expect(await repository.fetchTagCommit("v1.0.0")).toBe("sha1")
+    await repository.createDraftRelease("v1.1.0", "main", "v1.1.0", false)
+    expect(octomock.createRelease).toHaveBeenCalledWith(
+      expect.objectContaining({ owner: "test-owner", repo: "test-repo", tag_name: "v1.1.0", draft: true })
+    )
+  })
+
+  it("should use the release repository of the context", () => {
+    const repository: ReleaseRepository = octokitReleaseRepository(context)
+    context.releaseRepository = repository
+
+    expect(releaseRepository(context)).toBe(repository)
+  })
+})
+
+describe("sharedReleaseRepository", () => {
+  it("should fetch the releases once", async () => {
+    const octomock = new Octomock()
+    octomock.stageRelease({ id: 1, tag_name: "v1.0.0" })
+    const context: Context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: null,
+      runAttempt: null,
+      sha: null
+    }
+    const repository = sharedReleaseRepository(releaseRepository(context))
+
+    expect((await repository.fetchReleases().findLast("main"))?.tagName).toBe("v1.0.0")
+    expect((await repository.fetchReleases().findLast("main"))?.tagName).toBe("v1.0.0")
+    expect(octomock.octokit.paginate.iterator).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("pullRequestSource", () => {
+  let octomock: Octomock
+  let context: Context
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: null,
+      runAttempt: null,
+      sha: null
+    }
+  })
+
+  it("should default to the GitHub API", async () => {
+    octomock.stagePullRequest({ number: 1, title: "feat: add feature" })
+
+    const prs = await pullRequestSource(context)
+      .fetchPullRequests({ type: "incoming", baseRefName: "main", mergedSince: null })
+      .collect()
+
+    expect(prs.map((pr) => pr.title)).toEqual(["feat: add feature"])
+  })
+
+  it("should use the pull request source of the context", () => {
+    const source: PullRequestSource = octokitPullRequestSource(context)
+    context.pullRequestSource = source
+
+    expect(pullRequestSource(context)).toBe(source)
+  })
+})
+
+describe("sharedPullRequestSource", () => {
+  let octomock: Octomock
+  let source: PullRequestSource
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    source = sharedPullRequestSource(
+      pullRequestSource({
+        octokit: octomock.octokit,
+        owner: "test-owner",
+        repo: "test-repo",
+        branch: "main",
+        releaseBranches: ["main"],
+        runNumber: null,
+        runAttempt: null,
+        sha: null
+      })
+    )
+    octomock.stagePullRequest({ number: 2, mergedAt: "2024-03-01T00:00:00Z" })
+    octomock.stagePullRequest({ number: 1, mergedAt: "2024-01-01T00:00:00Z" })
+  })
+
+  it("should fetch the PRs once, stopping at the merge date of each caller", async () => {
+    const recent = await source
+      .fetchPullRequests({ type: "incoming", baseRefName: "main", mergedSince: new Date("2024-02-01") })
+      .collect()
+    const all = await source
+      .fetchPullRequests({ type: "incoming", baseRefName: "main", mergedSince: null })
+      .collect()
+
+    expect(recent.map((pr) => pr.number)).toEqual([2])
+    expect(all.map((pr) => pr.number)).toEqual([2, 1])
+    expect(octomock.graphQL).toHaveBeenCalledTimes(1)
+  })
+
+  it("should share the PRs fetched with files with callers not needing them", async () => {
+    await source
+      .fetchPullRequests({ type: "incoming", baseRefName: "main", mergedSince: null, withFiles: true })
+      .collect()
+    await source.fetchPullRequests({ type: "incoming", baseRefName: "main", mergedSince: null }).collect()
+
+    expect(octomock.graphQL).toHaveBeenCalledTimes(1)
+  })
+
+  it("should fetch the PRs again when the files are needed", async () => {
+    await source.fetchPullRequests({ type: "incoming", baseRefName: "main", mergedSince: null }).collect()
+    await source
+      .fetchPullRequests({ type: "incoming", baseRefName: "main", mergedSince: null, withFiles: true })
+      .collect()
+
+    expect(octomock.graphQL).toHaveBeenCalledTimes(2)
+  })
+})
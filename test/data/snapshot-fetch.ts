@@ -0,0 +1,122 @@
+import type { Snapshot, SnapshotPullRequest } from "@/data/snapshot"
+
+/**
+ * The variables of the GraphQL queries of the data layer, see `pull-requests.ts` and `tags.ts`.
+ */
+interface GraphQLVariables {
+  baseRefName?: string | null
+  headRefName?: string | null
+  state?: string
+  perPage?: number
+  maxLabels?: number
+  withFiles?: boolean
+  maxFiles?: number
+  cursor?: string | null
+  maxTags?: number
+  qualifiedName?: string
+}
+
+interface RequestBody {
+  tag_name: string
+  query: string
+  variables?: GraphQLVariables
+}
+
+/**
+ * Creates a fetch serving the API requests of the data layer from a snapshot, in the same way as the GitHub
+ * API, to test recording the responses.
+ *
+ * Releases, pull requests and tags are listed, paginated and filtered as by the API. Release notes are
+ * served as recorded, or as a placeholder when not recorded. Any other request, such as creating a release,
+ * fails with 404.
+ */
+export function createSnapshotFetch(snapshot: Snapshot): typeof fetch {
+  return async (input, init) => {
+    const request = new Request(input, init)
+    const url = new URL(request.url)
+    const body = request.method === "POST" ? ((await request.json()) as RequestBody) : null
+    const path = url.pathname
+
+    if (request.method === "GET" && /^\/repos\/[^/]+\/[^/]+\/releases$/.test(path)) {
+      return listReleases(snapshot, url)
+    } else if (body && path.endsWith("/releases/generate-notes")) {
+      const tagName = body.tag_name
+      return jsonResponse(200, {
+        name: tagName,
+        body: snapshot.releaseNotes[tagName] ?? `Release notes for ${tagName} were not recorded.`
+      })
+    } else if (body && path.endsWith("/graphql")) {
+      const data = queryGraphQL(snapshot, body.query, body.variables ?? {})
+      return jsonResponse(
+        200,
+        data ? { data: data } : { errors: [{ message: "Not available when replaying" }] }
+      )
+    }
+    return jsonResponse(404, { message: `Not available when replaying: ${request.method} ${path}` })
+  }
+}
+
+function listReleases(snapshot: Snapshot, url: URL): Response {
+  const perPage = Number(url.searchParams.get("per_page") ?? 30)
+  const page = Number(url.searchParams.get("page") ?? 1)
+  const releases = snapshot.releases.slice((page - 1) * perPage, page * perPage)
+  if (page * perPage >= snapshot.releases.length) {
+    return jsonResponse(200, releases)
+  }
+  const next = new URL(url)
+  next.searchParams.set("page", `${page + 1}`)
+  return jsonResponse(200, releases, { link: `<${next}>; rel="next"` })
+}
+
+/**
+ * Answers the queries of the data layer, or null for any other query.
+ */
+function queryGraphQL(snapshot: Snapshot, query: string, variables: GraphQLVariables): unknown {
+  if (query.includes("pullRequests(")) {
+    return { repository: { pullRequests: queryPullRequests(snapshot, variables) } }
+  } else if (query.includes("ref(qualifiedName")) {
+    const name = variables.qualifiedName?.replace(/^refs\/tags\//, "")
+    return { repository: { ref: snapshot.tags.find((tag) => tag.name === name) ?? null } }
+  } else if (query.includes("refs(")) {
+    return { repository: { refs: { nodes: snapshot.tags.slice(0, variables.maxTags) } } }
+  }
+  return null
+}
+
+function queryPullRequests(snapshot: Snapshot, variables: GraphQLVariables) {
+  const matching = snapshot.pullRequests.filter(
+    (pr) =>
+      (!variables.baseRefName || pr.baseRefName === variables.baseRefName) &&
+      (!variables.headRefName || pr.headRefName === variables.headRefName) &&
+      pr.state === variables.state
+  )
+  const start = variables.cursor ? Number(variables.cursor) : 0
+  const end = start + (variables.perPage ?? 30)
+  return {
+    pageInfo: { hasNextPage: end < matching.length, endCursor: `${end}` },
+    nodes: matching.slice(start, end).map((pr) => pullRequestNode(pr, variables))
+  }
+}
+
+type PullRequestNode = Omit<SnapshotPullRequest, "files"> & {
+  files?: { pageInfo: { hasNextPage: boolean; endCursor: string | null }; nodes: { path: string }[] }
+}
+
+function pullRequestNode(pr: SnapshotPullRequest, variables: GraphQLVariables): PullRequestNode {
+  const { files, ...node } = pr
+  return {
+    ...node,
+    labels: { nodes: pr.labels.nodes.slice(0, variables.maxLabels) },
+    // All the recorded files are served in the first page
+    ...(variables.withFiles
+      ? { files: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: files?.nodes ?? [] } }
+      : {})
+  }
+}
+
+function jsonResponse(status: number, data: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status: status,
+    headers: { "content-type": "application/json", ...headers }
+  })
+}
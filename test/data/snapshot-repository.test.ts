@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import type { PullRequestSource, ReleaseRepository } from "@/data/repository"
+import { emptySnapshot, type Snapshot } from "@/data/snapshot"
+import { snapshotPullRequestSource, snapshotReleaseRepository } from "@/data/snapshot-repository"
+
+describe("snapshot data layer", () => {
+  let snapshot: Snapshot
+  let repository: ReleaseRepository
+  let source: PullRequestSource
+
+  beforeEach(() => {
+    snapshot = {
+      ...emptySnapshot("test-owner", "test-repo", "main"),
+      releases: [
+        {
+          id: 3,
+          tag_name: "untagged-1",
+          target_commitish: "main",
+          name: "v1.1.0",
+          body: null,
+          published_at: null,
+          draft: true,
+          prerelease: false,
+          html_url: "https://github.com/test-owner/test-repo/releases/3"
+        },
+        ...[2, 1].map((id) => ({
+          id: id,
+          tag_name: `v1.0.${id}`,
+          target_commitish: "main",
+          name: `v1.0.${id}`,
+          body: null,
+          published_at: "2026-01-01T00:00:00Z",
+          draft: false,
+          prerelease: false,
+          html_url: `https://github.com/test-owner/test-repo/releases/${id}`
+        }))
+      ],
+      pullRequests: [
+        {
+          title: "feat: add feature",
+          number: 4,
+          baseRefName: "main",
+          headRefName: "feature/x",
+          state: "OPEN",
+          mergedAt: null,
+          labels: { nodes: [{ name: "enhancement" }] },
+          files: { nodes: [{ path: "src/index.ts" }] }
+        },
+        {
+          title: "fix: bug",
+          number: 3,
+          baseRefName: "main",
+          state: "MERGED",
+          mergedAt: "2026-01-03T00:00:00Z",
+          labels: { nodes: [] },
+          files: { nodes: [{ path: "src/bug.ts" }] }
+        },
+        {
+          title: "fix: other bug",
+          number: 2,
+          baseRefName: "develop",
+          state: "MERGED",
+          mergedAt: "2026-01-02T00:00:00Z",
+          labels: { nodes: [] }
+        },
+        {
+          title: "fix: old bug",
+          number: 1,
+          baseRefName: "main",
+          state: "MERGED",
+          mergedAt: "2025-12-01T00:00:00Z",
+          labels: { nodes: [] }
+        }
+      ],
+      tags: [
+        { name: "v1.0.2", target: { oid: "sha2" } },
+        { name: "v1.0.1", target: { oid: "tag1", target: { oid: "sha1" } } }
+      ],
+      releaseNotes: { "v1.1.0": "## What's Changed" }
+    }
+    repository = snapshotReleaseRepository(snapshot)
+    source = snapshotPullRequestSource(snapshot)
+  })
+
+  it("should list the releases in the recorded order", async () => {
+    const releases = repository.fetchReleases()
+
+    expect((await releases.findLastDraft("main"))?.id).toBe(3)
+    expect(await releases.findLast("main")).toEqual({
+      id: 2,
+      tagName: "v1.0.2",
+      targetCommitish: "main",
+      name: "v1.0.2",
+      body: null,
+      publishedAt: new Date("2026-01-01T00:00:00Z"),
+      draft: false,
+      prerelease: false,
+      htmlUrl: "https://github.com/test-owner/test-repo/releases/2"
+    })
+  })
+
+  it("should list the incoming pull requests of the base branch merged since the date", async () => {
+    const prs = await source
+      .fetchPullRequests({ type: "incoming", baseRefName: "main", mergedSince: new Date("2026-01-01") })
+      .collect()
+
+    expect(prs).toEqual([
+      {
+        title: "fix: bug",
+        number: 3,
+        baseRefName: "main",
+        state: "MERGED",
+        mergedAt: new Date("2026-01-03T00:00:00Z"),
+        labels: [],
+        files: []
+      }
+    ])
+  })
+
+  it("should list the outgoing pull requests of the head branch, with files when requested", async () => {
+    const prs = await source
+      .fetchPullRequests({ type: "outgoing", headRefName: "feature/x", withFiles: true })
+      .collect()
+
+    expect(prs).toEqual([
+      expect.objectContaining({ number: 4, labels: ["enhancement"], files: ["src/index.ts"] })
+    ])
+  })
+
+  it("should find the tags of a commit and the commit of a tag", async () => {
+    expect(await repository.fetchTagsForCommit("sha1")).toEqual(["v1.0.1"])
+    expect(await repository.fetchTagCommit("v1.0.2")).toBe("sha2")
+    expect(await repository.fetchTagCommit("v9.9.9")).toBeNull()
+  })
+
+  it("should serve the recorded release notes, or a placeholder", async () => {
+    expect(await repository.generateReleaseNotes("v1.1.0", "main", "v1.0.2")).toBe("## What's Changed")
+    expect(await repository.generateReleaseNotes("v1.2.0", "main", "v1.0.2")).toBe(
+      "Release notes for v1.2.0 were not recorded."
+    )
+  })
+
+  it("should fail to change releases and tags", async () => {
+    await expect(repository.createDraftRelease("v1.1.0", "main", "v1.1.0", false)).rejects.toThrow(
+      "Unable to create the release v1.1.0 when replaying a snapshot"
+    )
+    await expect(repository.createTag("v1.1.0", "sha2")).rejects.toThrow(
+      "Unable to create the tag v1.1.0 when replaying a snapshot"
+    )
+  })
+})
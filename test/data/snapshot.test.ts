@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest"
+import { emptySnapshot, formatSnapshot, parseSnapshot } from "@/data/snapshot"
+
+describe("parseSnapshot", () => {
+  it("should parse a formatted snapshot", () => {
+    const snapshot = {
+      ...emptySnapshot("test-owner", "test-repo", "main"),
+      tags: [{ name: "v1.0.0", target: { oid: "sha1" } }],
+      releaseNotes: { "v1.1.0": "## What's Changed" }
+    }
+
+    expect(parseSnapshot(formatSnapshot(snapshot))).toEqual(snapshot)
+  })
+
+  it("should default what is not specified", () => {
+    expect(parseSnapshot('{"branch": "main"}')).toEqual(emptySnapshot("", "", "main"))
+  })
+
+  it.each([
+    ["not JSON", "Invalid snapshot: Unexpected token"],
+    ["[]", "Invalid snapshot: expected a JSON object"],
+    ['{"pullRequests": {}}', "Invalid snapshot: expected pullRequests to be an array"],
+    ['{"options": []}', "Invalid snapshot: expected options to be an object"]
+  ])("should fail for %s", (json, message) => {
+    expect(() => parseSnapshot(json)).toThrow(message)
+  })
+})
@@ -0,0 +1,177 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import type { Context } from "@/context"
+import { createTag, deleteTag, fetchTagCommit, fetchTagsForCommit } from "@/data/tags"
+import { Octomock } from "../octomock/octomock"
+
+describe("fetchTagsForCommit", () => {
+  let context: Context
+  let octomock: Octomock
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: "commit_2"
+    }
+  })
+
+  it("should return no tags when there are none", async () => {
+    const tags = await fetchTagsForCommit(context, "commit_2")
+
+    expect(tags).toEqual([])
+    expect(octomock.graphQL).toHaveBeenCalledTimes(1)
+  })
+
+  it("should return only the tags pointing at the commit", async () => {
+    octomock.stageTag("v1.1.0", "commit_3")
+    octomock.stageTag("v1.0.0", "commit_2")
+    octomock.stageTag("latest", "commit_2")
+    octomock.stageTag("v0.9.0", "commit_1")
+
+    const tags = await fetchTagsForCommit(context, "commit_2")
+
+    expect(tags).toEqual(["v1.0.0", "latest"])
+  })
+
+  it("should return annotated tags pointing at the commit", async () => {
+    octomock.stageTag("v1.0.0", "commit_2", true)
+    octomock.stageTag("v0.9.0", "commit_1", true)
+
+    const tags = await fetchTagsForCommit(context, "commit_2")
+
+    expect(tags).toEqual(["v1.0.0"])
+  })
+
+  it("should query the most recent tags", async () => {
+    await fetchTagsForCommit(context, "commit_2")
+
+    expect(octomock.graphQL).toHaveBeenCalledWith(expect.stringContaining("TAG_COMMIT_DATE"), {
+      owner: "test-owner",
+      repo: "test-repo",
+      maxTags: 100
+    })
+  })
+
+  it("should propagate GraphQL errors", async () => {
+    octomock.injectGraphQLError({ message: "GraphQL Error", status: 500 })
+
+    await expect(fetchTagsForCommit(context, "commit_2")).rejects.toThrow("GraphQL Error")
+  })
+})
+
+describe("fetchTagCommit", () => {
+  let context: Context
+  let octomock: Octomock
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: null
+    }
+  })
+
+  it("should return null when the tag does not exist", async () => {
+    const sha = await fetchTagCommit(context, "v1.0.0")
+
+    expect(sha).toBeNull()
+    expect(octomock.graphQL).toHaveBeenCalledWith(expect.stringContaining("ref(qualifiedName"), {
+      owner: "test-owner",
+      repo: "test-repo",
+      qualifiedName: "refs/tags/v1.0.0"
+    })
+  })
+
+  it("should return the commit of a lightweight tag", async () => {
+    octomock.stageTag("v1.0.0", "commit_1")
+
+    expect(await fetchTagCommit(context, "v1.0.0")).toBe("commit_1")
+  })
+
+  it("should return the commit of an annotated tag", async () => {
+    octomock.stageTag("v1.0.0", "commit_1", true)
+
+    expect(await fetchTagCommit(context, "v1.0.0")).toBe("commit_1")
+  })
+})
+
+describe("createTag", () => {
+  let context: Context
+  let octomock: Octomock
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: null
+    }
+  })
+
+  it("should create a tag ref at the commit", async () => {
+    await createTag(context, "v1.0.0", "commit_1")
+
+    expect(octomock.createRef).toHaveBeenCalledWith({
+      owner: "test-owner",
+      repo: "test-repo",
+      ref: "refs/tags/v1.0.0",
+      sha: "commit_1"
+    })
+    expect(await fetchTagCommit(context, "v1.0.0")).toBe("commit_1")
+  })
+
+  it("should fail when the tag already exists", async () => {
+    octomock.stageTag("v1.0.0", "commit_1")
+
+    await expect(createTag(context, "v1.0.0", "commit_2")).rejects.toThrow("Reference already exists")
+  })
+})
+
+describe("deleteTag", () => {
+  let context: Context
+  let octomock: Octomock
+
+  beforeEach(() => {
+    octomock = new Octomock()
+    context = {
+      octokit: octomock.octokit,
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: "1",
+      runAttempt: "1",
+      sha: null
+    }
+  })
+
+  it("should delete the tag ref", async () => {
+    octomock.stageTag("v1.0.0", "commit_1")
+
+    await deleteTag(context, "v1.0.0")
+
+    expect(octomock.deleteRef).toHaveBeenCalledWith({
+      owner: "test-owner",
+      repo: "test-repo",
+      ref: "tags/v1.0.0"
+    })
+    expect(await fetchTagCommit(context, "v1.0.0")).toBeNull()
+  })
+})
@@ -1,5 +1,9 @@
-import { beforeEach, describe, expect, it, vi } from "vitest"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest"
 import * as core from "@/actions-core/core"
+import { summary } from "@/actions-core/summary"
 
 vi.mock("@/context", () => ({
   createContext: vi.fn().mockReturnValue({
@@ -9,22 +13,71 @@ vi.mock("@/context", () => ({
     branch: "main",
     releaseBranches: ["main"],
     runNumber: "1",
-    runAttempt: "1"
+    runAttempt: "1",
+    sha: null
   })
 }))
 
 // Mock the core module before importing main
 vi.mock("@/core", () => ({
-  performAction: vi.fn()
+  findReleaseBranchPattern: vi.fn().mockReturnValue("main"),
+  performAction: vi.fn(),
+  performComponentActions: vi.fn(),
+  promoteRelease: vi.fn(),
+  promotedPrereleases: ["keep", "supersede", "delete"],
+  releaseModes: ["continuous", "managed"]
 }))
 
 import * as contextModule from "@/context"
+import type { PromotedReleaseResult } from "@/core"
 import * as coreModule from "@/core"
 import { main } from "@/main"
-import { parseVersion } from "@/versioning/version"
+import { parseTagVersion, parseVersion } from "@/versioning/version"
+import { semverScheme } from "@/versioning/version-scheme"
+
+function mockInputs(inputs: Record<string, string>) {
+  return vi.spyOn(core, "getInput").mockImplementation((name: string) => inputs[name] ?? "")
+}
+
+function mockMultilineInputs(inputs: Record<string, string[]>) {
+  return vi.spyOn(core, "getMultilineInput").mockImplementation((name: string) => inputs[name] ?? [])
+}
+
+function promotedResult(): PromotedReleaseResult {
+  return {
+    action: "promoted",
+    prerelease: {
+      id: 124,
+      name: "v2.0.0-rc.3",
+      tagName: "v2.0.0-rc.3",
+      body: "Release notes",
+      draft: false,
+      prerelease: true,
+      htmlUrl: "https://github.com/test-owner/test-repo/releases/124",
+      targetCommitish: "main",
+      publishedAt: null
+    },
+    promotedPrerelease: "supersede",
+    lastRelease: null,
+    lastVersion: parseVersion("1.0.0"),
+    version: parseVersion("2.0.0"),
+    release: {
+      id: 125,
+      name: "v2.0.0",
+      tagName: "v2.0.0",
+      body: "Release notes",
+      draft: false,
+      prerelease: false,
+      htmlUrl: "https://github.com/test-owner/test-repo/releases/125",
+      targetCommitish: "main",
+      publishedAt: null
+    }
+  }
+}
 
 describe("main", () => {
   beforeEach(() => {
+    vi.restoreAllMocks()
     vi.clearAllMocks()
 
     // Setup default mock return value
@@ -38,6 +91,7 @@ describe("main", () => {
         body: "Release notes",
         draft: false,
         prerelease: false,
+        htmlUrl: "https://github.com/test-owner/test-repo/releases/122",
         targetCommitish: "main",
         publishedAt: null
       },
@@ -49,6 +103,7 @@ describe("main", () => {
         body: "Release notes",
         draft: true,
         prerelease: false,
+        htmlUrl: "https://github.com/test-owner/test-repo/releases/123",
         targetCommitish: "main",
         publishedAt: null
       },
@@ -60,7 +115,44 @@ describe("main", () => {
         "feat: feature 3",
         "fix: another bug"
       ],
-      versionIncrement: "minor"
+      pullRequestImpacts: [
+        {
+          number: 1,
+          title: "feat: feature 1",
+          type: "feat",
+          scope: null,
+          impact: "minor",
+          reason: "type `feat`"
+        },
+        {
+          number: 2,
+          title: "feat: feature 2",
+          type: "feat",
+          scope: null,
+          impact: "minor",
+          reason: "type `feat`"
+        },
+        { number: 3, title: "fix: bug fix", type: "fix", scope: null, impact: "patch", reason: "type `fix`" },
+        {
+          number: 4,
+          title: "feat: feature 3",
+          type: "feat",
+          scope: null,
+          impact: "minor",
+          reason: "type `feat`"
+        },
+        {
+          number: 5,
+          title: "fix: another bug",
+          type: "fix",
+          scope: null,
+          impact: "patch",
+          reason: "type `fix`"
+        }
+      ],
+      versionIncrement: "minor",
+      inferredIncrement: "minor",
+      versionSource: "inferred"
     })
   })
 
@@ -77,11 +169,52 @@ describe("main", () => {
     await main()
 
     expect(getInputSpy).toHaveBeenCalledWith("target-branch")
-    expect(contextModule.createContext).toHaveBeenCalledWith("release", expect.anything())
+    expect(contextModule.createContext).toHaveBeenCalledWith("release", expect.anything(), {
+      apiUrl: "",
+      graphqlUrl: "",
+      appId: "",
+      privateKey: "",
+      proxyUrl: ""
+    })
+  })
+
+  it("uses the api-url and graphql-url inputs when provided", async () => {
+    mockInputs({
+      "default-tag": "v0.1.0",
+      "api-url": "https://github.example.com/api/v3",
+      "graphql-url": "https://github.example.com/api/graphql"
+    })
+    vi.spyOn(core, "info").mockImplementation(() => {})
+    vi.spyOn(core, "setOutput").mockImplementation(() => {})
+
+    await main()
+
+    expect(contextModule.createContext).toHaveBeenCalledWith(
+      "",
+      expect.anything(),
+      expect.objectContaining({
+        apiUrl: "https://github.example.com/api/v3",
+        graphqlUrl: "https://github.example.com/api/graphql"
+      })
+    )
+  })
+
+  it("uses the app-id and private-key inputs when provided", async () => {
+    mockInputs({ "default-tag": "v0.1.0", "app-id": "123", "private-key": "test-private-key" })
+    vi.spyOn(core, "info").mockImplementation(() => {})
+    vi.spyOn(core, "setOutput").mockImplementation(() => {})
+
+    await main()
+
+    expect(contextModule.createContext).toHaveBeenCalledWith(
+      "",
+      expect.anything(),
+      expect.objectContaining({ appId: "123", privateKey: "test-private-key" })
+    )
   })
 
   it("reads default-tag input and calls upsertDraftRelease", async () => {
-    const getInput = vi.spyOn(core, "getInput").mockReturnValue("v0.1.0")
+    const getInput = mockInputs({ "default-tag": "v0.1.0" })
     vi.spyOn(core, "info").mockImplementation(() => {})
     const setOutput = vi.spyOn(core, "setOutput").mockImplementation(() => {})
 
@@ -97,9 +230,24 @@ describe("main", () => {
         repo: "test-repo",
         releaseBranches: ["main"],
         runNumber: "1",
-        runAttempt: "1"
+        runAttempt: "1",
+        sha: null
       },
-      "v0.1.0"
+      "v0.1.0",
+      {
+        mode: "continuous",
+        initialDevelopment: false,
+        strict: false,
+        version: undefined,
+        force: false,
+        tagTemplate: undefined,
+        nameTemplate: undefined,
+        versionScheme: semverScheme,
+        prereleaseChannels: [],
+        dryRun: false,
+        typeImpacts: { feat: "minor", fix: "patch" },
+        labelImpacts: { breaking: "major", enhancement: "minor", bug: "patch" }
+      }
     )
     expect(setOutput).toHaveBeenCalledWith("action", "created")
     expect(setOutput).toHaveBeenCalledWith("last-version", "1.0.0")
@@ -107,6 +255,26 @@ describe("main", () => {
     expect(setOutput).toHaveBeenCalledWith("release-id", 123)
   })
 
+  it("logs and outputs the impact of each pull request", async () => {
+    mockInputs({ "default-tag": "v0.1.0" })
+    const info = vi.spyOn(core, "info").mockImplementation(() => {})
+    const setOutput = vi.spyOn(core, "setOutput").mockImplementation(() => {})
+
+    await main()
+
+    expect(info).toHaveBeenCalledWith(expect.stringContaining("  #3 fix: bug fix [patch: type `fix`]"))
+    expect(setOutput).toHaveBeenCalledWith("pull-requests", expect.any(String))
+    const output = setOutput.mock.calls.find(([name]) => name === "pull-requests")?.[1]
+    expect(JSON.parse(output as string)[0]).toEqual({
+      number: 1,
+      title: "feat: feature 1",
+      type: "feat",
+      scope: null,
+      impact: "minor",
+      reason: "type `feat`"
+    })
+  })
+
   it("calls setFailed when an exception is thrown", async () => {
     vi.spyOn(core, "getInput").mockImplementation(() => {
       throw new Error("boom")
@@ -122,7 +290,7 @@ describe("main", () => {
     vi.mocked(contextModule.createContext).mockImplementationOnce(() => {
       throw new Error("GITHUB_TOKEN environment variable is not set")
     })
-    vi.spyOn(core, "getInput").mockReturnValue("v0.1.0")
+    mockInputs({ "default-tag": "v0.1.0" })
     const setFailed = vi.spyOn(core, "setFailed").mockImplementation(() => {})
 
     await main()
@@ -130,13 +298,26 @@ describe("main", () => {
     expect(setFailed).toHaveBeenCalledWith("GITHUB_TOKEN environment variable is not set")
   })
 
+  it("logs the rate limit at the end of the run, even when failing", async () => {
+    vi.mocked(coreModule.performAction).mockRejectedValueOnce(new Error("Bad credentials"))
+    mockInputs({ "default-tag": "v0.1.0" })
+    const info = vi.spyOn(core, "info").mockImplementation(() => {})
+    const setFailed = vi.spyOn(core, "setFailed").mockImplementation(() => {})
+
+    await main()
+
+    expect(info).toHaveBeenCalledWith("Rate Limit: (unknown)")
+    expect(setFailed).toHaveBeenCalledWith("Bad credentials")
+  })
+
   it("outputs all result information", async () => {
-    vi.spyOn(core, "getInput").mockReturnValue("v0.1.0")
+    mockInputs({ "default-tag": "v0.1.0" })
     const info = vi.spyOn(core, "info").mockImplementation(() => {})
     vi.spyOn(core, "setOutput").mockImplementation(() => {})
 
     await main()
 
+    expect(info).toHaveBeenCalledWith("Release Branch Pattern: main")
     expect(info).toHaveBeenCalledWith("Action Taken: created")
     expect(info).toHaveBeenCalledWith("Last Release: v1.0.0")
     expect(info).toHaveBeenCalledWith("Current Draft: (none)")
@@ -155,7 +336,7 @@ describe("main", () => {
       lastRelease: null,
       lastVersion: null
     })
-    vi.spyOn(core, "getInput").mockReturnValue("v0.1.0")
+    mockInputs({ "default-tag": "v0.1.0" })
     vi.spyOn(core, "info").mockImplementation(() => {})
     const setOutput = vi.spyOn(core, "setOutput").mockImplementation(() => {})
 
@@ -173,7 +354,7 @@ describe("main", () => {
       lastRelease: null,
       lastVersion: null
     })
-    vi.spyOn(core, "getInput").mockReturnValue("v0.1.0")
+    mockInputs({ "default-tag": "v0.1.0" })
     const info = vi.spyOn(core, "info").mockImplementation(() => {})
     vi.spyOn(core, "setOutput").mockImplementation(() => {})
 
@@ -185,6 +366,64 @@ describe("main", () => {
     )
   })
 
+  it("outputs the version of a version tag already released", async () => {
+    const lastRelease = {
+      id: 122,
+      name: "v1.0.0",
+      tagName: "v1.0.0",
+      body: "Release notes",
+      draft: false,
+      prerelease: false,
+      htmlUrl: "https://github.com/test-owner/test-repo/releases/122",
+      targetCommitish: "main",
+      publishedAt: new Date("2024-01-01T00:00:00Z")
+    }
+    vi.mocked(coreModule.performAction).mockResolvedValue({
+      action: "version",
+      lastRelease: lastRelease,
+      lastVersion: parseVersion("v1.0.0"),
+      pullRequestTitles: [],
+      pullRequestImpacts: [],
+      versionIncrement: "none",
+      inferredIncrement: "none",
+      versionSource: "tag",
+      version: parseVersion("v1.0.0+1.1")
+    })
+    mockInputs({ "default-tag": "v0.1.0" })
+    mockMultilineInputs({ "release-branches": ["main"] })
+    const info = vi.spyOn(core, "info").mockImplementation(() => {})
+    const setOutput = vi.spyOn(core, "setOutput").mockImplementation(() => {})
+
+    await main()
+
+    expect(info).toHaveBeenCalledWith("\nRelease branch: Version tag already released")
+    expect(setOutput).toHaveBeenCalledWith("action", "version")
+    expect(setOutput).toHaveBeenCalledWith("next-version", "1.0.0")
+    expect(setOutput).toHaveBeenCalledWith("version-source", "tag")
+  })
+
+  it("logs the increment inferred when lowered in initial development", async () => {
+    vi.mocked(coreModule.performAction).mockResolvedValue({
+      action: "version",
+      lastRelease: null,
+      lastVersion: parseVersion("v0.3.1"),
+      pullRequestTitles: ["feat!: breaking change"],
+      pullRequestImpacts: [],
+      versionIncrement: "minor",
+      inferredIncrement: "major",
+      versionSource: "inferred",
+      version: parseVersion("v0.4.0")
+    })
+    mockInputs({ "default-tag": "v0.1.0" })
+    mockMultilineInputs({ "release-branches": ["main"] })
+    const info = vi.spyOn(core, "info").mockImplementation(() => {})
+    vi.spyOn(core, "setOutput").mockImplementation(() => {})
+
+    await main()
+
+    expect(info).toHaveBeenCalledWith("Version Increment: minor (major during initial development)")
+  })
+
   it("outputs version inference results for feature branch", async () => {
     vi.mocked(coreModule.performAction).mockResolvedValue({
       action: "version",
@@ -195,16 +434,29 @@ describe("main", () => {
         body: "Release notes",
         draft: false,
         prerelease: false,
+        htmlUrl: "https://github.com/test-owner/test-repo/releases/122",
         targetCommitish: "main",
         publishedAt: null
       },
       lastVersion: parseVersion("v1.0.0"),
       pullRequestTitles: ["feat: new feature"],
+      pullRequestImpacts: [
+        {
+          number: 1,
+          title: "feat: new feature",
+          type: "feat",
+          scope: null,
+          impact: "minor",
+          reason: "type `feat`"
+        }
+      ],
       versionIncrement: "minor",
+      inferredIncrement: "minor",
+      versionSource: "inferred",
       version: parseVersion("v1.1.0").withPrerelease(["branch", "feature"])
     })
-    vi.spyOn(core, "getInput").mockReturnValue("v0.1.0")
-    vi.spyOn(core, "getMultilineInput").mockReturnValue(["main"])
+    mockInputs({ "default-tag": "v0.1.0" })
+    mockMultilineInputs({ "release-branches": ["main"] })
     const info = vi.spyOn(core, "info").mockImplementation(() => {})
     const setOutput = vi.spyOn(core, "setOutput").mockImplementation(() => {})
 
@@ -233,7 +485,8 @@ describe("main", () => {
         branch: "feature",
         releaseBranches: ["main"],
         runNumber: "1",
-        runAttempt: "1"
+        runAttempt: "1",
+        sha: null
       }
     })
 
@@ -242,11 +495,23 @@ describe("main", () => {
       lastRelease: null,
       lastVersion: null,
       pullRequestTitles: ["feat: new feature"],
+      pullRequestImpacts: [
+        {
+          number: 1,
+          title: "feat: new feature",
+          type: "feat",
+          scope: null,
+          impact: "minor",
+          reason: "type `feat`"
+        }
+      ],
       versionIncrement: "minor",
+      inferredIncrement: "minor",
+      versionSource: "inferred",
       version: parseVersion("v0.1.0").withPrerelease(["branch", "feature"])
     })
-    vi.spyOn(core, "getInput").mockReturnValue("v0.1.0")
-    vi.spyOn(core, "getMultilineInput").mockReturnValue(["main"])
+    mockInputs({ "default-tag": "v0.1.0" })
+    mockMultilineInputs({ "release-branches": ["main"] })
     vi.spyOn(core, "info").mockImplementation(() => {})
     const setOutput = vi.spyOn(core, "setOutput").mockImplementation(() => {})
 
@@ -258,4 +523,681 @@ describe("main", () => {
     expect(setOutput).not.toHaveBeenCalledWith("release-id", expect.anything())
     expect(setOutput).not.toHaveBeenCalledWith("last-version", expect.anything())
   })
+
+  it("passes managed mode input to performAction", async () => {
+    mockInputs({ "default-tag": "v0.1.0", mode: "managed" })
+    vi.spyOn(core, "info").mockImplementation(() => {})
+    vi.spyOn(core, "setOutput").mockImplementation(() => {})
+
+    await main()
+
+    expect(coreModule.performAction).toHaveBeenCalledWith(
+      expect.anything(),
+      "v0.1.0",
+      expect.objectContaining({ mode: "managed" })
+    )
+  })
+
+  it("calls setFailed when mode input is invalid", async () => {
+    mockInputs({ "default-tag": "v0.1.0", mode: "sometimes" })
+    const setFailed = vi.spyOn(core, "setFailed").mockImplementation(() => {})
+
+    await main()
+
+    expect(setFailed).toHaveBeenCalledWith("Invalid mode: sometimes. Expected one of: continuous, managed")
+    expect(coreModule.performAction).not.toHaveBeenCalled()
+  })
+
+  it("outputs published release results in managed mode", async () => {
+    vi.mocked(coreModule.performAction).mockResolvedValue({
+      action: "published",
+      lastDraft: null,
+      lastRelease: null,
+      lastVersion: null,
+      release: {
+        id: 124,
+        name: "v1.1.0",
+        tagName: "v1.1.0",
+        body: "Release notes",
+        draft: false,
+        prerelease: false,
+        htmlUrl: "https://github.com/test-owner/test-repo/releases/124",
+        targetCommitish: "main",
+        publishedAt: new Date("2026-01-01T00:00:00Z")
+      },
+      version: parseVersion("1.1.0"),
+      pullRequestTitles: ["feat: feature 1"],
+      pullRequestImpacts: [
+        {
+          number: 1,
+          title: "feat: feature 1",
+          type: "feat",
+          scope: null,
+          impact: "minor",
+          reason: "type `feat`"
+        }
+      ],
+      versionIncrement: "minor",
+      inferredIncrement: "minor",
+      versionSource: "inferred"
+    })
+    mockInputs({ "default-tag": "v0.1.0", mode: "managed" })
+    const info = vi.spyOn(core, "info").mockImplementation(() => {})
+    const setOutput = vi.spyOn(core, "setOutput").mockImplementation(() => {})
+
+    await main()
+
+    expect(info).toHaveBeenCalledWith("\nRelease branch: Managed release")
+    expect(info).toHaveBeenCalledWith("Promoted Draft: (none)")
+    expect(info).toHaveBeenCalledWith(expect.stringContaining("Published Release: v1.1.0"))
+    expect(setOutput).toHaveBeenCalledWith("action", "published")
+    expect(setOutput).toHaveBeenCalledWith("next-version", "1.1.0")
+    expect(setOutput).toHaveBeenCalledWith("release-id", 124)
+  })
+
+  it("passes label-impacts input replacing the defaults to performAction", async () => {
+    mockInputs({ "default-tag": "v0.1.0" })
+    mockMultilineInputs({ "label-impacts": ["feature: minor", "fix: patch"] })
+    vi.spyOn(core, "info").mockImplementation(() => {})
+    vi.spyOn(core, "setOutput").mockImplementation(() => {})
+
+    await main()
+
+    expect(coreModule.performAction).toHaveBeenCalledWith(
+      expect.anything(),
+      "v0.1.0",
+      expect.objectContaining({
+        labelImpacts: { feature: "minor", fix: "patch" }
+      })
+    )
+  })
+
+  it("passes type-impacts input added to the defaults to performAction", async () => {
+    mockInputs({ "default-tag": "v0.1.0" })
+    mockMultilineInputs({ "type-impacts": ["perf: patch", "deps: minor"] })
+    const info = vi.spyOn(core, "info").mockImplementation(() => {})
+    vi.spyOn(core, "setOutput").mockImplementation(() => {})
+
+    await main()
+
+    expect(coreModule.performAction).toHaveBeenCalledWith(
+      expect.anything(),
+      "v0.1.0",
+      expect.objectContaining({
+        typeImpacts: { feat: "minor", fix: "patch", perf: "patch", deps: "minor" }
+      })
+    )
+    expect(info).toHaveBeenCalledWith("Type Impacts: feat: minor, fix: patch, perf: patch, deps: minor")
+    expect(info).toHaveBeenCalledWith("Label Impacts: breaking: major, enhancement: minor, bug: patch")
+  })
+
+  it("passes type-impacts input disabling a default to performAction", async () => {
+    mockInputs({ "default-tag": "v0.1.0" })
+    mockMultilineInputs({ "type-impacts": ["Fix: none", "Perf: patch"] })
+    const info = vi.spyOn(core, "info").mockImplementation(() => {})
+    vi.spyOn(core, "setOutput").mockImplementation(() => {})
+
+    await main()
+
+    expect(coreModule.performAction).toHaveBeenCalledWith(
+      expect.anything(),
+      "v0.1.0",
+      expect.objectContaining({ typeImpacts: { feat: "minor", fix: "none", perf: "patch" } })
+    )
+    expect(info).toHaveBeenCalledWith("Type Impacts: feat: minor, fix: none, perf: patch")
+  })
+
+  it("calls setFailed when label-impacts input is invalid", async () => {
+    mockInputs({ "default-tag": "v0.1.0" })
+    mockMultilineInputs({ "label-impacts": ["feature"] })
+    const setFailed = vi.spyOn(core, "setFailed").mockImplementation(() => {})
+
+    await main()
+
+    expect(setFailed).toHaveBeenCalledWith(expect.stringContaining("Invalid impact mapping: 'feature'"))
+  })
+
+  it("passes initial-development input to performAction", async () => {
+    mockInputs({ "default-tag": "v0.1.0", "initial-development": "true" })
+    vi.spyOn(core, "getBooleanInput").mockReturnValue(true)
+    vi.spyOn(core, "info").mockImplementation(() => {})
+    vi.spyOn(core, "setOutput").mockImplementation(() => {})
+
+    await main()
+
+    expect(coreModule.performAction).toHaveBeenCalledWith(
+      expect.anything(),
+      "v0.1.0",
+      expect.objectContaining({ initialDevelopment: true })
+    )
+  })
+
+  it("passes strict input to performAction", async () => {
+    mockInputs({ "default-tag": "v0.1.0", strict: "true" })
+    vi.spyOn(core, "getBooleanInput").mockReturnValue(true)
+    vi.spyOn(core, "info").mockImplementation(() => {})
+    vi.spyOn(core, "setOutput").mockImplementation(() => {})
+
+    await main()
+
+    expect(coreModule.performAction).toHaveBeenCalledWith(
+      expect.anything(),
+      "v0.1.0",
+      expect.objectContaining({ strict: true })
+    )
+  })
+
+  it("reports the release request of a dry run without a release id", async () => {
+    mockInputs({ "default-tag": "v0.1.0", "dry-run": "true" })
+    vi.spyOn(core, "getBooleanInput").mockImplementation((name: string) => name === "dry-run")
+    const info = vi.spyOn(core, "info").mockImplementation(() => {})
+    const setOutput = vi.spyOn(core, "setOutput").mockImplementation(() => {})
+    vi.mocked(coreModule.performAction).mockResolvedValueOnce({
+      action: "would-update",
+      lastDraft: null,
+      lastRelease: null,
+      lastVersion: parseVersion("1.0.0"),
+      pullRequestTitles: [],
+      pullRequestImpacts: [],
+      versionIncrement: "minor",
+      inferredIncrement: "minor",
+      version: parseVersion("1.1.0"),
+      versionSource: "inferred",
+      request: { owner: "test-owner", repo: "test-repo", release_id: 123, name: "v1.1.0" },
+      currentRequest: { owner: "test-owner", repo: "test-repo", release_id: 123, name: "v1.0.1" }
+    })
+
+    await main()
+
+    expect(coreModule.performAction).toHaveBeenCalledWith(
+      expect.anything(),
+      "v0.1.0",
+      expect.objectContaining({ dryRun: true })
+    )
+    expect(info).toHaveBeenCalledWith(
+      [
+        "Release Request:",
+        '  owner: "test-owner"',
+        '  repo: "test-repo"',
+        "  release_id: 123",
+        '- name: "v1.0.1"',
+        '+ name: "v1.1.0"'
+      ].join("\n")
+    )
+    expect(setOutput).toHaveBeenCalledWith("action", "would-update")
+    expect(setOutput).toHaveBeenCalledWith("next-version", "1.1.0")
+    expect(setOutput).not.toHaveBeenCalledWith("release-id", expect.anything())
+  })
+
+  it("passes version and force inputs to performAction", async () => {
+    mockInputs({ "default-tag": "v0.1.0", version: "2.0.0", force: "true" })
+    vi.spyOn(core, "getBooleanInput").mockImplementation((name: string) => name === "force")
+    vi.spyOn(core, "info").mockImplementation(() => {})
+    const setOutput = vi.spyOn(core, "setOutput").mockImplementation(() => {})
+
+    await main()
+
+    expect(coreModule.performAction).toHaveBeenCalledWith(
+      expect.anything(),
+      "v0.1.0",
+      expect.objectContaining({ version: "2.0.0", force: true, strict: false })
+    )
+    expect(setOutput).toHaveBeenCalledWith("version-source", "inferred")
+  })
+
+  it("passes tag-template and name-template inputs to performAction", async () => {
+    mockInputs({
+      "default-tag": "v0.1.0",
+      "tag-template": "release-{version}",
+      "name-template": "MyApp {version} ({date})"
+    })
+    vi.spyOn(core, "info").mockImplementation(() => {})
+    vi.spyOn(core, "setOutput").mockImplementation(() => {})
+
+    await main()
+
+    expect(coreModule.performAction).toHaveBeenCalledWith(
+      expect.anything(),
+      "v0.1.0",
+      expect.objectContaining({ tagTemplate: "release-{version}", nameTemplate: "MyApp {version} ({date})" })
+    )
+  })
+
+  it("passes version-scheme input to performAction", async () => {
+    mockInputs({ "default-tag": "v0.1.0", "version-scheme": "YY.0W.MICRO" })
+    const info = vi.spyOn(core, "info").mockImplementation(() => {})
+    vi.spyOn(core, "setOutput").mockImplementation(() => {})
+
+    await main()
+
+    expect(info).toHaveBeenCalledWith("Version Scheme: YY.0W.MICRO")
+    expect(coreModule.performAction).toHaveBeenCalledWith(
+      expect.anything(),
+      "v0.1.0",
+      expect.objectContaining({ versionScheme: expect.objectContaining({ name: "YY.0W.MICRO" }) })
+    )
+  })
+
+  it("calls setFailed when version-scheme input is invalid", async () => {
+    mockInputs({ "default-tag": "v0.1.0", "version-scheme": "YYYY.MM" })
+    const setFailed = vi.spyOn(core, "setFailed").mockImplementation(() => {})
+
+    await main()
+
+    expect(setFailed).toHaveBeenCalledWith(expect.stringContaining("Invalid version scheme: 'YYYY.MM'"))
+    expect(coreModule.performAction).not.toHaveBeenCalled()
+  })
+
+  it("passes prerelease-branches input to performAction", async () => {
+    mockInputs({ "default-tag": "v0.1.0" })
+    mockMultilineInputs({ "prerelease-branches": ["main: beta", "next/*: rc"] })
+    const info = vi.spyOn(core, "info").mockImplementation(() => {})
+    vi.spyOn(core, "setOutput").mockImplementation(() => {})
+
+    await main()
+
+    expect(info).toHaveBeenCalledWith("Prerelease Channel: beta")
+    expect(coreModule.performAction).toHaveBeenCalledWith(
+      expect.anything(),
+      "v0.1.0",
+      expect.objectContaining({
+        prereleaseChannels: [
+          { branch: "main", identifier: "beta" },
+          { branch: "next/*", identifier: "rc" }
+        ]
+      })
+    )
+  })
+
+  it("calls setFailed when prerelease-branches input is invalid", async () => {
+    mockInputs({ "default-tag": "v0.1.0" })
+    mockMultilineInputs({ "prerelease-branches": ["next"] })
+    const setFailed = vi.spyOn(core, "setFailed").mockImplementation(() => {})
+
+    await main()
+
+    expect(setFailed).toHaveBeenCalledWith(
+      "Invalid prerelease channel: 'next'. Expected format: <branch>: <identifier>"
+    )
+  })
+
+  it("calls setFailed when tag-template input is invalid", async () => {
+    mockInputs({ "default-tag": "v0.1.0", "tag-template": "release-{date}" })
+    const setFailed = vi.spyOn(core, "setFailed").mockImplementation(() => {})
+
+    await main()
+
+    expect(setFailed).toHaveBeenCalledWith(
+      "Invalid tag template: 'release-{date}'. Expected a single placeholder of: {version}"
+    )
+    expect(coreModule.performAction).not.toHaveBeenCalled()
+  })
+
+  it("warns about pull request titles that are not conventional commits", async () => {
+    mockInputs({ "default-tag": "v0.1.0" })
+    vi.spyOn(core, "info").mockImplementation(() => {})
+    vi.spyOn(core, "setOutput").mockImplementation(() => {})
+    const warning = vi.spyOn(core, "warning").mockImplementation(() => {})
+    vi.mocked(coreModule.performAction).mockResolvedValueOnce({
+      action: "version",
+      lastRelease: null,
+      lastVersion: null,
+      version: parseVersion("0.1.0"),
+      pullRequestTitles: ["feat: feature 1", "feature: add x", "Update README"],
+      pullRequestImpacts: [
+        {
+          number: 1,
+          title: "feat: feature 1",
+          type: "feat",
+          scope: null,
+          impact: "minor",
+          reason: "type `feat`"
+        },
+        {
+          number: 2,
+          title: "feature: add x",
+          type: null,
+          scope: null,
+          impact: "none",
+          reason: "not a conventional commit"
+        },
+        {
+          number: 3,
+          title: "Update README",
+          type: null,
+          scope: null,
+          impact: "none",
+          reason: "not a conventional commit"
+        }
+      ],
+      versionIncrement: "minor",
+      inferredIncrement: "minor",
+      versionSource: "inferred"
+    })
+
+    await main()
+
+    expect(warning).toHaveBeenCalledTimes(2)
+    expect(warning).toHaveBeenCalledWith(
+      "Pull request #2 title 'feature: add x' is not a conventional commit, did you mean 'feat: add x'?",
+      { title: "Non-conventional pull request title" }
+    )
+    expect(warning).toHaveBeenCalledWith(
+      "Pull request #3 title 'Update README' is not a conventional commit",
+      {
+        title: "Non-conventional pull request title"
+      }
+    )
+  })
+
+  it("performs the action for each component and outputs the results of each", async () => {
+    mockInputs({ "default-tag": "v0.1.0" })
+    mockMultilineInputs({ components: ["api: packages/api/**", "web"] })
+    const info = vi.spyOn(core, "info").mockImplementation(() => {})
+    vi.spyOn(core, "startGroup").mockImplementation(() => {})
+    vi.spyOn(core, "endGroup").mockImplementation(() => {})
+    const setOutput = vi.spyOn(core, "setOutput").mockImplementation(() => {})
+    const api = { name: "api", paths: ["packages/api/**"] }
+    const web = { name: "web", paths: [] }
+    vi.mocked(coreModule.performComponentActions).mockResolvedValueOnce([
+      {
+        component: api,
+        result: {
+          action: "version",
+          lastRelease: null,
+          lastVersion: parseTagVersion("api-v1.0.0", "api"),
+          version: parseTagVersion("api-v1.1.0", "api"),
+          pullRequestTitles: [],
+          pullRequestImpacts: [],
+          versionIncrement: "minor",
+          inferredIncrement: "minor",
+          versionSource: "inferred"
+        }
+      },
+      { component: web, result: { action: "none", lastDraft: null, lastRelease: null, lastVersion: null } }
+    ])
+
+    await main()
+
+    expect(coreModule.performAction).not.toHaveBeenCalled()
+    expect(coreModule.performComponentActions).toHaveBeenCalledWith(
+      expect.anything(),
+      "v0.1.0",
+      [api, web],
+      expect.objectContaining({ mode: "continuous" })
+    )
+    expect(core.startGroup).toHaveBeenCalledWith("Component: api")
+    expect(core.startGroup).toHaveBeenCalledWith("Component: web")
+    expect(info).toHaveBeenCalledWith("Next Version: 1.1.0 (1.1.0)")
+    expect(setOutput).not.toHaveBeenCalledWith("action", expect.anything())
+    const output = setOutput.mock.calls.find(([name]) => name === "components")?.[1]
+    expect(JSON.parse(output as string)).toEqual([
+      {
+        component: "api",
+        action: "version",
+        lastVersion: "1.0.0",
+        nextVersion: "1.1.0",
+        nextVersionFull: "1.1.0",
+        releaseId: null
+      },
+      {
+        component: "web",
+        action: "none",
+        lastVersion: null,
+        nextVersion: null,
+        nextVersionFull: null,
+        releaseId: null
+      }
+    ])
+  })
+
+  it("outputs the single result when there is a single component", async () => {
+    mockInputs({ "default-tag": "v0.1.0" })
+    mockMultilineInputs({ components: ["api"] })
+    vi.spyOn(core, "info").mockImplementation(() => {})
+    vi.spyOn(core, "startGroup").mockImplementation(() => {})
+    vi.spyOn(core, "endGroup").mockImplementation(() => {})
+    const setOutput = vi.spyOn(core, "setOutput").mockImplementation(() => {})
+    vi.mocked(coreModule.performComponentActions).mockResolvedValueOnce([
+      {
+        component: { name: "api", paths: [] },
+        result: { action: "none", lastDraft: null, lastRelease: null, lastVersion: null }
+      }
+    ])
+
+    await main()
+
+    expect(setOutput).toHaveBeenCalledWith("action", "none")
+    expect(setOutput).toHaveBeenCalledWith("components", expect.any(String))
+  })
+
+  it("calls setFailed when components input is invalid", async () => {
+    mockInputs({ "default-tag": "v0.1.0" })
+    mockMultilineInputs({ components: ["api", "api"] })
+    vi.spyOn(core, "info").mockImplementation(() => {})
+    const setFailed = vi.spyOn(core, "setFailed").mockImplementation(() => {})
+
+    await main()
+
+    expect(setFailed).toHaveBeenCalledWith("Duplicate component: 'api'")
+  })
+
+  it("promotes the prerelease and outputs the final release", async () => {
+    mockInputs({ "default-tag": "v0.1.0", promote: "v2.0.0-rc.3", "promoted-prerelease": "supersede" })
+    vi.spyOn(core, "info").mockImplementation(() => {})
+    const setOutput = vi.spyOn(core, "setOutput").mockImplementation(() => {})
+    vi.mocked(coreModule.promoteRelease).mockResolvedValueOnce(promotedResult())
+
+    await main()
+
+    expect(coreModule.performAction).not.toHaveBeenCalled()
+    expect(coreModule.promoteRelease).toHaveBeenCalledWith(
+      expect.anything(),
+      "v2.0.0-rc.3",
+      expect.objectContaining({ promotedPrerelease: "supersede", component: undefined })
+    )
+    expect(setOutput).toHaveBeenCalledWith("action", "promoted")
+    expect(setOutput).toHaveBeenCalledWith("last-version", "1.0.0")
+    expect(setOutput).toHaveBeenCalledWith("next-version", "2.0.0")
+    expect(setOutput).toHaveBeenCalledWith("release-id", 125)
+  })
+
+  it("reports the request to publish the final release in a dry run", async () => {
+    mockInputs({ "default-tag": "v0.1.0", promote: "v2.0.0-rc.3", "dry-run": "true" })
+    vi.spyOn(core, "getBooleanInput").mockImplementation((name: string) => name === "dry-run")
+    const info = vi.spyOn(core, "info").mockImplementation(() => {})
+    const setOutput = vi.spyOn(core, "setOutput").mockImplementation(() => {})
+    const { release: _, ...promoted } = promotedResult()
+    vi.mocked(coreModule.promoteRelease).mockResolvedValueOnce({
+      ...promoted,
+      action: "would-promote",
+      sha: "abc123",
+      request: { owner: "test-owner", repo: "test-repo", tag_name: "v2.0.0", target_commitish: "main" }
+    })
+
+    await main()
+
+    expect(coreModule.promoteRelease).toHaveBeenCalledWith(
+      expect.anything(),
+      "v2.0.0-rc.3",
+      expect.objectContaining({ dryRun: true })
+    )
+    expect(setOutput).toHaveBeenCalledWith("action", "would-promote")
+    expect(setOutput).not.toHaveBeenCalledWith("release-id", expect.anything())
+    expect(info).toHaveBeenCalledWith("Tag Commit: abc123")
+    expect(info).toHaveBeenCalledWith(expect.stringContaining('+ tag_name: "v2.0.0"'))
+  })
+
+  it("promotes the prerelease of the component of the tag", async () => {
+    mockInputs({ "default-tag": "v0.1.0", promote: "web-v2.0.0-rc.3" })
+    mockMultilineInputs({ components: ["api", "web"] })
+    vi.spyOn(core, "info").mockImplementation(() => {})
+    vi.spyOn(core, "setOutput").mockImplementation(() => {})
+    vi.mocked(coreModule.promoteRelease).mockResolvedValueOnce(promotedResult())
+
+    await main()
+
+    expect(coreModule.promoteRelease).toHaveBeenCalledWith(
+      expect.anything(),
+      "web-v2.0.0-rc.3",
+      expect.objectContaining({ component: { name: "web", paths: [] }, promotedPrerelease: "keep" })
+    )
+  })
+
+  it("calls setFailed when promote is not a component tag", async () => {
+    mockInputs({ "default-tag": "v0.1.0", promote: "v2.0.0-rc.3" })
+    mockMultilineInputs({ components: ["api"] })
+    vi.spyOn(core, "info").mockImplementation(() => {})
+    const setFailed = vi.spyOn(core, "setFailed").mockImplementation(() => {})
+
+    await main()
+
+    expect(coreModule.promoteRelease).not.toHaveBeenCalled()
+    expect(setFailed).toHaveBeenCalledWith(
+      "Invalid promote: v2.0.0-rc.3. Expected the tag of a component prerelease, such as api-v2.0.0-rc.1"
+    )
+  })
+
+  it("calls setFailed when promoted-prerelease is invalid", async () => {
+    mockInputs({ "default-tag": "v0.1.0", promote: "v2.0.0-rc.3", "promoted-prerelease": "archive" })
+    vi.spyOn(core, "info").mockImplementation(() => {})
+    const setFailed = vi.spyOn(core, "setFailed").mockImplementation(() => {})
+
+    await main()
+
+    expect(coreModule.promoteRelease).not.toHaveBeenCalled()
+    expect(setFailed).toHaveBeenCalledWith(
+      "Invalid promoted-prerelease: archive. Expected one of: keep, supersede, delete"
+    )
+  })
+
+  describe("job summary", () => {
+    // The summary file path is cached by the shared summary instance, so is shared across tests
+    const summaryDir = fs.mkdtempSync(path.join(os.tmpdir(), "summary-"))
+    const summaryFile = path.join(summaryDir, "summary.md")
+
+    beforeEach(() => {
+      fs.writeFileSync(summaryFile, "")
+      process.env.GITHUB_STEP_SUMMARY = summaryFile
+      vi.spyOn(core, "info").mockImplementation(() => {})
+      vi.spyOn(core, "setOutput").mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+      delete process.env.GITHUB_STEP_SUMMARY
+    })
+
+    afterAll(() => {
+      fs.rmSync(summaryDir, { recursive: true, force: true })
+    })
+
+    it("writes a report of the release", async () => {
+      mockInputs({ "default-tag": "v0.1.0" })
+
+      await main()
+
+      const report = fs.readFileSync(summaryFile, "utf8")
+      expect(report).toContain("## 📦 Release Party")
+      expect(report).toContain("| Action | created |")
+      expect(report).toContain(
+        "| Last Release | [v1.0.0](https://github.com/test-owner/test-repo/releases/122) |"
+      )
+      expect(report).toContain("| Version Increment | minor |")
+      expect(report).toContain("| Next Version | 1.1.0 (1.1.0) |")
+      expect(report).toContain(
+        "| Release | [v1.1.0 (draft)](https://github.com/test-owner/test-repo/releases/123) |"
+      )
+      expect(report).toContain("| #3 | fix: bug fix | fix |  | patch | type `fix` |")
+    })
+
+    it("writes a report of version inference without a release", async () => {
+      vi.mocked(coreModule.performAction).mockResolvedValue({
+        action: "version",
+        lastRelease: null,
+        lastVersion: null,
+        pullRequestTitles: ["feat: new feature"],
+        pullRequestImpacts: [
+          {
+            number: 7,
+            title: "feat: new feature",
+            type: "feat",
+            scope: null,
+            impact: "minor",
+            reason: "type `feat`"
+          }
+        ],
+        versionIncrement: "minor",
+        inferredIncrement: "minor",
+        versionSource: "inferred",
+        version: parseVersion("v0.1.0").withPrerelease(["branch", "feature"])
+      })
+      mockInputs({ "default-tag": "v0.1.0" })
+
+      await main()
+
+      const report = fs.readFileSync(summaryFile, "utf8")
+      expect(report).toContain("| Action | version |")
+      expect(report).toContain("| Last Release | (none) |")
+      expect(report).toContain("| Next Version | 0.1.0 (0.1.0-branch.feature) |")
+      expect(report).not.toContain("| Release |")
+      expect(report).toContain("| #7 | feat: new feature | feat |  | minor | type `feat` |")
+    })
+
+    it("writes a report of the release request of a dry run", async () => {
+      vi.mocked(coreModule.performAction).mockResolvedValue({
+        action: "would-create",
+        lastDraft: null,
+        lastRelease: null,
+        lastVersion: null,
+        pullRequestTitles: [],
+        pullRequestImpacts: [],
+        versionIncrement: "minor",
+        inferredIncrement: "minor",
+        version: parseVersion("0.1.0"),
+        versionSource: "inferred",
+        request: { owner: "test-owner", repo: "test-repo", tag_name: "v0.1.0" },
+        currentRequest: null
+      })
+      mockInputs({ "default-tag": "v0.1.0" })
+
+      await main()
+
+      const report = fs.readFileSync(summaryFile, "utf8")
+      expect(report).toContain("| Action | would-create |")
+      expect(report).not.toContain("| Release |")
+      expect(report).toContain(
+        '```diff\n+ owner: "test-owner"\n+ repo: "test-repo"\n+ tag_name: "v0.1.0"\n```'
+      )
+    })
+
+    it("warns without failing when the report cannot be written", async () => {
+      vi.spyOn(summary, "write").mockRejectedValueOnce(new Error("EACCES: permission denied"))
+      const warning = vi.spyOn(core, "warning").mockImplementation(() => {})
+      const setFailed = vi.spyOn(core, "setFailed").mockImplementation(() => {})
+      mockInputs({ "default-tag": "v0.1.0" })
+
+      await main()
+
+      expect(warning).toHaveBeenCalledWith("Unable to write the job summary: EACCES: permission denied")
+      expect(setFailed).not.toHaveBeenCalled()
+      expect(core.setOutput).toHaveBeenCalledWith("action", "created")
+    })
+
+    it("writes a report when no action was taken", async () => {
+      vi.mocked(coreModule.performAction).mockResolvedValue({
+        action: "none",
+        lastDraft: null,
+        lastRelease: null,
+        lastVersion: null
+      })
+      mockInputs({ "default-tag": "v0.1.0" })
+
+      await main()
+
+      const report = fs.readFileSync(summaryFile, "utf8")
+      expect(report).toContain("| Action | none |")
+      expect(report).toContain("No outstanding pull requests found")
+      expect(report).not.toContain("Pull Requests")
+    })
+  })
 })
@@ -0,0 +1,160 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http"
+import type { AddressInfo } from "node:net"
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import type { Context } from "@/context"
+import { performAction } from "@/core"
+import { fetchPullRequests } from "@/data/pull-requests"
+import { fetchReleases } from "@/data/releases"
+import { createOctokit } from "@/octokit-factory"
+
+const release = {
+  id: 1,
+  tag_name: "v1.0.0",
+  target_commitish: "main",
+  name: "v1.0.0",
+  body: "Initial release",
+  published_at: "2026-01-01T00:00:00Z",
+  draft: false,
+  prerelease: false,
+  html_url: "https://github.example.com/test-owner/test-repo/releases/tag/v1.0.0"
+}
+
+/**
+ * A stand-in for GitHub Enterprise Server 3.2, serving its REST API under `/api/v3` and its GraphQL API
+ * under `/api/graphql`, without the endpoint to generate release notes.
+ */
+function handleEnterpriseRequest(request: IncomingMessage, response: ServerResponse) {
+  const json = (status: number, body: unknown) => {
+    response.writeHead(status, {
+      "content-type": "application/json",
+      "x-github-enterprise-version": "3.2.0"
+    })
+    response.end(JSON.stringify(body))
+  }
+  const path = request.url?.split("?")[0]
+  if (request.method === "GET" && path === "/api/v3/repos/test-owner/test-repo/releases") {
+    json(200, [
+      {
+        ...release,
+        id: 2,
+        tag_name: "v1.0.1",
+        name: "v1.0.1",
+        body: "Draft release notes",
+        published_at: null,
+        draft: true
+      },
+      release
+    ])
+  } else if (request.method === "PATCH" && path === "/api/v3/repos/test-owner/test-repo/releases/2") {
+    let body = ""
+    request.on("data", (chunk) => {
+      body += chunk
+    })
+    request.on("end", () => json(200, { ...release, ...JSON.parse(body), id: 2, published_at: null }))
+  } else if (request.method === "POST" && (path === "/api/graphql" || path === "/custom/graphql")) {
+    json(200, {
+      data: {
+        repository: {
+          pullRequests: {
+            pageInfo: { hasNextPage: false, endCursor: null },
+            nodes: [
+              {
+                title: "feat: add feature",
+                number: 1,
+                baseRefName: "main",
+                state: "MERGED",
+                mergedAt: "2026-01-02T00:00:00Z",
+                labels: { nodes: [] }
+              }
+            ]
+          },
+          refs: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [] }
+        }
+      }
+    })
+  } else {
+    json(404, { message: "Not Found" })
+  }
+}
+
+describe("createOctokit", () => {
+  let server: Server
+  let serverUrl: string
+  let paths: string[]
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      paths.push(`${request.method} ${request.url?.split("?")[0]}`)
+      handleEnterpriseRequest(request, response)
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    paths = []
+  })
+
+  function createContext(graphqlUrl?: string): Context {
+    return {
+      octokit: createOctokit({
+        auth: "test-token",
+        baseUrl: `${serverUrl}/api/v3/`,
+        graphqlUrl: graphqlUrl,
+        throttle: false
+      }),
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "main",
+      releaseBranches: ["main"],
+      runNumber: null,
+      runAttempt: null,
+      sha: null
+    }
+  }
+
+  it("should use the REST and GraphQL APIs of the base URL", async () => {
+    const context = createContext()
+
+    const release = await fetchReleases(context).findLast("main")
+    const prs = await fetchPullRequests(context, {
+      type: "incoming",
+      baseRefName: "main",
+      mergedSince: null
+    }).collect()
+
+    expect(release?.tagName).toBe("v1.0.0")
+    expect(prs.map((pr) => pr.number)).toEqual([1])
+    expect(paths).toEqual(["GET /api/v3/repos/test-owner/test-repo/releases", "POST /api/graphql"])
+  })
+
+  it("should use the GraphQL URL when specified", async () => {
+    const context = createContext(`${serverUrl}/custom/graphql`)
+
+    await fetchPullRequests(context, { type: "incoming", baseRefName: "main", mergedSince: null }).collect()
+
+    expect(paths).toEqual(["POST /custom/graphql"])
+  })
+
+  it("should keep the release notes of the draft when generating them is not supported", async () => {
+    const context = createContext()
+    const warn = vi.fn()
+    context.warn = warn
+
+    const result = await performAction(context, "v0.1.0")
+
+    expect(result).toMatchObject({
+      action: "updated",
+      release: { name: "v1.1.0", body: "Draft release notes" }
+    })
+    expect(paths).toContain("PATCH /api/v3/repos/test-owner/test-repo/releases/2")
+    expect(paths).toContain("POST /api/v3/repos/test-owner/test-repo/releases/generate-notes")
+    expect(warn).toHaveBeenCalledWith(
+      "Release notes could not be generated for v1.1.0 as not supported by GitHub Enterprise Server 3.2.0"
+    )
+  })
+})
@@ -19,7 +19,8 @@ describe("Octomock", () => {
       branch: "main",
       releaseBranches: ["main"],
       runNumber: "1",
-      runAttempt: "1"
+      runAttempt: "1",
+      sha: null
     }
   })
 
@@ -102,7 +103,8 @@ describe("Octomock", () => {
         body: null,
         publishedAt: null,
         draft: true,
-        prerelease: false
+        prerelease: false,
+        htmlUrl: "https://github.com/test-owner/test-repo/releases/1"
       })
 
       expect(updatedRelease.name).toBe("New Name")
@@ -148,7 +150,8 @@ describe("Octomock", () => {
           body: null,
           publishedAt: null,
           draft: false,
-          prerelease: false
+          prerelease: false,
+          htmlUrl: "https://github.com/test-owner/test-repo/releases/1"
         })
       ).rejects.toThrow("Forbidden")
     })
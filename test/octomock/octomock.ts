@@ -14,6 +14,7 @@ export interface GitHubRelease {
   published_at: string | null
   draft: boolean
   prerelease: boolean
+  html_url: string
 }
 
 /**
@@ -29,6 +30,25 @@ export interface GitHubPullRequest {
   mergeCommit: {
     oid: string
   }
+  labels: {
+    nodes: { name: string }[]
+  }
+  files: {
+    nodes: { path: string }[]
+  }
+}
+
+/**
+ * Git tag structure matching GitHub GraphQL API `Ref`, where annotated tags target a tag object
+ */
+export interface GitHubTag {
+  name: string
+  target: {
+    oid: string
+    target?: {
+      oid: string
+    }
+  }
 }
 
 /**
@@ -49,16 +69,88 @@ interface GraphQLPullRequestsParams {
   headRefName?: string | null
   state: string
   perPage?: number
+  maxLabels?: number
+  withFiles?: boolean
+  maxFiles?: number
   cursor?: string | null
 }
 
+/**
+ * Parameters expected for the GraphQL pull request files query handled by Octomock
+ */
+interface GraphQLPullRequestFilesParams {
+  owner: string
+  repo: string
+  number: number
+  maxFiles: number
+  cursor?: string | null
+}
+
+/**
+ * Page of the files of a pull request, as returned by Octomock from `GitHubPullRequest.files`
+ */
+interface GraphQLFilesPage {
+  pageInfo: {
+    hasNextPage: boolean
+    endCursor: string | null
+  }
+  nodes: { path: string }[]
+}
+
+/**
+ * Shape of the GraphQL response returned by Octomock for the files of a pull request
+ */
+interface GraphQLPullRequestFilesResponse {
+  repository: {
+    pullRequest: { files: GraphQLFilesPage } | null
+  }
+}
+
+/**
+ * Parameters expected for the GraphQL tag refs query handled by Octomock
+ */
+interface GraphQLTagsParams {
+  owner: string
+  repo: string
+  maxTags: number
+}
+
+/**
+ * Parameters expected for the GraphQL single tag ref query handled by Octomock
+ */
+interface GraphQLTagParams {
+  owner: string
+  repo: string
+  qualifiedName: string
+}
+
+/**
+ * Shape of the GraphQL response returned by Octomock for a single tag ref
+ */
+interface GraphQLTagResponse {
+  repository: {
+    ref: GitHubTag | null
+  }
+}
+
+/**
+ * Shape of the GraphQL response returned by Octomock for tag refs
+ */
+interface GraphQLTagsResponse {
+  repository: {
+    refs: {
+      nodes: GitHubTag[]
+    }
+  }
+}
+
 /**
  * Shape of the simplified GraphQL response returned by Octomock for pullRequests
  */
 interface GraphQLPullRequestsResponse {
   repository: {
     pullRequests: {
-      nodes: GitHubPullRequest[]
+      nodes: (Omit<GitHubPullRequest, "files"> & { files?: GraphQLFilesPage })[]
       pageInfo: {
         hasNextPage: boolean
         endCursor: string | null
@@ -84,6 +176,7 @@ interface ReleasesPage {
 export class Octomock {
   private releases: GitHubRelease[] = []
   private pullRequests: GitHubPullRequest[] = []
+  private tags: GitHubTag[] = []
   private nextReleaseId = 1
   private nextPullRequestNumber = 1
 
@@ -100,18 +193,30 @@ export class Octomock {
   readonly createRelease: ReturnType<typeof vi.fn>
   readonly updateRelease: ReturnType<typeof vi.fn>
   readonly generateReleaseNotes: ReturnType<typeof vi.fn>
+  readonly deleteRelease: ReturnType<typeof vi.fn>
+  readonly createRef: ReturnType<typeof vi.fn>
+  readonly deleteRef: ReturnType<typeof vi.fn>
 
   constructor() {
     this.octokit = new Octokit({ auth: "test-token" })
 
     // Setup GraphQL mock
     this.graphQL = vi.fn()
-    this.graphQL.mockImplementation((query: string, params: GraphQLPullRequestsParams) => {
-      if (this.graphQlError) {
-        return Promise.reject(this.createError(this.graphQlError))
+    this.graphQL.mockImplementation(
+      (
+        query: string,
+        params:
+          | GraphQLPullRequestsParams
+          | GraphQLPullRequestFilesParams
+          | GraphQLTagsParams
+          | GraphQLTagParams
+      ) => {
+        if (this.graphQlError) {
+          return Promise.reject(this.createError(this.graphQlError))
+        }
+        return this.handleGraphQLQuery(query, params)
       }
-      return this.handleGraphQLQuery(query, params)
-    })
+    )
     this.octokit.graphql = this.graphQL
 
     // Setup REST API mocks
@@ -119,6 +224,9 @@ export class Octomock {
     this.createRelease = vi.fn()
     this.updateRelease = vi.fn()
     this.generateReleaseNotes = vi.fn()
+    this.deleteRelease = vi.fn()
+    this.createRef = vi.fn()
+    this.deleteRef = vi.fn()
 
     // Mock paginate.iterator for releases
     type ListReleasesParams = RestEndpointMethodTypes["repos"]["listReleases"]["parameters"]
@@ -159,7 +267,8 @@ export class Octomock {
         body: params.body ?? null,
         published_at: shouldPublish ? new Date().toISOString() : null,
         draft: params.draft ?? false,
-        prerelease: params.prerelease ?? false
+        prerelease: params.prerelease ?? false,
+        html_url: `https://github.com/${params.owner}/${params.repo}/releases/${releaseId}`
       }
 
       this.releases.push(newRelease)
@@ -264,10 +373,54 @@ export class Octomock {
       })
     })
 
+    // Mock deleteRelease
+    type DeleteReleaseParams = RestEndpointMethodTypes["repos"]["deleteRelease"]["parameters"]
+    this.deleteRelease.mockImplementation((params: DeleteReleaseParams) => {
+      const releaseIndex = this.releases.findIndex((r) => r.id === params.release_id)
+      if (releaseIndex === -1) {
+        return Promise.reject(
+          this.createError({ message: `Release with id ${params.release_id} not found`, status: 404 })
+        )
+      }
+      this.releases.splice(releaseIndex, 1)
+      return Promise.resolve({ data: undefined, status: 204, headers: {} })
+    })
+
+    // Mock createRef, only supporting tags
+    type CreateRefParams = RestEndpointMethodTypes["git"]["createRef"]["parameters"]
+    this.createRef.mockImplementation((params: CreateRefParams) => {
+      const name = params.ref.replace(/^refs\/tags\//, "")
+      if (this.tags.some((tag) => tag.name === name)) {
+        return Promise.reject(this.createError({ message: "Reference already exists", status: 422 }))
+      }
+      this.tags.unshift({ name: name, target: { oid: params.sha } })
+      return Promise.resolve({
+        data: { ref: params.ref, object: { sha: params.sha, type: "commit" } },
+        status: 201,
+        headers: {}
+      })
+    })
+
+    // Mock deleteRef, only supporting tags
+    type DeleteRefParams = RestEndpointMethodTypes["git"]["deleteRef"]["parameters"]
+    this.deleteRef.mockImplementation((params: DeleteRefParams) => {
+      const name = params.ref.replace(/^tags\//, "")
+      const tagIndex = this.tags.findIndex((tag) => tag.name === name)
+      if (tagIndex === -1) {
+        return Promise.reject(this.createError({ message: "Reference does not exist", status: 422 }))
+      }
+      this.tags.splice(tagIndex, 1)
+      return Promise.resolve({ data: undefined, status: 204, headers: {} })
+    })
+
     // Wire up the mocked methods
     this.octokit.rest.repos.createRelease = mockCreateReleaseFunction
     this.octokit.rest.repos.updateRelease = mockUpdateReleaseFunction
     this.octokit.rest.repos.generateReleaseNotes = mockGenerateReleaseNotesFunction
+    this.octokit.rest.repos.deleteRelease = this
+      .deleteRelease as unknown as typeof this.octokit.rest.repos.deleteRelease
+    this.octokit.rest.git.createRef = this.createRef as unknown as typeof this.octokit.rest.git.createRef
+    this.octokit.rest.git.deleteRef = this.deleteRef as unknown as typeof this.octokit.rest.git.deleteRef
   }
 
   /**
@@ -285,6 +438,7 @@ export class Octomock {
       published_at: shouldPublish ? new Date().toISOString() : null,
       draft: false,
       prerelease: false,
+      html_url: `https://github.com/test-owner/test-repo/releases/${releaseId}`,
       ...overrides
     }
     this.releases.push(release)
@@ -320,6 +474,12 @@ export class Octomock {
       mergeCommit: {
         oid: `commit_${this.nextPullRequestNumber - 1}`
       },
+      labels: {
+        nodes: []
+      },
+      files: {
+        nodes: []
+      },
       ...overrides
     }
 
@@ -341,6 +501,18 @@ export class Octomock {
     return prs
   }
 
+  /**
+   * Add a tag to the internal state, most recent first, pointing at the given commit
+   * @param annotated Whether the tag is an annotated tag, which targets a tag object rather than the commit
+   */
+  stageTag(name: string, commitOid: string, annotated = false): GitHubTag {
+    const tag: GitHubTag = annotated
+      ? { name: name, target: { oid: `tag_${name}`, target: { oid: commitOid } } }
+      : { name: name, target: { oid: commitOid } }
+    this.tags.push(tag)
+    return tag
+  }
+
   /**
    * Inject an error for the next listReleases call
    */
@@ -458,11 +630,28 @@ export class Octomock {
 
   private handleGraphQLQuery(
     query: string,
-    params: GraphQLPullRequestsParams
-  ): Promise<GraphQLPullRequestsResponse> {
+    params: GraphQLPullRequestsParams | GraphQLPullRequestFilesParams | GraphQLTagsParams | GraphQLTagParams
+  ): Promise<
+    GraphQLPullRequestsResponse | GraphQLPullRequestFilesResponse | GraphQLTagsResponse | GraphQLTagResponse
+  > {
+    // Handle the later pages of the files of a pull request
+    if (query.includes("pullRequest(number")) {
+      return this.handlePullRequestFilesQuery(params as GraphQLPullRequestFilesParams)
+    }
+
     // Handle pull requests query
     if (query.includes("pullRequests")) {
-      return this.handlePullRequestsQuery(params)
+      return this.handlePullRequestsQuery(params as GraphQLPullRequestsParams)
+    }
+
+    // Handle single tag ref query
+    if (query.includes("ref(qualifiedName")) {
+      return this.handleTagQuery(params as GraphQLTagParams)
+    }
+
+    // Handle tag refs query
+    if (query.includes("refs/tags/")) {
+      return this.handleTagsQuery(params as GraphQLTagsParams)
     }
 
     return Promise.reject(new Error(`Unsupported GraphQL query: ${query}`))
@@ -501,7 +690,11 @@ export class Octomock {
     return Promise.resolve({
       repository: {
         pullRequests: {
-          nodes: pageData,
+          // Files are only included when requested, as with the `@include` directive
+          nodes: pageData.map((pr) => ({
+            ...pr,
+            files: params.withFiles ? filesPage(pr, params.maxFiles ?? 100, null) : undefined
+          })),
           pageInfo: {
             hasNextPage: hasNextPage,
             endCursor: endCursor
@@ -511,6 +704,36 @@ export class Octomock {
     })
   }
 
+  private handlePullRequestFilesQuery(
+    params: GraphQLPullRequestFilesParams
+  ): Promise<GraphQLPullRequestFilesResponse> {
+    const pr = this.pullRequests.find((pr) => pr.number === params.number)
+    return Promise.resolve({
+      repository: {
+        pullRequest: pr ? { files: filesPage(pr, params.maxFiles, params.cursor ?? null) } : null
+      }
+    })
+  }
+
+  private handleTagsQuery(params: GraphQLTagsParams): Promise<GraphQLTagsResponse> {
+    return Promise.resolve({
+      repository: {
+        refs: {
+          nodes: this.tags.slice(0, params.maxTags)
+        }
+      }
+    })
+  }
+
+  private handleTagQuery(params: GraphQLTagParams): Promise<GraphQLTagResponse> {
+    const name = params.qualifiedName.replace(/^refs\/tags\//, "")
+    return Promise.resolve({
+      repository: {
+        ref: this.tags.find((tag) => tag.name === name) ?? null
+      }
+    })
+  }
+
   private createError(config: ErrorConfig): Error & { status?: number } {
     const error = new Error(config.message) as Error & { status?: number }
     if (config.status !== undefined) {
@@ -519,3 +742,16 @@ export class Octomock {
     return error
   }
 }
+
+/**
+ * The page of the files of the PR after the cursor, which is the index of the next file.
+ */
+function filesPage(pr: GitHubPullRequest, maxFiles: number, cursor: string | null): GraphQLFilesPage {
+  const start = cursor ? Number(cursor) : 0
+  const end = start + maxFiles
+  const hasNextPage = end < pr.files.nodes.length
+  return {
+    pageInfo: { hasNextPage: hasNextPage, endCursor: hasNextPage ? `${end}` : null },
+    nodes: pr.files.nodes.slice(start, end)
+  }
+}
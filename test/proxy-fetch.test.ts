@@ -0,0 +1,212 @@
+import { createServer as createHttpServer, type IncomingMessage, type Server } from "node:http"
+import { type AddressInfo, createServer as createNetServer, type Server as NetServer } from "node:net"
+import { createProxy, type ProxyServer } from "proxy"
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest"
+import { createOctokit } from "@/octokit-factory"
+import { createProxyFetch, findProxy, type ProxyConfig } from "@/proxy-fetch"
+
+function listen(server: Server | NetServer): Promise<string> {
+  return new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve(`127.0.0.1:${(server.address() as AddressInfo).port}`))
+  )
+}
+
+function close(server: Server | NetServer): Promise<unknown> {
+  return new Promise((resolve) => server.close(resolve))
+}
+
+describe("findProxy", () => {
+  it("should use the proxy URL over HTTPS_PROXY", () => {
+    const proxy = findProxy("http://proxy.example.com:3128", { HTTPS_PROXY: "http://other.example.com:8080" })
+
+    expect(proxy?.url.href).toBe("http://proxy.example.com:3128/")
+  })
+
+  it.each([
+    [{ HTTPS_PROXY: "http://proxy.example.com:3128" }, "http://proxy.example.com:3128/"],
+    [{ https_proxy: "http://proxy.example.com:3128" }, "http://proxy.example.com:3128/"],
+    [{ HTTPS_PROXY: "proxy.example.com:3128" }, "http://proxy.example.com:3128/"]
+  ])("should use the proxy of %j", (env, url) => {
+    expect(findProxy(undefined, env)?.url.href).toBe(url)
+  })
+
+  it("should exclude the hosts of NO_PROXY", () => {
+    const proxy = findProxy("http://proxy.example.com:3128", {
+      NO_PROXY: "localhost, .Example.com,10.0.0.1:8080"
+    })
+
+    expect(proxy?.noProxy).toEqual(["localhost", ".example.com", "10.0.0.1:8080"])
+  })
+
+  it("should be null without a proxy", () => {
+    expect(findProxy(undefined, { NO_PROXY: "localhost" })).toBeNull()
+  })
+
+  it("should fail for a proxy other than HTTP", () => {
+    expect(() => findProxy("socks5://proxy.example.com:1080", {})).toThrow(
+      "Unsupported proxy URL: socks5://proxy.example.com:1080. Expected an http:// URL"
+    )
+  })
+})
+
+describe("createProxyFetch", () => {
+  let proxyServer: ProxyServer
+  let proxyAddress: string
+  let server: Server
+  let serverAddress: string
+  let tlsServer: NetServer
+  let tlsServerAddress: string
+  let proxied: string[]
+  let received: { method?: string; url?: string; body: string }[]
+  let handshakes: number[]
+
+  beforeAll(async () => {
+    proxyServer = createProxy(createHttpServer())
+    proxyServer.on("request", (request: IncomingMessage) => proxied.push(`${request.method} ${request.url}`))
+    proxyServer.on("connect", (request: IncomingMessage) => proxied.push(`${request.method} ${request.url}`))
+    proxyAddress = await listen(proxyServer)
+
+    server = createHttpServer((request, response) => {
+      let body = ""
+      request.on("data", (chunk) => {
+        body += chunk
+      })
+      request.on("end", () => {
+        received.push({ method: request.method, url: request.url, body: body })
+        response.writeHead(request.method === "DELETE" ? 204 : 200, {
+          "content-type": "application/json",
+          "set-cookie": ["a=1", "b=2"]
+        })
+        response.end(request.method === "DELETE" ? undefined : JSON.stringify({ ok: true }))
+      })
+    })
+    serverAddress = await listen(server)
+
+    // Stands in for an HTTPS server, recording the first byte of the TLS handshake before closing
+    tlsServer = createNetServer((socket) => {
+      socket.once("data", (data: Buffer) => {
+        handshakes.push(data[0])
+        socket.destroy()
+      })
+    })
+    tlsServerAddress = await listen(tlsServer)
+  })
+
+  afterAll(async () => {
+    await Promise.all([close(proxyServer), close(server), close(tlsServer)])
+  })
+
+  beforeEach(() => {
+    proxied = []
+    received = []
+    handshakes = []
+    proxyServer.authenticate = undefined
+  })
+
+  function proxy(noProxy: string[] = [], credentials: string = ""): ProxyConfig {
+    return { url: new URL(`http://${credentials}${proxyAddress}`), noProxy: noProxy }
+  }
+
+  it("should forward HTTP requests through the proxy", async () => {
+    const fetch = createProxyFetch(proxy())
+
+    const response = await fetch(`http://${serverAddress}/repos?page=2`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ name: "v1.0.0" })
+    })
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get("content-type")).toBe("application/json")
+    expect(response.headers.get("set-cookie")).toBe("a=1, b=2")
+    expect(await response.json()).toEqual({ ok: true })
+    expect(proxied).toEqual([`POST http://${serverAddress}/repos?page=2`])
+    expect(received).toEqual([{ method: "POST", url: "/repos?page=2", body: '{"name":"v1.0.0"}' }])
+  })
+
+  it("should forward responses without a body", async () => {
+    const fetch = createProxyFetch(proxy())
+
+    const response = await fetch(`http://${serverAddress}/releases/1`, { method: "DELETE" })
+
+    expect(response.status).toBe(204)
+    expect(await response.text()).toBe("")
+  })
+
+  it("should tunnel HTTPS requests through the proxy", async () => {
+    const fetch = createProxyFetch(proxy())
+
+    await expect(fetch(`https://${tlsServerAddress}/repos`)).rejects.toThrow()
+
+    expect(proxied).toEqual([`CONNECT ${tlsServerAddress}`])
+    // A TLS handshake record
+    expect(handshakes).toEqual([0x16])
+  })
+
+  it.each([["127.0.0.1"], ["*"]])("should bypass the proxy for NO_PROXY %j", async (noProxy) => {
+    const fetch = createProxyFetch(proxy([noProxy]))
+
+    const response = await fetch(`http://${serverAddress}/repos`)
+
+    expect(response.status).toBe(200)
+    expect(proxied).toEqual([])
+    expect(received).toHaveLength(1)
+  })
+
+  it("should bypass the proxy only for the port of NO_PROXY", async () => {
+    const port = serverAddress.split(":")[1]
+
+    await createProxyFetch(proxy([`127.0.0.1:${port}`]))(`http://${serverAddress}/repos`)
+    await createProxyFetch(proxy([`127.0.0.1:${Number(port) + 1}`]))(`http://${serverAddress}/repos`)
+
+    expect(proxied).toEqual([`GET http://${serverAddress}/repos`])
+    expect(received).toHaveLength(2)
+  })
+
+  it("should authenticate with the proxy", async () => {
+    proxyServer.authenticate = (request) =>
+      request.headers["proxy-authorization"] === `Basic ${Buffer.from("user:p@ss").toString("base64")}`
+
+    const response = await createProxyFetch(proxy([], "user:p%40ss@"))(`http://${serverAddress}/repos`)
+
+    expect(response.status).toBe(200)
+    await expect(
+      createProxyFetch(proxy([], "user:wrong@"))(`http://${serverAddress}/repos`)
+    ).rejects.toMatchObject({ cause: { message: "Proxy Authentication Required (407)" } })
+    await expect(
+      createProxyFetch(proxy([], "user:wrong@"))(`https://${tlsServerAddress}/repos`)
+    ).rejects.toThrow("fetch failed")
+    expect(handshakes).toEqual([])
+  })
+
+  it("should abort requests to a proxy not responding", async () => {
+    const silentProxy = createNetServer(() => {})
+    const silentProxyAddress = await listen(silentProxy)
+    const fetch = createProxyFetch({ url: new URL(`http://${silentProxyAddress}`), noProxy: [] })
+
+    try {
+      await expect(
+        fetch(`https://${tlsServerAddress}/repos`, { signal: AbortSignal.timeout(50) })
+      ).rejects.toThrow("The operation was aborted due to timeout")
+    } finally {
+      silentProxy.close()
+    }
+  })
+
+  it("should be used by Octokit for the proxy URL", async () => {
+    const octokit = createOctokit({
+      auth: "test-token",
+      baseUrl: `http://${serverAddress}`,
+      proxyUrl: `http://${proxyAddress}`,
+      throttle: false
+    })
+
+    const response = await octokit.request("GET /repos/{owner}/{repo}", {
+      owner: "test-owner",
+      repo: "test-repo"
+    })
+
+    expect(response.data).toEqual({ ok: true })
+    expect(proxied).toEqual([`GET http://${serverAddress}/repos/test-owner/test-repo`])
+  })
+})
@@ -0,0 +1,227 @@
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { createOctokit } from "@/octokit-factory"
+import { findRateLimits, formatRateLimit, isRepeatable, type RetryPolicy, retryDelay } from "@/rate-limit"
+
+const policy: RetryPolicy = { retries: 3, baseDelay: 1000, maxWait: 60 * 1000 }
+
+describe("retryDelay", () => {
+  const now = Date.parse("2026-01-31T12:00:00Z")
+
+  function failure(status: number, headers: Record<string, string> = {}, message: string = "Failed") {
+    return Object.assign(new Error(message), { status: status, response: { headers: headers } })
+  }
+
+  it.each([
+    ["a 429 with retry-after", failure(429, { "retry-after": "30" }), 0, 30_000],
+    ["a 403 with retry-after", failure(403, { "retry-after": "60" }), 0, 60_000],
+    [
+      "a 403 with the quota used up",
+      failure(403, { "x-ratelimit-remaining": "0", "x-ratelimit-reset": String(now / 1000 + 90) }),
+      0,
+      90_000
+    ],
+    [
+      "a 403 with the quota reset already",
+      failure(403, { "x-ratelimit-remaining": "0", "x-ratelimit-reset": String(now / 1000 - 10) }),
+      0,
+      0
+    ],
+    ["a secondary rate limit", failure(403, {}, "You have exceeded a secondary rate limit"), 2, 4000],
+    ["a 429 without headers", failure(429), 1, 2000],
+    ["a 502", failure(502), 0, 1000],
+    ["a 502 retried before", failure(502), 3, 8000],
+    ["a 503 with retry-after", failure(503, { "retry-after": "5" }), 0, 5000],
+    ["a 403 for permissions", failure(403, { "x-ratelimit-remaining": "4999" }), 0, null],
+    ["a 404", failure(404), 0, null],
+    ["an error without a status", new Error("Failed"), 0, null]
+  ])("should be for %s", (_, error, retryCount, delay) => {
+    expect(retryDelay(error, retryCount, policy, now)).toBe(delay)
+  })
+})
+
+describe("isRepeatable", () => {
+  it.each([
+    ["GET", "/repos/{owner}/{repo}/releases", {}, true],
+    ["POST", "/graphql", { query: "query PullRequests { rateLimit { cost } }" }, true],
+    ["POST", "/api/graphql", { query: "{ rateLimit { cost } }" }, true],
+    ["POST", "/repos/{owner}/{repo}/releases/generate-notes", {}, true],
+    ["POST", "/graphql", { query: "\nmutation CreateRef { clientMutationId }" }, false],
+    ["POST", "/repos/{owner}/{repo}/releases", {}, false],
+    ["PATCH", "/repos/{owner}/{repo}/releases/{release_id}", {}, false],
+    ["DELETE", "/repos/{owner}/{repo}/git/refs/{ref}", {}, false]
+  ] as const)("should be for %s %s %j: %s", (method, url, params, repeatable) => {
+    expect(isRepeatable({ method: method, url: url, headers: {}, ...params })).toBe(repeatable)
+  })
+})
+
+describe("retryRequests", () => {
+  let server: Server
+  let serverUrl: string
+  let responses: { status: number; headers?: Record<string, string> }[]
+  let requests: number
+
+  beforeAll(async () => {
+    server = createServer((_request, response) => {
+      requests++
+      const { status, headers } = responses.shift() ?? { status: 200 }
+      response.writeHead(status, { "content-type": "application/json", ...headers })
+      response.end(JSON.stringify(status === 200 ? { ok: true } : { message: `Failed with ${status}` }))
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    responses = []
+    requests = 0
+  })
+
+  function createTestOctokit(throttle: boolean = false) {
+    const octokit = createOctokit({
+      auth: "test-token",
+      baseUrl: serverUrl,
+      throttle: throttle,
+      retry: { retries: 3, baseDelay: 1, maxWait: 1000 }
+    })
+    const warn = vi.spyOn(octokit.log, "warn").mockImplementation(() => {})
+    return { octokit: octokit, warn: warn }
+  }
+
+  it("should retry server errors until successful", async () => {
+    responses = [{ status: 502 }, { status: 503 }]
+    const { octokit, warn } = createTestOctokit()
+
+    const response = await octokit.request("GET /repos/{owner}/{repo}", { owner: "o", repo: "r" })
+
+    expect(response.data).toEqual({ ok: true })
+    expect(requests).toBe(3)
+    expect(warn).toHaveBeenCalledWith("Retrying GET /repos/{owner}/{repo} after 502 in 1s")
+    expect(warn).toHaveBeenCalledWith("Retrying GET /repos/{owner}/{repo} after 503 in 1s")
+  })
+
+  it("should not retry requests changing data after server errors", async () => {
+    responses = [{ status: 502 }]
+    const { octokit } = createTestOctokit()
+
+    await expect(
+      octokit.request("POST /repos/{owner}/{repo}/releases", { owner: "o", repo: "r", tag_name: "v1.0.0" })
+    ).rejects.toMatchObject({ status: 502 })
+    expect(requests).toBe(1)
+  })
+
+  it("should retry GraphQL queries after server errors", async () => {
+    responses = [{ status: 502 }]
+    const { octokit } = createTestOctokit()
+
+    await octokit.request("POST /graphql", { query: "{ rateLimit { cost } }" })
+
+    expect(requests).toBe(2)
+  })
+
+  it("should retry requests changing data after rate limits", async () => {
+    responses = [{ status: 429, headers: { "retry-after": "0" } }]
+    const { octokit } = createTestOctokit()
+
+    await octokit.request("POST /repos/{owner}/{repo}/releases", {
+      owner: "o",
+      repo: "r",
+      tag_name: "v1.0.0"
+    })
+
+    expect(requests).toBe(2)
+  })
+
+  it("should retry rate limits after the retry-after seconds", async () => {
+    responses = [{ status: 429, headers: { "retry-after": "0" } }]
+    const { octokit } = createTestOctokit()
+
+    const response = await octokit.request("GET /repos/{owner}/{repo}", { owner: "o", repo: "r" })
+
+    expect(response.data).toEqual({ ok: true })
+    expect(requests).toBe(2)
+  })
+
+  it("should retry secondary rate limits detected when throttled", async () => {
+    responses = [{ status: 403, headers: { "retry-after": "0" } }]
+    const { octokit, warn } = createTestOctokit(true)
+
+    const response = await octokit.request("GET /repos/{owner}/{repo}", { owner: "o", repo: "r" })
+
+    expect(response.data).toEqual({ ok: true })
+    expect(requests).toBe(2)
+    expect(warn).toHaveBeenCalledWith("Retrying GET /repos/{owner}/{repo} after 403 in 0s")
+  })
+
+  it("should fail after the retries", async () => {
+    responses = [{ status: 500 }, { status: 500 }, { status: 500 }, { status: 500 }]
+    const { octokit } = createTestOctokit()
+
+    await expect(
+      octokit.request("GET /repos/{owner}/{repo}", { owner: "o", repo: "r" })
+    ).rejects.toMatchObject({
+      status: 500
+    })
+    expect(requests).toBe(4)
+  })
+
+  it("should fail without waiting longer than the limit", async () => {
+    responses = [{ status: 403, headers: { "retry-after": "60" } }]
+    const { octokit, warn } = createTestOctokit()
+
+    await expect(
+      octokit.request("GET /repos/{owner}/{repo}", { owner: "o", repo: "r" })
+    ).rejects.toMatchObject({
+      status: 403
+    })
+    expect(requests).toBe(1)
+    expect(warn).toHaveBeenCalledWith(
+      "Not retrying GET /repos/{owner}/{repo} after 403, as waiting 60s would exceed the limit of 1s"
+    )
+  })
+
+  it("should not retry other failures", async () => {
+    responses = [{ status: 404 }]
+    const { octokit } = createTestOctokit()
+
+    await expect(
+      octokit.request("GET /repos/{owner}/{repo}", { owner: "o", repo: "r" })
+    ).rejects.toMatchObject({
+      status: 404
+    })
+    expect(requests).toBe(1)
+  })
+
+  it("should track the rate limits of the responses", async () => {
+    const rateLimit = (resource: string, remaining: number) => ({
+      "x-ratelimit-resource": resource,
+      "x-ratelimit-limit": "5000",
+      "x-ratelimit-remaining": String(remaining),
+      "x-ratelimit-reset": String(Date.parse("2026-01-31T12:00:00Z") / 1000)
+    })
+    responses = [
+      { status: 200, headers: rateLimit("graphql", 4990) },
+      { status: 200, headers: rateLimit("core", 4999) },
+      { status: 404, headers: rateLimit("core", 4998) }
+    ]
+    const { octokit } = createTestOctokit()
+
+    await octokit.graphql("query { viewer { login } }")
+    await octokit.request("GET /repos/{owner}/{repo}", { owner: "o", repo: "r" })
+    await expect(octokit.request("GET /repos/{owner}/{repo}", { owner: "o", repo: "r" })).rejects.toThrow()
+
+    expect(findRateLimits(octokit).map(formatRateLimit)).toEqual([
+      "core 4998/5000 remaining, resets at 2026-01-31T12:00:00.000Z",
+      "graphql 4990/5000 remaining, resets at 2026-01-31T12:00:00.000Z"
+    ])
+  })
+
+  it("should have no rate limits for other Octokit instances", () => {
+    expect(findRateLimits({})).toEqual([])
+  })
+})
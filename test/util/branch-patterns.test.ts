@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest"
+import { findMatchingPattern, globToRegExp, matchesPatterns } from "@/util/branch-patterns"
+
+describe("globToRegExp", () => {
+  it("should match literal branch names exactly", () => {
+    expect(globToRegExp("main").test("main")).toBe(true)
+    expect(globToRegExp("main").test("main2")).toBe(false)
+    expect(globToRegExp("main").test("my-main")).toBe(false)
+  })
+
+  it("should match single path segments with *", () => {
+    expect(globToRegExp("release/*").test("release/1.x")).toBe(true)
+    expect(globToRegExp("release/*").test("release/")).toBe(true)
+    expect(globToRegExp("release/*").test("release/1.x/hotfix")).toBe(false)
+  })
+
+  it("should match multiple path segments with **", () => {
+    expect(globToRegExp("hotfix/**").test("hotfix/a")).toBe(true)
+    expect(globToRegExp("hotfix/**").test("hotfix/a/b/c")).toBe(true)
+    expect(globToRegExp("hotfix/**").test("other/a")).toBe(false)
+  })
+
+  it("should match a single character with ?", () => {
+    expect(globToRegExp("v?").test("v1")).toBe(true)
+    expect(globToRegExp("v?").test("v10")).toBe(false)
+    expect(globToRegExp("v?").test("v/")).toBe(false)
+  })
+
+  it("should treat regular expression characters literally", () => {
+    expect(globToRegExp("release-1.0").test("release-1.0")).toBe(true)
+    expect(globToRegExp("release-1.0").test("release-1x0")).toBe(false)
+    expect(globToRegExp("fix+(x)").test("fix+(x)")).toBe(true)
+  })
+})
+
+describe("findMatchingPattern", () => {
+  it("should return null when there are no patterns", () => {
+    expect(findMatchingPattern("main", [])).toBeNull()
+  })
+
+  it("should return null when no pattern matches", () => {
+    expect(findMatchingPattern("feature/x", ["main", "release/*"])).toBeNull()
+  })
+
+  it("should return the matching pattern", () => {
+    expect(findMatchingPattern("release/2.x", ["main", "release/*"])).toBe("release/*")
+  })
+
+  it("should return the last matching pattern", () => {
+    expect(findMatchingPattern("release/2.x", ["release/**", "release/*"])).toBe("release/*")
+  })
+
+  it("should return a negated pattern when it excludes the branch", () => {
+    expect(findMatchingPattern("release/legacy", ["release/*", "!release/legacy"])).toBe("!release/legacy")
+  })
+
+  it("should return a positive pattern that re-includes a negated branch", () => {
+    expect(findMatchingPattern("release/legacy", ["release/*", "!release/*", "release/legacy"])).toBe(
+      "release/legacy"
+    )
+  })
+})
+
+describe("matchesPatterns", () => {
+  it("should include literal and glob matches", () => {
+    expect(matchesPatterns("main", ["main", "release/*"])).toBe(true)
+    expect(matchesPatterns("release/1.x", ["main", "release/*"])).toBe(true)
+  })
+
+  it("should not include branches that match nothing", () => {
+    expect(matchesPatterns("develop", ["main", "release/*"])).toBe(false)
+  })
+
+  it("should exclude branches matching a later negated pattern", () => {
+    expect(matchesPatterns("release/legacy", ["release/*", "!release/legacy"])).toBe(false)
+    expect(matchesPatterns("release/2.x", ["release/*", "!release/legacy"])).toBe(true)
+  })
+
+  it("should not include branches when only negated patterns are given", () => {
+    expect(matchesPatterns("main", ["!release/legacy"])).toBe(false)
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest"
+import { formatPayloadDiff } from "@/util/payload-diff"
+
+describe("formatPayloadDiff", () => {
+  it("should add all fields without a current payload", () => {
+    const diff = formatPayloadDiff(null, { tag_name: "v1.0.0", draft: true })
+
+    expect(diff).toBe(['+ tag_name: "v1.0.0"', "+ draft: true"].join("\n"))
+  })
+
+  it("should show changed fields as removed and added", () => {
+    const diff = formatPayloadDiff(
+      { release_id: 1, name: "v1.0.0", draft: true },
+      { release_id: 1, name: "v1.1.0", draft: true }
+    )
+
+    expect(diff).toBe(["  release_id: 1", '- name: "v1.0.0"', '+ name: "v1.1.0"', "  draft: true"].join("\n"))
+  })
+
+  it("should show changes within multi-line strings by line", () => {
+    const diff = formatPayloadDiff({ body: "## Changes\n* PR 1" }, { body: "## Changes\n* PR 1\n* PR 2" })
+
+    expect(diff).toBe(["  body: |", "    ## Changes", "    * PR 1", "+   * PR 2"].join("\n"))
+  })
+
+  it("should omit undefined fields", () => {
+    const diff = formatPayloadDiff({ name: "v1.0.0", body: undefined }, { name: "v1.0.0", body: "Notes" })
+
+    expect(diff).toBe(['  name: "v1.0.0"', '+ body: "Notes"'].join("\n"))
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest"
+import type { PullRequest } from "@/data/pull-requests"
+import { isComponentPullRequest, parseComponents } from "@/versioning/component"
+
+function createPR(title: string, files: string[] = []): PullRequest {
+  return {
+    title: title,
+    number: 1,
+    baseRefName: "main",
+    state: "MERGED",
+    mergedAt: new Date("2026-01-01T00:00:00Z"),
+    labels: [],
+    files: files
+  }
+}
+
+describe("parseComponents", () => {
+  it("should parse components with and without paths", () => {
+    expect(parseComponents(["api: packages/api/**, shared/api/**", "web"])).toEqual([
+      { name: "api", paths: ["packages/api/**", "shared/api/**"] },
+      { name: "web", paths: [] }
+    ])
+  })
+
+  it("should return no components for no lines", () => {
+    expect(parseComponents([])).toEqual([])
+  })
+
+  it("should reject an invalid component name", () => {
+    expect(() => parseComponents(["my api: packages/api/**"])).toThrow(
+      "Invalid component: 'my api: packages/api/**'. Expected format: <name>[: <path>, ...]"
+    )
+  })
+
+  it("should reject a duplicate component", () => {
+    expect(() => parseComponents(["api", "api: packages/api/**"])).toThrow("Duplicate component: 'api'")
+  })
+})
+
+describe("isComponentPullRequest", () => {
+  const api = { name: "api", paths: ["packages/api/**"] }
+
+  it("should match the conventional commit scope", () => {
+    expect(isComponentPullRequest(createPR("feat(api): endpoint"), api)).toBe(true)
+    expect(isComponentPullRequest(createPR("feat(web): page"), api)).toBe(false)
+  })
+
+  it("should match any scope of a comma-separated list", () => {
+    expect(isComponentPullRequest(createPR("fix(web, api): shared bug"), api)).toBe(true)
+  })
+
+  it("should match changed files against the component paths", () => {
+    expect(
+      isComponentPullRequest(createPR("fix: bug", ["README.md", "packages/api/src/index.ts"]), api)
+    ).toBe(true)
+    expect(isComponentPullRequest(createPR("fix: bug", ["packages/web/index.ts"]), api)).toBe(false)
+  })
+
+  it("should not match by path when the component has no paths", () => {
+    expect(
+      isComponentPullRequest(createPR("fix: bug", ["packages/api/index.ts"]), { name: "api", paths: [] })
+    ).toBe(false)
+  })
+})
@@ -1,5 +1,10 @@
 import { describe, expect, it } from "vitest"
-import { maxImpact, messageImpact } from "@/versioning/conventional-commits"
+import {
+  analyseMessage,
+  maxImpact,
+  messageImpact,
+  suggestConventionalTitle
+} from "@/versioning/conventional-commits"
 import type { VersionIncrement } from "@/versioning/version"
 
 describe("messageImpact", () => {
@@ -164,6 +169,147 @@ describe("messageImpact", () => {
   })
 })
 
+describe("messageImpact with custom type impacts", () => {
+  const typeImpacts = {
+    feat: "minor" as const,
+    fix: "patch" as const,
+    perf: "patch" as const,
+    revert: "patch" as const,
+    security: "patch" as const,
+    deps: "minor" as const
+  }
+
+  it("should use the mapped impact for additional types", () => {
+    expect(messageImpact("perf: optimize query", typeImpacts)).toBe("patch")
+    expect(messageImpact("revert: undo last commit", typeImpacts)).toBe("patch")
+    expect(messageImpact("security(auth): patch vulnerability", typeImpacts)).toBe("patch")
+    expect(messageImpact("deps: bump octokit", typeImpacts)).toBe("minor")
+  })
+
+  it("should return NONE for types not mapped", () => {
+    expect(messageImpact("docs: update README", typeImpacts)).toBe("none")
+    expect(messageImpact("feat: add feature", { fix: "patch" })).toBe("none")
+  })
+
+  it("should return NONE for types mapped to none", () => {
+    expect(messageImpact("fix: typo", { fix: "none" })).toBe("none")
+  })
+
+  it("should still detect breaking changes regardless of mapping", () => {
+    expect(messageImpact("docs!: remove old guide", {})).toBe("major")
+    expect(messageImpact("chore: drop support\n\nBREAKING CHANGE: removed", {})).toBe("major")
+  })
+
+  it("should not match inherited object properties as types", () => {
+    expect(messageImpact("constructor: something", typeImpacts)).toBe("none")
+  })
+})
+
+describe("analyseMessage", () => {
+  it("should report the type and scope", () => {
+    expect(analyseMessage("feat(api): add endpoint")).toEqual({
+      type: "feat",
+      scope: "api",
+      impact: "minor",
+      reason: "type `feat`"
+    })
+  })
+
+  it("should report no scope when empty", () => {
+    expect(analyseMessage("fix(): correct typo").scope).toBeNull()
+  })
+
+  it("should report the breaking marker", () => {
+    expect(analyseMessage("refactor(core)!: rework")).toEqual({
+      type: "refactor",
+      scope: "core",
+      impact: "major",
+      reason: "`!` marker"
+    })
+  })
+
+  it("should report the breaking change footer", () => {
+    expect(analyseMessage("feat: add\n\nBREAKING CHANGE: removed old")).toEqual({
+      type: "feat",
+      scope: null,
+      impact: "major",
+      reason: "BREAKING CHANGE footer"
+    })
+  })
+
+  it("should report the breaking change footer on a message not in conventional commit format", () => {
+    expect(analyseMessage("BREAKING CHANGE: removed old")).toEqual({
+      type: null,
+      scope: null,
+      impact: "major",
+      reason: "BREAKING CHANGE footer"
+    })
+  })
+
+  it("should report types with no impact", () => {
+    expect(analyseMessage("docs: update")).toEqual({
+      type: "docs",
+      scope: null,
+      impact: "none",
+      reason: "type `docs`"
+    })
+  })
+
+  it("should report messages not in conventional commit format", () => {
+    expect(analyseMessage("Update README")).toEqual({
+      type: null,
+      scope: null,
+      impact: "none",
+      reason: "not a conventional commit"
+    })
+  })
+
+  it("should report empty messages", () => {
+    expect(analyseMessage("  ").reason).toBe("empty message")
+  })
+})
+
+describe("suggestConventionalTitle", () => {
+  it("should correct the case of the type", () => {
+    expect(suggestConventionalTitle("Feat: add x")).toBe("feat: add x")
+    expect(suggestConventionalTitle("FIX(api): correct y")).toBe("fix(api): correct y")
+  })
+
+  it("should add a missing colon", () => {
+    expect(suggestConventionalTitle("feat add x")).toBe("feat: add x")
+    expect(suggestConventionalTitle("fix(api) correct y")).toBe("fix(api): correct y")
+  })
+
+  it("should remove whitespace before the colon", () => {
+    expect(suggestConventionalTitle("feat : add x")).toBe("feat: add x")
+  })
+
+  it("should correct common misspellings of types", () => {
+    expect(suggestConventionalTitle("feature: add x")).toBe("feat: add x")
+    expect(suggestConventionalTitle("bugfix: correct y")).toBe("fix: correct y")
+    expect(suggestConventionalTitle("Feature(ui)!: rework z")).toBe("feat(ui)!: rework z")
+  })
+
+  it("should suggest types from the type impacts", () => {
+    expect(suggestConventionalTitle("Deps: bump lib", { deps: "patch" })).toBe("deps: bump lib")
+    expect(suggestConventionalTitle("Deps: bump lib")).toBeNull()
+  })
+
+  it("should not suggest a title for unknown types", () => {
+    expect(suggestConventionalTitle("Update README")).toBeNull()
+    expect(suggestConventionalTitle("Merge pull request #123")).toBeNull()
+  })
+
+  it("should not suggest a title for conventional titles", () => {
+    expect(suggestConventionalTitle("feat: add x")).toBeNull()
+  })
+
+  it("should not suggest a title without a description", () => {
+    expect(suggestConventionalTitle("Feat:")).toBeNull()
+    expect(suggestConventionalTitle("")).toBeNull()
+  })
+})
+
 describe("maxImpact", () => {
   describe("Single message", () => {
     it("should return same impact when single item", () => {
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest"
+import {
+  findPrereleaseChannel,
+  nextPrereleaseNumber,
+  parsePrereleaseChannels
+} from "@/versioning/prerelease-channel"
+import { parseVersion } from "@/versioning/version"
+
+describe("parsePrereleaseChannels", () => {
+  it("should parse branch and identifier pairs", () => {
+    expect(parsePrereleaseChannels(["next: beta", " release/*-rc : rc", "alpha:alpha"])).toEqual([
+      { branch: "next", identifier: "beta" },
+      { branch: "release/*-rc", identifier: "rc" },
+      { branch: "alpha", identifier: "alpha" }
+    ])
+  })
+
+  it("should reject lines not in the expected format", () => {
+    for (const line of ["next", ": beta", "next: ", "next: beta.1", "next: 2"]) {
+      expect(() => parsePrereleaseChannels([line])).toThrow(
+        `Invalid prerelease channel: '${line}'. Expected format: <branch>: <identifier>`
+      )
+    }
+  })
+})
+
+describe("findPrereleaseChannel", () => {
+  const channels = parsePrereleaseChannels(["next: beta", "release/*: rc"])
+
+  it("should find the channel matching the branch", () => {
+    expect(findPrereleaseChannel("next", channels)?.identifier).toBe("beta")
+    expect(findPrereleaseChannel("release/2.x", channels)?.identifier).toBe("rc")
+  })
+
+  it("should return null when no channel matches", () => {
+    expect(findPrereleaseChannel("main", channels)).toBeNull()
+    expect(findPrereleaseChannel("next/feature", channels)).toBeNull()
+  })
+})
+
+describe("nextPrereleaseNumber", () => {
+  const beta = { branch: "next", identifier: "beta" }
+
+  it("should start at 1", () => {
+    expect(nextPrereleaseNumber(parseVersion("2.0.0"), beta, [])).toBe(1)
+  })
+
+  it("should follow the highest prerelease of the channel and core version", () => {
+    const existing = [
+      "2.0.0-beta.1",
+      "2.0.0-beta.10",
+      "2.0.0-beta.2",
+      "2.0.0-rc.20",
+      "1.9.0-beta.30",
+      "2.0.0"
+    ]
+    expect(nextPrereleaseNumber(parseVersion("2.0.0"), beta, existing.map(parseVersion))).toBe(11)
+  })
+
+  it("should ignore prereleases without a number", () => {
+    expect(nextPrereleaseNumber(parseVersion("2.0.0"), beta, [parseVersion("2.0.0-beta")])).toBe(1)
+  })
+})
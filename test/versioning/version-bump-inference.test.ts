@@ -1,14 +1,21 @@
 import { describe, expect, it } from "vitest"
 import type { PullRequest } from "@/data/pull-requests"
-import { inferImpactFromPRs } from "@/versioning/version-bump-inference"
+import {
+  describeNonConventionalTitle,
+  findNonConventionalTitles,
+  inferImpactFromPRs,
+  inferPullRequestImpacts
+} from "@/versioning/version-bump-inference"
 
-function createPR(number: number, title: string): PullRequest {
+function createPR(number: number, title: string, labels: string[] = []): PullRequest {
   return {
     title: title,
     number: number,
     baseRefName: "main",
     state: "MERGED",
-    mergedAt: new Date()
+    mergedAt: new Date(),
+    labels: labels,
+    files: []
   }
 }
 
@@ -62,3 +69,144 @@ describe("inferImpactFromPRs", () => {
     expect(impact).toBe("major")
   })
 })
+
+describe("inferImpactFromPRs with labels", () => {
+  it("should infer impact from default labels", () => {
+    expect(inferImpactFromPRs([createPR(1, "Add feature", ["enhancement"])])).toBe("minor")
+    expect(inferImpactFromPRs([createPR(1, "Fix it", ["bug"])])).toBe("patch")
+    expect(inferImpactFromPRs([createPR(1, "Change API", ["breaking"])])).toBe("major")
+  })
+
+  it("should match labels case-insensitively", () => {
+    expect(inferImpactFromPRs([createPR(1, "Change API", ["Breaking"])])).toBe("major")
+  })
+
+  it("should ignore labels that are not mapped", () => {
+    expect(inferImpactFromPRs([createPR(1, "Update docs", ["documentation"])])).toBe("none")
+  })
+
+  it("should ignore labels named after object properties", () => {
+    expect(inferImpactFromPRs([createPR(1, "Update docs", ["constructor", "toString", "__proto__"])])).toBe(
+      "none"
+    )
+  })
+
+  it("should use the maximum impact of title and labels", () => {
+    expect(inferImpactFromPRs([createPR(1, "fix: correct bug", ["enhancement"])])).toBe("minor")
+    expect(inferImpactFromPRs([createPR(1, "feat!: breaking change", ["bug"])])).toBe("major")
+  })
+
+  it("should use the maximum impact across PRs", () => {
+    const prs = [createPR(1, "fix: correct bug"), createPR(2, "Refactor", ["breaking"])]
+    expect(inferImpactFromPRs(prs)).toBe("major")
+  })
+
+  it("should use a custom label mapping instead of the default", () => {
+    const options = { labelImpacts: { Feature: "minor" as const } }
+    expect(inferImpactFromPRs([createPR(1, "Add thing", ["feature"])], options)).toBe("minor")
+    expect(inferImpactFromPRs([createPR(1, "Add thing", ["enhancement"])], options)).toBe("none")
+  })
+
+  it("should use a custom type mapping for titles", () => {
+    const options = { typeImpacts: { feat: "minor" as const, fix: "patch" as const, deps: "patch" as const } }
+    expect(inferImpactFromPRs([createPR(1, "deps: bump octokit")], options)).toBe("patch")
+    expect(inferImpactFromPRs([createPR(1, "deps: bump octokit")])).toBe("none")
+  })
+})
+
+describe("inferPullRequestImpacts", () => {
+  it("should return the impact of each PR", () => {
+    const prs = [createPR(1, "fix(api): bug fix"), createPR(2, "feat!: rework"), createPR(3, "docs: readme")]
+
+    expect(inferPullRequestImpacts(prs)).toEqual([
+      {
+        number: 1,
+        title: "fix(api): bug fix",
+        type: "fix",
+        scope: "api",
+        impact: "patch",
+        reason: "type `fix`"
+      },
+      { number: 2, title: "feat!: rework", type: "feat", scope: null, impact: "major", reason: "`!` marker" },
+      { number: 3, title: "docs: readme", type: "docs", scope: null, impact: "none", reason: "type `docs`" }
+    ])
+  })
+
+  it("should report a label as the reason when it implies a higher impact than the title", () => {
+    const prs = [createPR(1, "fix: rework API", ["bug", "Breaking"])]
+
+    expect(inferPullRequestImpacts(prs)).toEqual([
+      {
+        number: 1,
+        title: "fix: rework API",
+        type: "fix",
+        scope: null,
+        impact: "major",
+        reason: "label `Breaking`"
+      }
+    ])
+  })
+
+  it("should report the title as the reason when a label implies the same impact", () => {
+    const prs = [createPR(1, "fix: bug", ["bug"])]
+
+    expect(inferPullRequestImpacts(prs)[0].reason).toBe("type `fix`")
+  })
+
+  it("should report PRs not in conventional commit format", () => {
+    const prs = [createPR(1, "Update README")]
+
+    expect(inferPullRequestImpacts(prs)).toEqual([
+      {
+        number: 1,
+        title: "Update README",
+        type: null,
+        scope: null,
+        impact: "none",
+        reason: "not a conventional commit"
+      }
+    ])
+  })
+
+  it("should return no impacts for no PRs", () => {
+    expect(inferPullRequestImpacts([])).toEqual([])
+  })
+})
+
+describe("findNonConventionalTitles", () => {
+  it("should return only PRs with titles not in conventional commit format", () => {
+    const impacts = inferPullRequestImpacts([
+      createPR(1, "feat: add x"),
+      createPR(2, "Update README"),
+      createPR(3, "Rework API", ["breaking"])
+    ])
+
+    expect(findNonConventionalTitles(impacts).map((pr) => pr.number)).toEqual([2, 3])
+  })
+})
+
+describe("describeNonConventionalTitle", () => {
+  it("should suggest a corrected title for a near-miss", () => {
+    const [impact] = inferPullRequestImpacts([createPR(7, "Feat: add x")])
+
+    expect(describeNonConventionalTitle(impact)).toBe(
+      "Pull request #7 title 'Feat: add x' is not a conventional commit, did you mean 'feat: add x'?"
+    )
+  })
+
+  it("should use the type impacts for suggestions", () => {
+    const [impact] = inferPullRequestImpacts([createPR(7, "deps bump lib")])
+
+    expect(describeNonConventionalTitle(impact, { typeImpacts: { deps: "patch" } })).toBe(
+      "Pull request #7 title 'deps bump lib' is not a conventional commit, did you mean 'deps: bump lib'?"
+    )
+  })
+
+  it("should describe the title without a suggestion otherwise", () => {
+    const [impact] = inferPullRequestImpacts([createPR(7, "Update README")])
+
+    expect(describeNonConventionalTitle(impact)).toBe(
+      "Pull request #7 title 'Update README' is not a conventional commit"
+    )
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest"
+import { parseVersion } from "@/versioning/version"
+import { parseVersionScheme, semverScheme } from "@/versioning/version-scheme"
+
+describe("parseVersionScheme", () => {
+  it("should return the semver scheme", () => {
+    expect(parseVersionScheme("semver")).toBe(semverScheme)
+  })
+
+  it("should return a calendar scheme", () => {
+    expect(parseVersionScheme("YYYY.MM.MICRO").name).toBe("YYYY.MM.MICRO")
+    expect(parseVersionScheme("YY.0W.MICRO").name).toBe("YY.0W.MICRO")
+  })
+
+  it("should reject an unknown scheme", () => {
+    for (const name of ["calver", "YYYY.MM", "MICRO", "YYYY.MONTH.MICRO", "YYYY.MICRO.MM"]) {
+      expect(() => parseVersionScheme(name)).toThrow(`Invalid version scheme: '${name}'`)
+    }
+  })
+})
+
+describe("semverScheme", () => {
+  const date = new Date("2026-03-15T12:00:00Z")
+
+  it("should bump the last version", () => {
+    expect(semverScheme.next(parseVersion("1.2.3"), "minor", date, false).core).toBe("1.3.0")
+    expect(semverScheme.next(parseVersion("0.2.3"), "major", date, true).core).toBe("0.3.0")
+  })
+
+  it("should use the default version initially", () => {
+    expect(semverScheme.initial(parseVersion("v0.1.0"), date).core).toBe("0.1.0")
+  })
+})
+
+describe("calendar scheme", () => {
+  const monthly = parseVersionScheme("YYYY.MM.MICRO")
+  const weekly = parseVersionScheme("YY.0W.MICRO")
+  const date = new Date("2026-03-15T12:00:00Z")
+
+  it("should parse versions of the format", () => {
+    const version = weekly.parse("v26.05.2-branch.x+1.1")
+    expect(version.core).toBe("26.05.2")
+    expect(version.prerelease).toEqual(["branch", "x"])
+    expect(version.build).toEqual(["1", "1"])
+    expect(version.tag).toBe("v26.05.2")
+  })
+
+  it("should reject versions not of the format", () => {
+    expect(() => monthly.parse("2026.3")).toThrow("Invalid version: 2026.3. Expected format: YYYY.MM.MICRO")
+    expect(() => monthly.parse("release")).toThrow("Invalid version: release. Expected format: YYYY.MM.MICRO")
+  })
+
+  it("should start at the first micro version of the date", () => {
+    expect(monthly.initial(parseVersion("v0.1.0"), date).core).toBe("2026.3.0")
+    expect(weekly.initial(parseVersion("v0.1.0"), date).core).toBe("26.11.0")
+  })
+
+  it("should increment the micro version within the same period", () => {
+    expect(monthly.next(monthly.parse("2026.3.4"), "patch", date, false).core).toBe("2026.3.5")
+    expect(weekly.next(weekly.parse("26.11.0"), "major", date, false).core).toBe("26.11.1")
+  })
+
+  it("should reset the micro version in a new period", () => {
+    expect(monthly.next(monthly.parse("2026.2.4"), "patch", date, false).core).toBe("2026.3.0")
+    expect(weekly.next(weekly.parse("25.52.3"), "minor", date, false).core).toBe("26.11.0")
+  })
+
+  it("should keep increasing when the last version is of a later period", () => {
+    expect(monthly.next(monthly.parse("2026.4.1"), "patch", date, false).core).toBe("2026.4.2")
+  })
+
+  it("should not change the version without an increment", () => {
+    expect(monthly.next(monthly.parse("2026.2.4"), "none", date, false).core).toBe("2026.2.4")
+  })
+
+  it("should keep the component and tag template", () => {
+    const last = monthly.parse("2026.2.4").withComponent("api").withTagTemplate("{version}")
+    expect(monthly.next(last, "patch", date, false).tag).toBe("api-2026.3.0")
+    expect(monthly.next(last.withPrerelease([]), "patch", new Date("2026-02-01"), false).tag).toBe(
+      "api-2026.2.5"
+    )
+  })
+
+  it("should use ISO weeks and the year of the week", () => {
+    // Monday 29 December 2025 is in week 1 of 2026
+    expect(weekly.initial(parseVersion("v0.1.0"), new Date("2025-12-29T00:00:00Z")).core).toBe("26.01.0")
+    // Sunday 3 January 2027 is in week 53 of 2026
+    expect(weekly.initial(parseVersion("v0.1.0"), new Date("2027-01-03T23:59:59Z")).core).toBe("26.53.0")
+    // The calendar year is used without a week
+    expect(monthly.initial(parseVersion("v0.1.0"), new Date("2025-12-29T00:00:00Z")).core).toBe("2025.12.0")
+  })
+
+  it("should render zero-padded and day parts", () => {
+    const scheme = parseVersionScheme("0Y.0M.0D.MICRO")
+    expect(scheme.initial(parseVersion("v0.1.0"), new Date("2026-03-05T00:00:00Z")).core).toBe("26.03.05.0")
+  })
+})
@@ -1,5 +1,19 @@
 import { describe, expect, it } from "vitest"
-import { parseVersion, sanitiseBranchPrerelease } from "@/versioning/version"
+import {
+  formatImpactMapping,
+  formatReleaseName,
+  formatVersionIncrement,
+  lookupImpact,
+  parseImpactMapping,
+  parseTagVersion,
+  parseVersion,
+  releaseNamePrefix,
+  sanitiseBranchPrerelease,
+  tagPrefix,
+  Version,
+  validateNameTemplate,
+  validateTagTemplate
+} from "@/versioning/version"
 
 describe("basic version parsing", () => {
   it("should parse version with v prefix", () => {
@@ -98,6 +112,132 @@ describe("tag version", () => {
   it("should return no metadata", () => {
     expect(parseVersion("1.2.3-alpha+build").tag).toBe("v1.2.3")
   })
+  it("should return the version tag with the component prefix", () => {
+    expect(parseVersion("1.2.3").withComponent("api").tag).toBe("api-v1.2.3")
+  })
+  it("should keep the component when changed", () => {
+    const version = parseVersion("1.2.3").withComponent("api")
+    expect(version.bump("minor").withPrerelease(["beta"]).withBuild(["1"]).tag).toBe("api-v1.3.0")
+  })
+  it("should render the tag template", () => {
+    expect(parseVersion("1.2.3").withTagTemplate("release-{version}").tag).toBe("release-1.2.3")
+    expect(parseVersion("1.2.3").withTagTemplate("{version}").withComponent("api").tag).toBe("api-1.2.3")
+  })
+  it("should include the prerelease in the release tag", () => {
+    expect(parseVersion("2.0.0-beta.1+42").releaseTag).toBe("v2.0.0-beta.1")
+    expect(parseVersion("2.0.0+42").withComponent("api").releaseTag).toBe("api-v2.0.0")
+  })
+  it("should keep the tag template when changed", () => {
+    const version = parseVersion("1.2.3").withTagTemplate("{version}")
+    expect(version.bump("major").withComponent("api").withBuild(["1"]).tag).toBe("api-2.0.0")
+  })
+})
+
+describe("parseTagVersion", () => {
+  it("should parse a tag without a component", () => {
+    const version = parseTagVersion("v1.2.3")
+    expect(version.core).toBe("1.2.3")
+    expect(version.component).toBeNull()
+  })
+  it("should parse a tag with a component", () => {
+    const version = parseTagVersion("api-v1.2.3", "api")
+    expect(version.core).toBe("1.2.3")
+    expect(version.component).toBe("api")
+    expect(version.tag).toBe("api-v1.2.3")
+  })
+  it("should parse a component that contains hyphens", () => {
+    expect(parseTagVersion("web-app-v2.0.0", "web-app").core).toBe("2.0.0")
+  })
+  it("should reject a tag without the component prefix", () => {
+    expect(() => parseTagVersion("web-v1.2.3", "api")).toThrow(
+      "Invalid version tag: web-v1.2.3. Expected prefix: api-"
+    )
+  })
+  it("should parse a tag through the tag template", () => {
+    const version = parseTagVersion("release-1.2.3-final", null, "release-{version}-final")
+    expect(version.core).toBe("1.2.3")
+    expect(version.tag).toBe("release-1.2.3-final")
+  })
+  it("should parse a tag with a component through the tag template", () => {
+    const version = parseTagVersion("api-1.2.3", "api", "{version}")
+    expect(version.core).toBe("1.2.3")
+    expect(version.tag).toBe("api-1.2.3")
+  })
+  it("should reject a tag not matching the tag template", () => {
+    expect(() => parseTagVersion("v1.2.3", null, "release-{version}")).toThrow(
+      "Invalid version tag: v1.2.3. Expected template: release-{version}"
+    )
+    expect(() => parseTagVersion("release-", null, "release-{version}")).toThrow(
+      "Invalid version tag: release-. Expected template: release-{version}"
+    )
+  })
+})
+
+describe("tagPrefix", () => {
+  it("should return the tag prefix", () => {
+    expect(tagPrefix()).toBe("v")
+    expect(tagPrefix("api")).toBe("api-v")
+  })
+  it("should return the tag template prefix", () => {
+    expect(tagPrefix(null, "release-{version}")).toBe("release-")
+    expect(tagPrefix("api", "{version}")).toBe("api-")
+  })
+})
+
+describe("validateTagTemplate", () => {
+  it("should accept a template with a version placeholder", () => {
+    expect(validateTagTemplate("release-{version}")).toBe("release-{version}")
+  })
+  it("should reject a template without a single version placeholder", () => {
+    for (const template of ["release", "{version}-{version}", "{version}-{date}"]) {
+      expect(() => validateTagTemplate(template)).toThrow(
+        `Invalid tag template: '${template}'. Expected a single placeholder of: {version}`
+      )
+    }
+  })
+})
+
+describe("validateNameTemplate", () => {
+  it("should accept known placeholders", () => {
+    expect(validateNameTemplate("MyApp {version} ({date}) {tag}")).toBe("MyApp {version} ({date}) {tag}")
+    expect(validateNameTemplate("Next Release")).toBe("Next Release")
+  })
+  it("should reject unknown placeholders", () => {
+    expect(() => validateNameTemplate("MyApp {release}")).toThrow(
+      "Invalid name template: 'MyApp {release}'. Unknown placeholder {release}, expected any of: {version}, {date}, {tag}"
+    )
+  })
+})
+
+describe("formatReleaseName", () => {
+  const date = new Date("2026-01-31T23:00:00Z")
+
+  it("should render the placeholders", () => {
+    const version = parseVersion("1.2.3").withBuild(["1"])
+    expect(formatReleaseName("MyApp {version} ({date})", version, date)).toBe("MyApp 1.2.3 (2026-01-31)")
+    expect(formatReleaseName("{tag}", version, date)).toBe("v1.2.3")
+  })
+  it("should render the prerelease without build metadata", () => {
+    const version = parseVersion("2.0.0-beta.1+42")
+    expect(formatReleaseName("MyApp {version}", version, date)).toBe("MyApp 2.0.0-beta.1")
+    expect(formatReleaseName("{tag}", version, date)).toBe("v2.0.0-beta.1")
+  })
+  it("should prefix the component unless included by the tag", () => {
+    const version = parseVersion("1.2.3").withComponent("api")
+    expect(formatReleaseName("MyApp {version}", version, date)).toBe("api-MyApp 1.2.3")
+    expect(formatReleaseName("Release {tag}", version, date)).toBe("Release api-v1.2.3")
+  })
+})
+
+describe("releaseNamePrefix", () => {
+  it("should return the literal text before the first placeholder", () => {
+    expect(releaseNamePrefix("MyApp {version} ({date})")).toBe("MyApp ")
+    expect(releaseNamePrefix("MyApp {version}", "api")).toBe("api-MyApp ")
+  })
+  it("should include the tag prefix when the first placeholder is the tag", () => {
+    expect(releaseNamePrefix("{tag}")).toBe("v")
+    expect(releaseNamePrefix("Release {tag}", "api", "{version}")).toBe("Release api-")
+  })
 })
 
 describe("bump", () => {
@@ -127,3 +267,175 @@ describe("bump", () => {
     expect(version.bump("patch").toString()).toBe("1.2.4-alpha.1+build.001")
   })
 })
+
+describe("bump in initial development", () => {
+  it("should bump the minor version on a breaking change before 1.0.0", () => {
+    expect(parseVersion("0.3.2").bump("major", true).toString()).toBe("0.4.0")
+  })
+
+  it("should bump the patch version on a feature before 1.0.0", () => {
+    expect(parseVersion("0.3.2").bump("minor", true).toString()).toBe("0.3.3")
+  })
+
+  it("should bump the patch version on a fix before 1.0.0", () => {
+    expect(parseVersion("0.3.2").bump("patch", true).toString()).toBe("0.3.3")
+  })
+
+  it("should not bump the version on none before 1.0.0", () => {
+    expect(parseVersion("0.3.2").bump("none", true).toString()).toBe("0.3.2")
+  })
+
+  it("should never graduate to 1.0.0", () => {
+    expect(parseVersion("0.9.9").bump("major", true).toString()).toBe("0.10.0")
+  })
+
+  it("should bump normally from 1.0.0", () => {
+    expect(parseVersion("1.0.0").bump("major", true).toString()).toBe("2.0.0")
+    expect(parseVersion("1.0.0").bump("minor", true).toString()).toBe("1.1.0")
+    expect(parseVersion("1.0.0").bump("patch", true).toString()).toBe("1.0.1")
+  })
+
+  it("should bump normally before 1.0.0 when not in initial development", () => {
+    expect(parseVersion("0.3.2").bump("major").toString()).toBe("1.0.0")
+    expect(parseVersion("0.3.2").bump("minor", false).toString()).toBe("0.4.0")
+  })
+})
+
+describe("appliedIncrement", () => {
+  it("should apply a lower increment before 1.0.0 in initial development", () => {
+    expect(parseVersion("0.3.2").appliedIncrement("major", true)).toBe("minor")
+    expect(parseVersion("0.3.2").appliedIncrement("minor", true)).toBe("patch")
+    expect(parseVersion("0.3.2").appliedIncrement("none", true)).toBe("none")
+  })
+
+  it("should apply the change otherwise", () => {
+    expect(parseVersion("1.0.0").appliedIncrement("major", true)).toBe("major")
+    expect(parseVersion("0.3.2").appliedIncrement("major")).toBe("major")
+  })
+})
+
+describe("major", () => {
+  it("should return the major version number", () => {
+    expect(parseVersion("0.3.2").major).toBe(0)
+    expect(parseVersion("v12.3.2").major).toBe(12)
+  })
+})
+
+describe("compareCore", () => {
+  it("should compare the core versions", () => {
+    expect(parseVersion("1.2.3").compareCore(parseVersion("1.2.4"))).toBeLessThan(0)
+    expect(parseVersion("2.0.0").compareCore(parseVersion("1.9.9"))).toBeGreaterThan(0)
+    expect(parseVersion("v1.2.3").compareCore(parseVersion("1.2.3"))).toBe(0)
+  })
+
+  it("should ignore prerelease and build metadata", () => {
+    expect(parseVersion("1.2.3-beta.1+42").compareCore(parseVersion("1.2.3"))).toBe(0)
+  })
+
+  it("should compare parts numerically, such as zero-padded calendar versions", () => {
+    expect(new Version("26.05.1").compareCore(new Version("26.10.0"))).toBeLessThan(0)
+    expect(new Version("26.05.1").compareCore(new Version("26.5.1"))).toBe(0)
+    expect(new Version("26.3.5.1").compareCore(new Version("26.3.5"))).toBeGreaterThan(0)
+  })
+})
+
+describe("incrementFrom", () => {
+  it("should return the component that increased", () => {
+    expect(parseVersion("2.0.0").incrementFrom(parseVersion("1.4.2"))).toBe("major")
+    expect(parseVersion("1.5.0").incrementFrom(parseVersion("1.4.2"))).toBe("minor")
+    expect(parseVersion("1.4.3").incrementFrom(parseVersion("1.4.2"))).toBe("patch")
+  })
+
+  it("should return none when the version is not higher", () => {
+    expect(parseVersion("1.4.2").incrementFrom(parseVersion("1.4.2"))).toBe("none")
+    expect(parseVersion("1.0.0").incrementFrom(parseVersion("1.4.2"))).toBe("none")
+  })
+
+  it("should return the part that increased in other schemes", () => {
+    expect(new Version("2026.3.0").incrementFrom(new Version("2026.2.4"))).toBe("minor")
+    expect(new Version("26.03.05.2").incrementFrom(new Version("26.03.05.1"))).toBe("patch")
+  })
+})
+
+describe("parseImpactMapping", () => {
+  it("should parse name and increment pairs", () => {
+    expect(
+      parseImpactMapping(["breaking: major", "enhancement:minor", " bug : patch", "chore: none"])
+    ).toEqual({
+      breaking: "major",
+      enhancement: "minor",
+      bug: "patch",
+      chore: "none"
+    })
+  })
+
+  it("should return an empty mapping for no lines", () => {
+    expect(parseImpactMapping([])).toEqual({})
+  })
+
+  it("should lower case names, as types and labels are matched in lower case", () => {
+    expect(parseImpactMapping(["Feat: minor", "BUG: patch"])).toEqual({ feat: "minor", bug: "patch" })
+  })
+
+  it("should allow names containing colons", () => {
+    expect(parseImpactMapping(["type: feature: minor"])).toEqual({ "type: feature": "minor" })
+  })
+
+  it("should map names of object properties like any other", () => {
+    const mapping = parseImpactMapping(["__proto__: major", "constructor: minor"])
+
+    expect(lookupImpact(mapping, "__proto__")).toBe("major")
+    expect(lookupImpact(mapping, "constructor")).toBe("minor")
+    expect(lookupImpact(mapping, "toString")).toBe("none")
+    expect(Object.keys(mapping)).toEqual(["__proto__", "constructor"])
+  })
+
+  it("should throw on a line without a separator", () => {
+    expect(() => parseImpactMapping(["enhancement"])).toThrow(
+      "Invalid impact mapping: 'enhancement'. Expected format: <name>: <major|minor|patch|none>"
+    )
+  })
+
+  it("should throw on an unknown increment", () => {
+    expect(() => parseImpactMapping(["enhancement: feature"])).toThrow("Invalid impact mapping")
+  })
+
+  it("should throw on a missing name", () => {
+    expect(() => parseImpactMapping([": minor"])).toThrow("Invalid impact mapping")
+  })
+})
+
+describe("lookupImpact", () => {
+  it("should return the mapped impact", () => {
+    expect(lookupImpact({ feat: "minor" }, "feat")).toBe("minor")
+  })
+
+  it("should return none for names not mapped", () => {
+    expect(lookupImpact({ feat: "minor" }, "docs")).toBe("none")
+  })
+
+  it("should not treat inherited object properties as mapped", () => {
+    expect(lookupImpact({}, "constructor")).toBe("none")
+    expect(lookupImpact({}, "toString")).toBe("none")
+  })
+})
+
+describe("formatVersionIncrement", () => {
+  it("should format the applied increment", () => {
+    expect(formatVersionIncrement("minor", "minor")).toBe("minor")
+  })
+
+  it("should format the inferred increment when lowered in initial development", () => {
+    expect(formatVersionIncrement("minor", "major")).toBe("minor (major during initial development)")
+  })
+})
+
+describe("formatImpactMapping", () => {
+  it("should render entries on a single line", () => {
+    expect(formatImpactMapping({ feat: "minor", fix: "patch" })).toBe("feat: minor, fix: patch")
+  })
+
+  it("should render an empty mapping", () => {
+    expect(formatImpactMapping({})).toBe("(none)")
+  })
+})